@@ -1,64 +1,309 @@
 
-import React, { useState } from 'react';
-import { AppStep, SentenceData } from './types';
-import { generateArticleCurriculum, generateVocabCurriculum } from './services/geminiService';
+import React, { useState, useRef, useMemo, useEffect, useCallback } from 'react';
+import {
+  AppStep, SentenceData, TutorContext, Scenario, ProficiencyResult, CourseModule, SavedSession, SessionProgress
+} from './types';
+import { summarizeRepairs } from './services/curriculumValidator';
+import { generateScenario, getGenerationInfo } from './services/geminiService';
+import { AIErrorKind, toAIError } from './services/aiErrors';
+import { loadProficiency } from './services/proficiency';
+import { getDeckStats } from './services/reviewDeck';
+import { getDailySummaries } from './services/activityLog';
+import {
+  loadSession, saveSession, saveSessionProgress, clearSession, createCourseId, createProgressRecord, defaultCourseTitle
+} from './services/sessionStore';
+import { putCourse, putCourseProgress } from './services/courseLibrary';
+import { courseAverageScore } from './services/pronunciationScores';
+import { summarizeCloze } from './services/cloze';
+import {
+  CurriculumJob, ChunkProgress, createCurriculumJob, runCurriculumJob, isJobComplete,
+  estimatePendingLevels, skipFailedChunks, summarizeJob
+} from './services/curriculumPipeline';
 import InputSection from './components/InputSection';
+import GenerationProgress from './components/GenerationProgress';
+import ErrorNotice from './components/ErrorNotice';
+import PlacementTest from './components/PlacementTest';
+import ReviewSession from './components/ReviewSession';
+import ResumeSessionCard from './components/ResumeSessionCard';
+import CourseLibrary from './components/CourseLibrary';
+import GrammarIndex from './components/GrammarIndex';
+import StatsPage from './components/StatsPage';
+import MediaCachePanel from './components/MediaCachePanel';
 import PracticeSession from './components/PracticeSession';
 import ChatAssistant from './components/ChatAssistant';
 
-type ModuleType = 'article' | 'vocab' | 'scenario' | 'proficiency';
+type ModuleType = CourseModule | 'proficiency';
+type CourseInfo = Pick<SavedSession, 'courseId' | 'title' | 'module' | 'sourceText' | 'generation' | 'startedAt'>;
+
+const SAVE_DELAY_MS = 800;
+const EMPTY_PROGRESS: SessionProgress = { currentIndex: 0, unlockedIndex: 0, history: {}, checkpoints: {} };
+
+/**
+ * Coalesces storage writes: only the latest write per key runs, once nothing
+ * new was queued for `delayMs`, when the page is hidden, or on `flush()`.
+ */
+const useDeferredWrites = (delayMs: number) => {
+  const pendingRef = useRef(new Map<string, () => void>());
+  const timerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const flush = useCallback(() => {
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = null;
+    const writes = [...pendingRef.current.values()];
+    pendingRef.current.clear();
+    writes.forEach(write => write());
+  }, []);
+
+  const schedule = useCallback((key: string, write: () => void) => {
+    pendingRef.current.set(key, write);
+    if (timerRef.current) clearTimeout(timerRef.current);
+    timerRef.current = setTimeout(flush, delayMs);
+  }, [delayMs, flush]);
+
+  useEffect(() => {
+    window.addEventListener('pagehide', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [flush]);
+
+  return { schedule, flush };
+};
 
 const App: React.FC = () => {
   const [step, setStep] = useState<AppStep>(AppStep.INPUT);
   const [sentences, setSentences] = useState<SentenceData[]>([]);
   const [isGenerating, setIsGenerating] = useState(false);
+  const [repairNotes, setRepairNotes] = useState<string[]>([]);
+  const [tutorContext, setTutorContext] = useState<TutorContext | null>(null);
+  const [scenario, setScenario] = useState<Scenario | null>(null);
+  const [generationError, setGenerationError] = useState<AIErrorKind | null>(null);
+  const lastInputRef = useRef(''); // For retrying a failed scenario request
+  const [proficiency, setProficiency] = useState<ProficiencyResult | null>(loadProficiency);
+
+  // Streaming generation: levels become playable while later ones are still generating
+  const jobRef = useRef<CurriculumJob | null>(null);
+  const jobAbortRef = useRef<AbortController | null>(null);
+  const [chunkProgress, setChunkProgress] = useState<ChunkProgress[]>([]);
+  const [pendingLevelCount, setPendingLevelCount] = useState(0);
   
   // Sidebar state
   const [activeModule, setActiveModule] = useState<ModuleType>('article');
 
-  const handleStart = async (text: string) => {
+  // Saved session: the course being practiced is persisted so it survives reloads and "退出练习",
+  // and every course is kept in the library so it can be reopened later
+  const courseRef = useRef<CourseInfo | null>(null);
+  const [savedSession, setSavedSession] = useState<SavedSession | null>(loadSession);
+  const [resumeProgress, setResumeProgress] = useState<SessionProgress | undefined>(undefined);
+  const [sessionProgress, setSessionProgress] = useState<SessionProgress | null>(null);
+
+  const sessionProgressRef = useRef(sessionProgress);
+  sessionProgressRef.current = sessionProgress;
+  const isPartial = isGenerating || pendingLevelCount > 0;
+  const { schedule: scheduleWrite, flush: flushWrites } = useDeferredWrites(SAVE_DELAY_MS);
+
+  // The whole course is only rewritten when its levels change; each practice step saves just the progress
+  useEffect(() => {
+    const course = courseRef.current;
+    if (step !== AppStep.PRACTICE || !course || sentences.length === 0) return;
+    const session: SavedSession = {
+      ...course,
+      sentences,
+      scenario,
+      progress: sessionProgressRef.current || EMPTY_PROGRESS,
+      isPartial,
+      savedAt: Date.now(),
+    };
+    scheduleWrite('course', () => {
+      saveSession(session);
+      putCourse(session);
+    });
+  }, [step, sentences, scenario, isPartial, scheduleWrite]);
+
+  useEffect(() => {
+    const course = courseRef.current;
+    if (step !== AppStep.PRACTICE || !course || !sessionProgress) return;
+    const record = createProgressRecord(course.courseId, sessionProgress);
+    scheduleWrite('progress', () => {
+      saveSessionProgress(record);
+      putCourseProgress(record);
+    });
+  }, [step, sessionProgress, scheduleWrite]);
+
+  // Runs (or re-runs, for failed chunks) the current generation job
+  const runJob = async (job: CurriculumJob) => {
     setIsGenerating(true);
-    // Note: We stay on AppStep.INPUT to show the loading state on the same button
+    // Note: We stay on AppStep.INPUT until the first level arrives
     
-    try {
-      let data: SentenceData[] = [];
-      
-      if (activeModule === 'article') {
-        data = await generateArticleCurriculum(text);
-      } else if (activeModule === 'vocab') {
-        data = await generateVocabCurriculum(text);
-      } else {
-        // Fallback or future modules
-        data = await generateArticleCurriculum(text);
+    const controller = new AbortController();
+    jobAbortRef.current = controller;
+
+    await runCurriculumJob(job, (progress, levels) => {
+      if (jobRef.current !== job) return; // User left while generating
+      setChunkProgress(progress);
+      setSentences(levels);
+      setPendingLevelCount(estimatePendingLevels(job));
+      if (levels.length > 0) {
+        setStep(prev => (prev === AppStep.INPUT ? AppStep.PRACTICE : prev));
       }
+    }, controller.signal);
 
-      setSentences(data);
+    if (jobRef.current !== job) return;
+    setIsGenerating(false);
+    if (isJobComplete(job)) {
+      setRepairNotes(summarizeRepairs(summarizeJob(job).report));
+      setPendingLevelCount(0);
+    }
+  };
+
+  const handleRetryChunks = () => {
+    if (jobRef.current) runJob(jobRef.current);
+  };
+
+  const handleSkipFailedChunks = () => {
+    const job = jobRef.current;
+    if (!job) return;
+    skipFailedChunks(job);
+    const result = summarizeJob(job);
+    setChunkProgress([...job.progress]);
+    setSentences(result.sentences);
+    setRepairNotes(summarizeRepairs(result.report));
+    setPendingLevelCount(0);
+    if (result.sentences.length > 0) setStep(AppStep.PRACTICE);
+  };
+
+  // Scenarios are a single dialogue, so they skip the chunked pipeline
+  const runScenario = async (text: string) => {
+    setIsGenerating(true);
+    setGenerationError(null);
+    const controller = new AbortController();
+    jobAbortRef.current = controller;
+
+    try {
+      const result = await generateScenario(text, { signal: controller.signal });
+      if (controller.signal.aborted) return;
+      if (courseRef.current) courseRef.current.title = defaultCourseTitle('scenario', text, result.scenario);
+      setScenario(result.scenario);
+      setSentences(result.sentences);
+      setRepairNotes(summarizeRepairs(result.report));
       setStep(AppStep.PRACTICE);
     } catch (error) {
-      console.error(error);
-      alert('生成课程失败，请重试。');
-      // Stay on input step
+      const kind = toAIError(error).kind;
+      if (kind !== 'aborted') setGenerationError(kind);
     } finally {
-      setIsGenerating(false);
+      if (jobAbortRef.current === controller) {
+        jobAbortRef.current = null;
+        setIsGenerating(false);
+      }
     }
   };
 
+  const handleStart = async (text: string) => {
+    lastInputRef.current = text;
+    if (activeModule === 'proficiency') return;
+    courseRef.current = {
+      courseId: createCourseId(),
+      title: defaultCourseTitle(activeModule, text, null),
+      module: activeModule,
+      sourceText: text,
+      generation: getGenerationInfo(activeModule === 'scenario' ? undefined : proficiency?.level),
+      startedAt: Date.now(),
+    };
+    setResumeProgress(undefined);
+    setSessionProgress(null);
+    if (activeModule === 'scenario') {
+      await runScenario(text);
+      return;
+    }
+
+    // Articles are split into parallel chunks
+    const job = createCurriculumJob(activeModule === 'vocab' ? 'vocab' : 'article', text, proficiency?.level);
+    jobRef.current = job;
+    setChunkProgress(job.progress);
+    await runJob(job);
+  };
+
   const handleComplete = () => {
     setStep(AppStep.COMPLETED);
+    flushWrites(); // The library keeps the final progress
+    clearSession(); // Finished courses are not offered for resuming, but stay in the library
+    courseRef.current = null;
+    setSavedSession(null);
+  };
+
+  const stopGeneration = () => {
+    setChunkProgress([]);
+    setPendingLevelCount(0);
+    jobAbortRef.current?.abort(); // Stop generating a course the user left
+    jobAbortRef.current = null;
+    jobRef.current = null;
+    setIsGenerating(false);
+  };
+
+  // Opens a saved course (the resume card or the library) where it was left
+  const handleOpenCourse = (course: SavedSession) => {
+    stopGeneration();
+    const { courseId, title, module, sourceText, generation, startedAt } = course;
+    courseRef.current = { courseId, title, module, sourceText, generation, startedAt };
+    setActiveModule(module);
+    setSentences(course.sentences);
+    setScenario(course.scenario);
+    setResumeProgress(course.progress);
+    setSessionProgress(course.progress);
+    setRepairNotes([]);
+    setGenerationError(null);
+    setStep(AppStep.PRACTICE);
+  };
+
+  const handleDiscardSession = () => {
+    if (!confirm('确定要放弃这个课程吗？它仍会保留在「我的课程」中。')) return;
+    clearSession();
+    setSavedSession(null);
+  };
+
+  // Keeps the resume card in sync with edits made in the library
+  const handleCourseChange = (course: SavedSession) => {
+    if (savedSession?.courseId !== course.courseId) return;
+    saveSession(course);
+    setSavedSession(course);
+  };
+
+  const handleCourseDelete = (courseId: string) => {
+    if (savedSession?.courseId !== courseId) return;
+    clearSession();
+    setSavedSession(null);
   };
 
   const handleReset = () => {
     setStep(AppStep.INPUT);
+    flushWrites();
+    setSavedSession(loadSession()); // The course just left can be resumed
+    courseRef.current = null;
     setSentences([]);
-    setIsGenerating(false);
+    setRepairNotes([]);
+    setTutorContext(null);
+    setScenario(null);
+    setGenerationError(null);
+    stopGeneration();
   };
 
+  // Re-read when coming back to the input screen, e.g. after a review or a practice session
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const deckStats = useMemo(() => getDeckStats(), [step]);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  const weekSummary = useMemo(() => getDailySummaries(7), [step]);
+  const weekMinutes = weekSummary.reduce((sum, day) => sum + day.minutes, 0);
+  const maxDayMinutes = Math.max(1, ...weekSummary.map(day => day.minutes));
+  const courseAverage = sessionProgress ? courseAverageScore(sessionProgress.history) : null;
+  const clozeSummary = sessionProgress ? summarizeCloze(sessionProgress.history) : null;
+
   // Sidebar Menu Items
   const menuItems = [
     { id: 'article', label: '自定义文章', sub: 'Article & Text', icon: 'fa-book-open', color: 'from-green-400 to-emerald-500' },
     { id: 'vocab', label: '自定义单词', sub: 'Vocabulary List', icon: 'fa-tags', color: 'from-amber-400 to-orange-500' },
-    { id: 'scenario', label: '场景实战', sub: 'Coming Soon', icon: 'fa-briefcase', color: 'from-slate-300 to-slate-400' },
-    { id: 'proficiency', label: '能力分级', sub: 'Coming Soon', icon: 'fa-layer-group', color: 'from-slate-300 to-slate-400' },
+    { id: 'scenario', label: '场景实战', sub: 'Role-play Dialogue', icon: 'fa-briefcase', color: 'from-sky-400 to-blue-500' },
+    { id: 'proficiency', label: '能力分级', sub: proficiency ? `当前水平 ${proficiency.level}` : 'Placement Test', icon: 'fa-layer-group', color: 'from-violet-400 to-purple-500' },
   ];
 
   return (
@@ -96,18 +341,14 @@ const App: React.FC = () => {
                   <div className="space-y-2">
                     {menuItems.map((item) => {
                       const isActive = activeModule === item.id;
-                      const isDisabled = item.id === 'scenario' || item.id === 'proficiency';
                       return (
                         <button
                           key={item.id}
-                          onClick={() => !isDisabled && setActiveModule(item.id as ModuleType)}
-                          disabled={isDisabled}
+                          onClick={() => { setActiveModule(item.id as ModuleType); setGenerationError(null); }}
                           className={`w-full text-left p-4 rounded-2xl transition-all duration-300 group relative overflow-hidden
                             ${isActive 
                               ? `bg-gradient-to-br ${item.color} text-white shadow-lg transform scale-[1.02]` 
-                              : isDisabled
-                                ? 'bg-slate-50 text-slate-300 cursor-not-allowed opacity-60'
-                                : 'bg-white hover:bg-slate-50 text-slate-500 hover:text-slate-700'
+                              : 'bg-white hover:bg-slate-50 text-slate-500 hover:text-slate-700'
                             }
                           `}
                         >
@@ -121,48 +362,203 @@ const App: React.FC = () => {
                               <div className={`text-xs font-medium ${isActive ? 'text-white/80' : 'text-slate-400'}`}>{item.sub}</div>
                             </div>
                           </div>
-                          {!isActive && !isDisabled && <div className="absolute inset-0 border-2 border-transparent group-hover:border-slate-100 rounded-2xl transition-colors"></div>}
+                          {!isActive && <div className="absolute inset-0 border-2 border-transparent group-hover:border-slate-100 rounded-2xl transition-colors"></div>}
                         </button>
                       );
                     })}
                   </div>
                   
-                  {/* Stats Preview (Decor) */}
-                  <div className="mt-8 px-4 pb-2">
-                      <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Weekly Progress</div>
+                  {/* Daily Review */}
+                  <button
+                    onClick={() => setStep(AppStep.REVIEW)}
+                    className="mt-6 w-full text-left p-4 rounded-2xl bg-gradient-to-br from-rose-50 to-pink-50 border border-rose-100 hover:shadow-md hover:shadow-rose-100 transition-all group"
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 rounded-xl bg-white flex items-center justify-center text-rose-400 shadow-sm">
+                        <i className="fas fa-brain"></i>
+                      </div>
+                      <div className="flex-1">
+                        <div className="font-bold text-slate-800">每日复习</div>
+                        <div className="text-xs font-medium text-slate-400">
+                          {deckStats.total > 0 ? `词库 ${deckStats.total} 词 · 今日已复习 ${deckStats.reviewedToday}` : 'Spaced Repetition'}
+                        </div>
+                      </div>
+                      {deckStats.due > 0 && (
+                        <span className="min-w-[1.75rem] h-7 px-2 rounded-full bg-rose-500 text-white text-xs font-black flex items-center justify-center">
+                          {deckStats.due}
+                        </span>
+                      )}
+                    </div>
+                  </button>
+
+                  {/* Course Library */}
+                  <button
+                    onClick={() => setStep(AppStep.LIBRARY)}
+                    className="mt-3 w-full text-left p-4 rounded-2xl bg-gradient-to-br from-indigo-50 to-violet-50 border border-indigo-100 hover:shadow-md hover:shadow-indigo-100 transition-all"
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 rounded-xl bg-white flex items-center justify-center text-indigo-400 shadow-sm">
+                        <i className="fas fa-folder-open"></i>
+                      </div>
+                      <div>
+                        <div className="font-bold text-slate-800">我的课程</div>
+                        <div className="text-xs font-medium text-slate-400">Course Library</div>
+                      </div>
+                    </div>
+                  </button>
+
+                  {/* Grammar Index */}
+                  <button
+                    onClick={() => setStep(AppStep.GRAMMAR)}
+                    className="mt-3 w-full text-left p-4 rounded-2xl bg-gradient-to-br from-emerald-50 to-teal-50 border border-emerald-100 hover:shadow-md hover:shadow-emerald-100 transition-all"
+                  >
+                    <div className="flex items-center gap-4">
+                      <div className="w-10 h-10 rounded-xl bg-white flex items-center justify-center text-emerald-400 shadow-sm">
+                        <i className="fas fa-sitemap"></i>
+                      </div>
+                      <div>
+                        <div className="font-bold text-slate-800">语法索引</div>
+                        <div className="text-xs font-medium text-slate-400">Grammar Index</div>
+                      </div>
+                    </div>
+                  </button>
+
+                  {/* Weekly Progress: minutes practiced over the last seven days */}
+                  <button
+                      onClick={() => setStep(AppStep.STATS)}
+                      className="mt-8 w-full text-left px-4 pb-2 group"
+                      title="查看学习统计"
+                  >
+                      <div className="flex justify-between items-baseline mb-3">
+                          <div className="text-xs font-black text-slate-400 uppercase tracking-widest">Weekly Progress</div>
+                          <div className="text-xs font-bold text-slate-400 group-hover:text-green-500 transition-colors">
+                              {weekMinutes} 分钟<i className="fas fa-chevron-right ml-1 text-[10px]"></i>
+                          </div>
+                      </div>
                       <div className="flex items-end gap-1 h-12">
-                          <div className="flex-1 bg-slate-100 rounded-t-md h-[40%]"></div>
-                          <div className="flex-1 bg-slate-100 rounded-t-md h-[70%]"></div>
-                          <div className="flex-1 bg-green-400 rounded-t-md h-[60%]"></div>
-                          <div className="flex-1 bg-slate-100 rounded-t-md h-[30%]"></div>
-                          <div className="flex-1 bg-slate-100 rounded-t-md h-[80%]"></div>
+                          {weekSummary.map((day, index) => (
+                              <div
+                                  key={day.date}
+                                  className={`flex-1 rounded-t-md transition-colors ${index === weekSummary.length - 1 ? 'bg-green-400' : day.minutes > 0 ? 'bg-green-200' : 'bg-slate-100'}`}
+                                  style={{ height: `${Math.max(8, (day.minutes / maxDayMinutes) * 100)}%` }}
+                                  title={`${new Date(day.date).toLocaleDateString()}：${day.minutes} 分钟，${day.levels} 关`}
+                              ></div>
+                          ))}
                       </div>
-                  </div>
+                  </button>
+
+                  <MediaCachePanel />
                </div>
             </aside>
 
             {/* Right Content Area */}
             <div className="flex-1 min-w-0">
-               {/* Pass mode to InputSection to handle placeholder/text changes */}
-               <InputSection 
-                   onStart={handleStart} 
-                   isLoading={isGenerating} 
-                   mode={activeModule === 'vocab' ? 'vocab' : 'article'}
-               />
+               {savedSession && !isGenerating && (
+                   <ResumeSessionCard
+                       session={savedSession}
+                       onResume={() => handleOpenCourse(savedSession)}
+                       onDiscard={handleDiscardSession}
+                   />
+               )}
+               {activeModule === 'proficiency' ? (
+                   <PlacementTest
+                       savedResult={proficiency}
+                       onComplete={setProficiency}
+                       onStartLearning={() => setActiveModule('article')}
+                   />
+               ) : (
+                   /* Pass mode to InputSection to handle placeholder/text changes */
+                   <InputSection 
+                       onStart={handleStart} 
+                       isLoading={isGenerating} 
+                       mode={activeModule}
+                       level={proficiency?.level}
+                       onImport={handleOpenCourse} // Imported courses are saved to the library once opened
+                   />
+               )}
+               {generationError && (
+                   <div className="mt-6">
+                       <ErrorNotice
+                           kind={generationError}
+                           onRetry={() => handleStart(lastInputRef.current)}
+                           onDismiss={() => setGenerationError(null)}
+                       />
+                   </div>
+               )}
+               {(chunkProgress.length > 1 || chunkProgress.some(p => p.status === 'failed')) && (
+                   <GenerationProgress
+                       progress={chunkProgress}
+                       isRunning={isGenerating}
+                       onRetry={handleRetryChunks}
+                       onSkipFailed={handleSkipFailedChunks}
+                   />
+               )}
             </div>
 
           </div>
         ) : null}
 
+        {step === AppStep.PRACTICE && repairNotes.length > 0 && (
+          <div className="mb-6 flex items-start gap-3 bg-amber-50 border border-amber-100 text-amber-700 rounded-2xl px-5 py-3 text-sm font-medium animate-fade-in">
+            <i className="fas fa-tools mt-0.5"></i>
+            <div className="flex-1">
+              <span className="font-bold mr-2">课程已自动修复:</span>
+              {repairNotes.join('；')}
+            </div>
+            <button onClick={() => setRepairNotes([])} className="text-amber-400 hover:text-amber-600 transition-colors" title="关闭">
+              <i className="fas fa-times"></i>
+            </button>
+          </div>
+        )}
+
+        {step === AppStep.PRACTICE && chunkProgress.some(p => p.status === 'failed') && (
+          <div className="mb-6">
+            <GenerationProgress
+              progress={chunkProgress}
+              isRunning={isGenerating}
+              onRetry={handleRetryChunks}
+              onSkipFailed={handleSkipFailedChunks}
+            />
+          </div>
+        )}
+
         {step === AppStep.PRACTICE && sentences.length > 0 && (
           <PracticeSession 
             sentences={sentences} 
+            module={activeModule === 'proficiency' ? 'article' : activeModule}
+            pendingLevelCount={pendingLevelCount}
             onComplete={handleComplete} 
             onBackToInput={handleReset}
             enableImages={activeModule === 'vocab'} // Only generate images for Vocab mode
+            onContextChange={setTutorContext}
+            scenario={scenario}
+            initialProgress={resumeProgress}
+            onProgressChange={setSessionProgress}
           />
         )}
 
+        {step === AppStep.REVIEW && (
+          <ReviewSession onExit={() => setStep(AppStep.INPUT)} />
+        )}
+
+        {step === AppStep.STATS && (
+          <StatsPage onExit={() => setStep(AppStep.INPUT)} />
+        )}
+
+        {step === AppStep.LIBRARY && (
+          <CourseLibrary
+            activeCourseId={savedSession?.courseId}
+            onOpen={handleOpenCourse}
+            onCourseChange={handleCourseChange}
+            onCourseDelete={handleCourseDelete}
+            onExit={() => setStep(AppStep.INPUT)}
+          />
+        )}
+
+        {step === AppStep.GRAMMAR && (
+          <GrammarIndex onExit={() => setStep(AppStep.INPUT)} />
+        )}
+
         {step === AppStep.COMPLETED && (
           <div className="max-w-xl mx-auto mt-12 text-center bg-white p-12 rounded-[2.5rem] shadow-xl border border-slate-100 animate-slide-up">
             <div className="w-24 h-24 bg-gradient-to-br from-green-400 to-emerald-500 text-white rounded-3xl flex items-center justify-center mx-auto mb-8 text-4xl shadow-lg transform -rotate-6">
@@ -171,8 +567,32 @@ const App: React.FC = () => {
             <h2 className="text-4xl font-extrabold text-slate-800 mb-4">挑战完成！</h2>
             <p className="text-slate-600 mb-10 text-xl leading-relaxed">
               恭喜您完成了本次学习挑战。<br/>
-              {activeModule === 'article' ? '整篇文章的深度拆解已完成。' : '所有核心词汇已通过例句掌握。'}
+              {activeModule === 'article'
+                ? '整篇文章的深度拆解已完成。'
+                : scenario
+                  ? `「${scenario.title}」的全部对话已完成。`
+                  : '所有核心词汇已通过例句掌握。'}
             </p>
+            {(courseAverage !== null || clozeSummary) && (
+              <div className="mb-10 flex flex-wrap justify-center gap-4">
+                {courseAverage !== null && (
+                  <div className="flex items-center gap-3 bg-emerald-50 border border-emerald-100 rounded-2xl px-6 py-3">
+                    <span className="text-4xl font-extrabold text-emerald-600">{courseAverage}</span>
+                    <span className="text-left text-sm font-bold text-emerald-700 leading-tight">
+                      课程平均分<br/><span className="text-xs font-medium text-emerald-500">按每关最佳成绩计算</span>
+                    </span>
+                  </div>
+                )}
+                {clozeSummary && (
+                  <div className="flex items-center gap-3 bg-sky-50 border border-sky-100 rounded-2xl px-6 py-3">
+                    <span className="text-4xl font-extrabold text-sky-600">{Math.round(clozeSummary.correct / clozeSummary.total * 100)}%</span>
+                    <span className="text-left text-sm font-bold text-sky-700 leading-tight">
+                      填空正确率<br/><span className="text-xs font-medium text-sky-500">{clozeSummary.levels} 关 · 共 {clozeSummary.total} 个空</span>
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
             <button
               onClick={handleReset}
               className="px-12 py-5 bg-gradient-to-r from-green-500 to-emerald-600 text-white font-bold text-lg rounded-2xl hover:shadow-xl hover:shadow-green-200 hover:-translate-y-1 transition-all duration-200"
@@ -184,7 +604,7 @@ const App: React.FC = () => {
       </main>
 
       {/* Floating Chat Assistant */}
-      <ChatAssistant />
+      <ChatAssistant context={step === AppStep.PRACTICE ? tutorContext : null} />
     </div>
   );
 };
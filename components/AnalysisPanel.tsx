@@ -1,12 +1,18 @@
 
-import React from 'react';
+import React, { useState } from 'react';
 import { SentenceData } from '../types';
+import { grammarTagLabel } from '../services/grammarTaxonomy';
 
 interface AnalysisPanelProps {
   sentence: SentenceData;
 }
 
 const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ sentence }) => {
+  // Grammar point whose span is highlighted in the sentence
+  const [activePoint, setActivePoint] = useState<number | null>(null);
+  const activeSpan = activePoint !== null ? sentence.grammarTags[activePoint]?.span : null;
+  const hasSpans = sentence.grammarTags.some(t => t.span);
+
   return (
     <div className="bg-white rounded-[2rem] shadow-sm border border-emerald-50 overflow-hidden font-['Nunito']">
       <div className="bg-emerald-50/30 px-8 py-6 border-b border-emerald-50 flex items-center gap-3">
@@ -26,13 +32,36 @@ const AnalysisPanel: React.FC<AnalysisPanelProps> = ({ sentence }) => {
             <i className="fas fa-project-diagram"></i> 语法结构
           </h4>
           <div className="bg-slate-50/80 rounded-2xl p-6 border border-slate-100">
+            {hasSpans && (
+                <p className="mb-5 pb-5 border-b border-slate-100 text-lg font-bold text-slate-400 leading-relaxed">
+                    {sentence.words.map((word, idx) => (
+                        <React.Fragment key={idx}>
+                            <span className={`rounded px-0.5 transition-colors ${activeSpan && idx >= activeSpan.start && idx <= activeSpan.end ? 'bg-amber-100 text-amber-800' : ''}`}>{word.text}</span>{' '}
+                        </React.Fragment>
+                    ))}
+                </p>
+            )}
             <ul className="space-y-4">
-                {sentence.grammarAnalysis.map((point, idx) => (
-                <li key={idx} className="flex items-start gap-4">
-                    <span className="mt-1.5 w-2 h-2 rounded-full bg-emerald-400 shadow-sm flex-shrink-0"></span>
-                    <span className="text-slate-600 font-medium leading-relaxed">{point}</span>
+                {sentence.grammarAnalysis.map((point, idx) => {
+                const tagging = sentence.grammarTags[idx];
+                return (
+                <li
+                    key={idx}
+                    className={`flex items-start gap-4 ${tagging?.span ? 'cursor-pointer' : ''}`}
+                    onMouseEnter={() => setActivePoint(idx)}
+                    onMouseLeave={() => setActivePoint(null)}
+                    onClick={() => setActivePoint(activePoint === idx ? null : idx)}
+                >
+                    <span className={`mt-1.5 w-2 h-2 rounded-full shadow-sm flex-shrink-0 ${activePoint === idx && tagging?.span ? 'bg-amber-400' : 'bg-emerald-400'}`}></span>
+                    <span className="text-slate-600 font-medium leading-relaxed">
+                        {tagging && (
+                            <span className="mr-2 text-[10px] font-black px-2 py-0.5 rounded-md bg-white text-emerald-500 border border-emerald-100 align-middle">{grammarTagLabel(tagging.tag)}</span>
+                        )}
+                        {point}
+                    </span>
                 </li>
-                ))}
+                );
+                })}
             </ul>
           </div>
         </div>
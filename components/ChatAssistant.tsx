@@ -1,17 +1,42 @@
 
 import React, { useState, useRef, useEffect } from 'react';
-import { sendChatMessage, ChatMessage } from '../services/geminiService';
+import { TutorContext } from '../types';
+import { streamChatMessage, ChatMessage } from '../services/geminiService';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import {
+  TutorContextField, TUTOR_CONTEXT_FIELDS, formatTutorContext, loadSharedFields, saveSharedFields
+} from '../services/tutorContext';
+import ErrorNotice from './ErrorNotice';
 
-const ChatAssistant: React.FC = () => {
+interface ChatAssistantProps {
+  context?: TutorContext | null; // The level currently being practiced, if any
+}
+
+const QUICK_ACTIONS: { label: string; icon: string; prompt: string; needsEvaluation?: boolean }[] = [
+  { label: '讲解这个语法', icon: 'fa-sitemap', prompt: '请详细讲解这句话里用到的语法。' },
+  { label: '再给我 3 个例句', icon: 'fa-list-ol', prompt: '请仿照这句话的结构和重点词汇，再给我 3 个例句，并附上中文翻译。' },
+  { label: '重点词怎么用', icon: 'fa-spell-check', prompt: '这句话里的重点词汇还有哪些常见搭配和用法？' },
+  { label: '我的发音问题', icon: 'fa-microphone-alt', prompt: '根据我刚才的发音评测结果，告诉我具体应该怎么改进。', needsEvaluation: true },
+];
+
+const ChatAssistant: React.FC<ChatAssistantProps> = ({ context = null }) => {
   const [isOpen, setIsOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
     { role: 'model', text: 'Hi there! 👋 我是你的 AI 助教。有什么关于英语学习的问题吗？' }
   ]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  const [isStreaming, setIsStreaming] = useState(false); // First chunk has arrived
+  const [chatError, setChatError] = useState<AIErrorKind | null>(null);
+  const [sharedFields, setSharedFields] = useState<TutorContextField[]>(loadSharedFields);
+  const [showContext, setShowContext] = useState(false);
   
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const inputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Stop any reply still streaming when the assistant unmounts
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Auto-scroll to bottom when messages change
   const scrollToBottom = () => {
@@ -24,41 +49,93 @@ const ChatAssistant: React.FC = () => {
       // Focus input when opened
       setTimeout(() => inputRef.current?.focus(), 100);
     }
-  }, [messages, isOpen]);
+  }, [messages, isOpen, chatError]);
 
-  const handleSendMessage = async (e?: React.FormEvent) => {
-    e?.preventDefault();
-    if (!inputText.trim() || isLoading) return;
+  const contextText = context ? formatTutorContext(context, sharedFields) : '';
+  const quickActions = QUICK_ACTIONS.filter(action =>
+    !action.needsEvaluation || (context?.evaluation && sharedFields.includes('evaluation'))
+  );
 
-    const userMsg = inputText.trim();
-    setInputText('');
-    
-    // Optimistic UI update
-    const newHistory: ChatMessage[] = [
-      ...messages,
-      { role: 'user', text: userMsg }
-    ];
-    setMessages(newHistory);
+  const toggleField = (field: TutorContextField) => {
+    const next = sharedFields.includes(field)
+      ? sharedFields.filter(f => f !== field)
+      : TUTOR_CONTEXT_FIELDS.map(f => f.field).filter(f => f === field || sharedFields.includes(f));
+    setSharedFields(next);
+    saveSharedFields(next);
+  };
+
+  // Replaces the reply being streamed, which is always the last message
+  const updateReply = (text: string, interrupted?: boolean) => {
+    setMessages(prev => [
+      ...prev.slice(0, -1),
+      { role: 'model', text, interrupted }
+    ]);
+  };
+
+  // Asks the model to answer `userMsg`; `history` excludes it
+  const requestReply = async (history: ChatMessage[], userMsg: string) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setIsLoading(true);
+    setChatError(null);
 
-    // Call API
+    let reply = '';
     try {
-      const aiResponseText = await sendChatMessage(messages, userMsg);
-      setMessages(prev => [
-        ...prev,
-        { role: 'model', text: aiResponseText }
-      ]);
+      for await (const delta of streamChatMessage(history, userMsg, { signal: controller.signal, context: contextText })) {
+        if (!reply) {
+          setIsStreaming(true);
+          setMessages(prev => [...prev, { role: 'model', text: '' }]);
+        }
+        reply += delta;
+        updateReply(reply);
+      }
+      if (!reply) {
+        setMessages(prev => [...prev, { role: 'model', text: "Sorry, I couldn't generate a response." }]);
+      }
     } catch (error) {
-      console.error(error);
-      setMessages(prev => [
-        ...prev,
-        { role: 'model', text: 'Sorry, I encountered an error. Please try again.' }
-      ]);
+      const aiError = toAIError(error);
+      // Keep the partial answer so it stays part of the conversation
+      if (reply) updateReply(reply, true);
+      if (aiError.kind !== 'aborted') {
+        console.error(error);
+        setChatError(aiError.kind);
+      }
     } finally {
+      if (abortRef.current === controller) abortRef.current = null;
       setIsLoading(false);
+      setIsStreaming(false);
     }
   };
 
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleRetry = () => {
+    const last = messages[messages.length - 1];
+    if (!last || last.role !== 'user' || isLoading) return;
+    requestReply(messages.slice(0, -1), last.text);
+  };
+
+  const sendMessage = async (userMsg: string) => {
+    // Optimistic UI update
+    const newHistory: ChatMessage[] = [
+      ...messages,
+      { role: 'user', text: userMsg }
+    ];
+    setMessages(newHistory);
+    await requestReply(messages, userMsg);
+  };
+
+  const handleSendMessage = async (e?: React.FormEvent) => {
+    e?.preventDefault();
+    if (!inputText.trim() || isLoading) return;
+
+    const userMsg = inputText.trim();
+    setInputText('');
+    await sendMessage(userMsg);
+  };
+
   return (
     <div className="fixed bottom-6 right-6 z-[100] font-['Nunito'] flex flex-col items-end">
       
@@ -87,6 +164,46 @@ const ChatAssistant: React.FC = () => {
             </button>
           </div>
 
+          {/* Shared Context */}
+          {context && (
+            <div className="bg-emerald-50 border-b border-emerald-100 shrink-0 text-xs">
+              <button
+                onClick={() => setShowContext(!showContext)}
+                className="w-full px-4 py-2 flex items-center justify-between text-emerald-700 font-bold"
+              >
+                <span>
+                  <i className={`fas ${contextText ? 'fa-link' : 'fa-unlink'} mr-2`}></i>
+                  {contextText ? `已共享第 ${context.levelNumber} 关的内容` : '未共享当前关卡'}
+                </span>
+                <i className={`fas fa-chevron-${showContext ? 'up' : 'down'} text-emerald-400`}></i>
+              </button>
+              {showContext && (
+                <div className="px-4 pb-3 animate-fade-in">
+                  <div className="flex flex-wrap gap-1.5 mb-2">
+                    {TUTOR_CONTEXT_FIELDS.map(({ field, label }) => {
+                      const isShared = sharedFields.includes(field);
+                      return (
+                        <button
+                          key={field}
+                          onClick={() => toggleField(field)}
+                          className={`px-2 py-1 rounded-lg font-bold border transition-all
+                            ${isShared
+                              ? 'bg-emerald-500 border-emerald-500 text-white'
+                              : 'bg-white border-slate-200 text-slate-400 hover:border-emerald-200'}`}
+                        >
+                          <i className={`fas ${isShared ? 'fa-check' : 'fa-plus'} mr-1 text-[10px]`}></i>{label}
+                        </button>
+                      );
+                    })}
+                  </div>
+                  <div className="max-h-28 overflow-y-auto custom-scrollbar bg-white rounded-lg border border-emerald-100 p-2 text-[11px] text-slate-500 whitespace-pre-wrap leading-relaxed">
+                    {contextText || '助教看不到你正在练习的内容。'}
+                  </div>
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Messages Area */}
           <div className="flex-1 overflow-y-auto p-4 space-y-4 bg-slate-50 custom-scrollbar">
             {messages.map((msg, idx) => {
@@ -100,12 +217,22 @@ const ChatAssistant: React.FC = () => {
                         : 'bg-white text-slate-700 border border-slate-200 rounded-bl-none'
                       }`}
                   >
-                    <div className="whitespace-pre-wrap">{msg.text}</div>
+                    <div className="whitespace-pre-wrap">
+                      {msg.text}
+                      {isStreaming && idx === messages.length - 1 && (
+                        <span className="inline-block w-1.5 h-3.5 ml-0.5 align-middle bg-emerald-400 animate-pulse"></span>
+                      )}
+                    </div>
+                    {msg.interrupted && (
+                      <div className="mt-1 text-[10px] font-bold text-slate-400">
+                        <i className="fas fa-stop-circle mr-1"></i>已停止生成
+                      </div>
+                    )}
                   </div>
                 </div>
               );
             })}
-            {isLoading && (
+            {isLoading && !isStreaming && (
               <div className="flex justify-start">
                 <div className="bg-white border border-slate-200 rounded-2xl rounded-bl-none p-3 shadow-sm flex gap-1 items-center">
                   <span className="w-1.5 h-1.5 bg-slate-400 rounded-full animate-bounce"></span>
@@ -114,11 +241,34 @@ const ChatAssistant: React.FC = () => {
                 </div>
               </div>
             )}
+            {chatError && !isLoading && (
+              <ErrorNotice
+                kind={chatError}
+                onRetry={messages[messages.length - 1]?.role === 'user' ? handleRetry : undefined}
+                onDismiss={() => setChatError(null)}
+                compact
+              />
+            )}
             <div ref={messagesEndRef} />
           </div>
 
+          {/* Quick Actions */}
+          {contextText && !isLoading && (
+            <div className="px-3 pt-2 bg-white border-t border-slate-100 flex gap-1.5 overflow-x-auto custom-scrollbar shrink-0">
+              {quickActions.map(action => (
+                <button
+                  key={action.label}
+                  onClick={() => sendMessage(action.prompt)}
+                  className="shrink-0 px-2.5 py-1 mb-1 rounded-full bg-slate-100 text-slate-600 text-xs font-bold hover:bg-emerald-100 hover:text-emerald-700 transition-all"
+                >
+                  <i className={`fas ${action.icon} mr-1 text-[10px]`}></i>{action.label}
+                </button>
+              ))}
+            </div>
+          )}
+
           {/* Input Area */}
-          <form onSubmit={handleSendMessage} className="p-3 bg-white border-t border-slate-100 flex gap-2">
+          <form onSubmit={handleSendMessage} className={`p-3 bg-white flex gap-2 ${contextText && !isLoading ? '' : 'border-t border-slate-100'}`}>
             <input
               ref={inputRef}
               type="text"
@@ -127,16 +277,27 @@ const ChatAssistant: React.FC = () => {
               placeholder="Ask anything..."
               className="flex-1 bg-slate-100 border-0 rounded-xl px-4 py-2.5 text-sm focus:ring-2 focus:ring-emerald-100 focus:bg-white transition-all outline-none text-slate-700 placeholder:text-slate-400"
             />
-            <button 
-              type="submit" 
-              disabled={!inputText.trim() || isLoading}
-              className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all shadow-sm
-                ${!inputText.trim() || isLoading 
-                  ? 'bg-slate-100 text-slate-300 cursor-not-allowed' 
-                  : 'bg-emerald-500 text-white hover:bg-emerald-600 hover:shadow-emerald-200'}`}
-            >
-              <i className="fas fa-paper-plane text-xs"></i>
-            </button>
+            {isLoading ? (
+              <button
+                type="button"
+                onClick={handleStop}
+                title="停止生成"
+                className="w-10 h-10 rounded-xl flex items-center justify-center transition-all shadow-sm bg-slate-700 text-white hover:bg-slate-800"
+              >
+                <i className="fas fa-stop text-xs"></i>
+              </button>
+            ) : (
+              <button 
+                type="submit" 
+                disabled={!inputText.trim() || isLoading}
+                className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all shadow-sm
+                  ${!inputText.trim() || isLoading 
+                    ? 'bg-slate-100 text-slate-300 cursor-not-allowed' 
+                    : 'bg-emerald-500 text-white hover:bg-emerald-600 hover:shadow-emerald-200'}`}
+              >
+                <i className="fas fa-paper-plane text-xs"></i>
+              </button>
+            )}
           </form>
         </div>
       )}
@@ -0,0 +1,393 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CheckpointQuestion, CheckpointResult, SentenceData } from '../types';
+import {
+  PASS_MARK_OPTIONS, GRAMMAR_QUESTION_COUNT, buildCheckpointQuestions, gradeCheckpointAnswer, scoreCheckpoint,
+  loadPassMark, savePassMark
+} from '../services/checkpoint';
+import { shuffle } from '../services/shuffle';
+import { generateCheckpointGrammar } from '../services/geminiService';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface CheckpointQuizProps {
+  stageNumber: number; // 1-based, as shown on the challenge map
+  levels: SentenceData[]; // The stage's levels
+  best: CheckpointResult | undefined;
+  isFinalStage: boolean;
+  isAudioBusy: boolean;
+  onPlay: (text: string) => void;
+  onFinish: (result: CheckpointResult) => void; // Records a finished attempt
+  onContinue: () => void; // After a pass: opens the next stage, or ends the course
+  onClose: () => void; // Back to the stage's levels
+}
+
+type Phase = 'intro' | 'loading' | 'quiz' | 'result';
+
+const KIND_LABELS: Record<CheckpointQuestion['kind'], { label: string; icon: string }> = {
+  matching: { label: '词义配对', icon: 'fa-link' },
+  grammar: { label: '语法选择', icon: 'fa-sitemap' },
+  listening: { label: '听力辨句', icon: 'fa-headphones' },
+  wordOrder: { label: '连词成句', icon: 'fa-puzzle-piece' },
+};
+
+// Whether every part of the question has been answered
+const isComplete = (question: CheckpointQuestion, answer: string[]) => {
+  switch (question.kind) {
+    case 'matching': return question.pairs.every((_, i) => !!answer[i]);
+    case 'wordOrder': return answer.length === question.words.length;
+    default: return answer.length === 1;
+  }
+};
+
+const correctAnswerText = (question: CheckpointQuestion) => {
+  switch (question.kind) {
+    case 'matching': return question.pairs.map(p => `${p.word} = ${p.meaning}`).join('；');
+    case 'grammar': return question.answer;
+    case 'listening': return question.text;
+    case 'wordOrder': return question.sentence;
+  }
+};
+
+interface QuestionViewProps {
+  question: CheckpointQuestion;
+  answer: string[];
+  onAnswer: (answer: string[]) => void;
+  checked: boolean;
+  isAudioBusy: boolean;
+  onPlay: (text: string) => void;
+}
+
+const optionClass = (selected: boolean, checked: boolean, correct: boolean) => {
+  if (checked && correct) return 'bg-emerald-50 border-emerald-300 text-emerald-700';
+  if (checked && selected) return 'bg-rose-50 border-rose-300 text-rose-600';
+  if (selected) return 'bg-emerald-500 border-emerald-500 text-white';
+  return 'bg-white border-slate-200 text-slate-600 hover:border-emerald-300';
+};
+
+const QuestionView: React.FC<QuestionViewProps> = ({ question, answer, onAnswer, checked, isAudioBusy, onPlay }) => {
+  const [activePair, setActivePair] = useState(0); // Matching: the word a meaning is picked for
+  // Word order: indexes into question.words, in the order placed
+  const [placed, setPlaced] = useState<number[]>([]);
+  const meanings = useMemo(
+    () => (question.kind === 'matching' ? shuffle(question.pairs.map(p => p.meaning)) : []),
+    [question]
+  ) as string[];
+
+  if (question.kind === 'matching') {
+    const pick = (meaning: string) => {
+      if (checked) return;
+      const next = question.pairs.map((_, i) => (answer[i] === meaning ? '' : answer[i] || ''));
+      next[activePair] = meaning;
+      onAnswer(next);
+      const open = question.pairs.findIndex((_, i) => !next[i]);
+      if (open >= 0) setActivePair(open);
+    };
+    return (
+      <div className="grid grid-cols-2 gap-3">
+        <div className="space-y-2">
+          {question.pairs.map((pair, i) => {
+            const correct = answer[i] === pair.meaning;
+            return (
+              <button
+                key={pair.word}
+                onClick={() => !checked && setActivePair(i)}
+                className={`w-full text-left px-3 py-2 rounded-xl border-2 text-sm transition-all ${checked
+                  ? correct ? 'border-emerald-300 bg-emerald-50' : 'border-rose-300 bg-rose-50'
+                  : activePair === i ? 'border-emerald-400 bg-white' : 'border-slate-100 bg-white hover:border-emerald-200'}`}
+              >
+                <div className="font-bold text-slate-700">{pair.word}</div>
+                <div className={`text-xs ${answer[i] ? 'text-emerald-600' : 'text-slate-300'}`}>{answer[i] || '选择右侧的中文意思'}</div>
+                {checked && !correct && <div className="text-xs font-bold text-emerald-600">{pair.meaning}</div>}
+              </button>
+            );
+          })}
+        </div>
+        <div className="space-y-2">
+          {meanings.map(meaning => (
+            <button
+              key={meaning}
+              onClick={() => pick(meaning)}
+              disabled={checked}
+              className={`w-full text-left px-3 py-2 rounded-xl border text-sm font-bold transition-all ${answer.includes(meaning) ? 'border-slate-100 text-slate-300 bg-slate-50' : 'border-slate-200 text-slate-600 bg-white hover:border-emerald-300'}`}
+            >
+              {meaning}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  if (question.kind === 'wordOrder') {
+    const place = (index: number) => {
+      if (checked) return;
+      const next = [...placed, index];
+      setPlaced(next);
+      onAnswer(next.map(i => question.words[i]));
+    };
+    const unplace = (position: number) => {
+      if (checked) return;
+      const next = placed.filter((_, p) => p !== position);
+      setPlaced(next);
+      onAnswer(next.map(i => question.words[i]));
+    };
+    return (
+      <div>
+        <div className={`min-h-[3.5rem] flex flex-wrap gap-1.5 p-3 mb-3 rounded-2xl border-2 border-dashed ${checked
+          ? gradeCheckpointAnswer(question, answer) === 1 ? 'border-emerald-300 bg-emerald-50' : 'border-rose-300 bg-rose-50'
+          : 'border-slate-200 bg-white'}`}>
+          {placed.map((wordIndex, position) => (
+            <button key={position} onClick={() => unplace(position)} className="px-2.5 py-1 rounded-lg bg-emerald-100 text-emerald-700 font-bold text-sm">
+              {question.words[wordIndex]}
+            </button>
+          ))}
+        </div>
+        <div className="flex flex-wrap gap-1.5">
+          {question.words.map((word, i) => (
+            <button
+              key={i}
+              onClick={() => place(i)}
+              disabled={checked || placed.includes(i)}
+              className="px-2.5 py-1 rounded-lg border border-slate-200 bg-white text-slate-600 font-bold text-sm hover:border-emerald-300 transition-all disabled:opacity-30"
+            >
+              {word}
+            </button>
+          ))}
+        </div>
+      </div>
+    );
+  }
+
+  const options = question.options;
+  const correctOption = question.kind === 'grammar' ? question.answer : question.text;
+  return (
+    <div>
+      {question.kind === 'grammar' ? (
+        <p className="text-lg font-bold text-slate-700 mb-4">{question.question}</p>
+      ) : (
+        <button
+          onClick={() => onPlay(question.text)}
+          disabled={isAudioBusy}
+          className="mb-4 px-4 py-2 rounded-xl text-sm font-bold bg-white border border-emerald-100 text-emerald-500 hover:bg-emerald-50 transition-all disabled:opacity-40"
+        >
+          <i className="fas fa-volume-up mr-2"></i>播放录音，选出你听到的句子
+        </button>
+      )}
+      <div className="space-y-2">
+        {options.map(option => (
+          <button
+            key={option}
+            onClick={() => !checked && onAnswer([option])}
+            disabled={checked}
+            className={`w-full text-left px-4 py-2.5 rounded-xl border-2 text-sm font-bold transition-all ${optionClass(answer[0] === option, checked, option === correctOption)}`}
+          >
+            {option}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const CheckpointQuiz: React.FC<CheckpointQuizProps> = ({ stageNumber, levels, best, isFinalStage, isAudioBusy, onPlay, onFinish, onContinue, onClose }) => {
+  const [phase, setPhase] = useState<Phase>('intro');
+  const [passMark, setPassMark] = useState(loadPassMark);
+  const [questions, setQuestions] = useState<CheckpointQuestion[]>([]);
+  const [localQuestions, setLocalQuestions] = useState<CheckpointQuestion[]>([]);
+  const [grammarError, setGrammarError] = useState<AIErrorKind | null>(null);
+  const [index, setIndex] = useState(0);
+  const [answer, setAnswer] = useState<string[]>([]);
+  const [checked, setChecked] = useState(false);
+  const [credits, setCredits] = useState<number[]>([]);
+  const [result, setResult] = useState<CheckpointResult | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const changePassMark = (mark: number) => {
+    setPassMark(mark);
+    savePassMark(mark);
+  };
+
+  const begin = (list: CheckpointQuestion[]) => {
+    setQuestions(shuffle(list));
+    setIndex(0);
+    setAnswer([]);
+    setChecked(false);
+    setCredits([]);
+    setResult(null);
+    setPhase('quiz');
+  };
+
+  const loadGrammar = async (local: CheckpointQuestion[]) => {
+    setGrammarError(null);
+    setPhase('loading');
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const grammar = await generateCheckpointGrammar(levels, GRAMMAR_QUESTION_COUNT, { signal: controller.signal });
+      begin([...local, ...grammar]);
+    } catch (err) {
+      const kind = toAIError(err).kind;
+      if (kind !== 'aborted') setGrammarError(kind);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const start = () => {
+    const local = buildCheckpointQuestions(levels);
+    setLocalQuestions(local);
+    loadGrammar(local);
+  };
+
+  const question = questions[index];
+
+  const check = () => {
+    if (!question || !isComplete(question, answer)) return;
+    setCredits(prev => [...prev, gradeCheckpointAnswer(question, answer)]);
+    setChecked(true);
+  };
+
+  const next = () => {
+    if (index + 1 < questions.length) {
+      setIndex(index + 1);
+      setAnswer([]);
+      setChecked(false);
+      return;
+    }
+    const finished = scoreCheckpoint(credits, passMark);
+    setResult(finished);
+    setPhase('result');
+    onFinish(finished);
+  };
+
+  return (
+    <div className="bg-white rounded-[2.5rem] shadow-xl shadow-emerald-50/50 border border-emerald-50 p-8 md:p-12 text-center animate-fade-in">
+      <div className="text-[10px] font-black text-emerald-400 uppercase tracking-widest mb-1">Stage {stageNumber} Checkpoint</div>
+      <h2 className="text-2xl font-extrabold text-slate-800 mb-6">第 {stageNumber} 阶段测验</h2>
+
+      {phase === 'intro' && (
+        <div className="max-w-md mx-auto">
+          <p className="text-slate-500 mb-4">综合检验这一阶段 {levels.length} 关的内容，达到及格线后{isFinalStage ? '即可完成课程' : '才能进入下一阶段'}。</p>
+          <div className="flex flex-wrap justify-center gap-2 mb-6 text-xs font-bold text-slate-500">
+            {Object.values(KIND_LABELS).map(({ label, icon }) => (
+              <span key={label} className="px-3 py-1 rounded-full bg-slate-50 border border-slate-100"><i className={`fas ${icon} mr-1.5 text-emerald-400`}></i>{label}</span>
+            ))}
+          </div>
+          <div className="flex items-center justify-center gap-1 mb-6 text-xs font-bold">
+            <span className="text-slate-400 mr-2">及格线</span>
+            {PASS_MARK_OPTIONS.map(mark => (
+              <button
+                key={mark}
+                onClick={() => changePassMark(mark)}
+                className={`px-2.5 py-1 rounded-full transition-all ${passMark === mark ? 'bg-emerald-100 text-emerald-700' : 'text-slate-400 hover:text-emerald-500'}`}
+              >
+                {mark}
+              </button>
+            ))}
+          </div>
+          {best && (
+            <p className="text-sm text-slate-400 mb-6">
+              最佳成绩 <span className="font-bold text-slate-600">{best.score}</span>
+              {best.passed && <span className="ml-2 text-emerald-500 font-bold"><i className="fas fa-check-circle mr-1"></i>已通过</span>}
+            </p>
+          )}
+          <div className="flex justify-center gap-3">
+            <button onClick={onClose} className="px-6 py-3 rounded-2xl font-bold text-slate-500 bg-slate-50 hover:bg-slate-100 transition-all">
+              回去复习
+            </button>
+            <button onClick={start} className="px-8 py-3 rounded-2xl font-bold text-white bg-gradient-to-r from-emerald-400 to-emerald-500 hover:shadow-lg hover:shadow-emerald-100 transition-all">
+              <i className="fas fa-flag-checkered mr-2"></i>开始测验
+            </button>
+          </div>
+        </div>
+      )}
+
+      {phase === 'loading' && (
+        <div className="max-w-md mx-auto">
+          {grammarError ? (
+            <>
+              <ErrorNotice kind={grammarError} onRetry={() => loadGrammar(localQuestions)} />
+              {localQuestions.length > 0 && (
+                <button onClick={() => begin(localQuestions)} className="mt-4 text-sm font-bold text-slate-400 hover:text-emerald-500 transition-colors">
+                  跳过语法题，先做其他题型
+                </button>
+              )}
+            </>
+          ) : (
+            <div className="font-bold text-emerald-500 animate-pulse"><i className="fas fa-spinner fa-spin mr-2"></i>正在出题...</div>
+          )}
+        </div>
+      )}
+
+      {phase === 'quiz' && question && (
+        <div className="max-w-xl mx-auto text-left">
+          <div className="flex justify-between items-center mb-4 text-xs font-bold">
+            <span className="text-emerald-500"><i className={`fas ${KIND_LABELS[question.kind].icon} mr-1.5`}></i>{KIND_LABELS[question.kind].label}</span>
+            <span className="text-slate-300">{index + 1} / {questions.length}</span>
+          </div>
+          <QuestionView
+            key={index}
+            question={question}
+            answer={answer}
+            onAnswer={setAnswer}
+            checked={checked}
+            isAudioBusy={isAudioBusy}
+            onPlay={onPlay}
+          />
+          {checked && (
+            <div className={`mt-4 text-sm rounded-xl px-4 py-3 ${credits[index] === 1 ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+              <div className="font-bold">{credits[index] === 1 ? '回答正确！' : `正确答案：${correctAnswerText(question)}`}</div>
+              {question.kind === 'grammar' && question.explanation && <div className="mt-1 text-xs">{question.explanation}</div>}
+            </div>
+          )}
+          <div className="flex justify-end mt-6">
+            {checked ? (
+              <button onClick={next} className="px-6 py-2.5 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-sky-400 to-blue-500 hover:shadow-lg transition-all">
+                {index + 1 < questions.length ? '下一题' : '查看结果'}<i className="fas fa-arrow-right ml-2"></i>
+              </button>
+            ) : (
+              <button
+                onClick={check}
+                disabled={!isComplete(question, answer)}
+                className="px-6 py-2.5 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-emerald-400 to-emerald-500 hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+              >
+                <i className="fas fa-check mr-2"></i>检查
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {phase === 'result' && result && (
+        <div className="max-w-md mx-auto">
+          <div className={`text-6xl font-extrabold mb-2 ${result.passed ? 'text-emerald-500' : 'text-rose-400'}`}>{result.score}</div>
+          <p className="text-slate-500 mb-8">
+            {result.passed
+              ? `达到及格线 ${passMark} 分，${isFinalStage ? '可以完成课程了！' : '下一阶段已解锁！'}`
+              : `及格线是 ${passMark} 分，复习一下这一阶段的内容再来挑战吧。`}
+          </p>
+          <div className="flex justify-center gap-3">
+            {result.passed ? (
+              <button onClick={onContinue} className="px-8 py-3 rounded-2xl font-bold text-white bg-gradient-to-r from-emerald-400 to-emerald-500 hover:shadow-lg hover:shadow-emerald-100 transition-all">
+                {isFinalStage ? '完成课程' : `进入第 ${stageNumber + 1} 阶段`}<i className="fas fa-arrow-right ml-2"></i>
+              </button>
+            ) : (
+              <>
+                <button onClick={onClose} className="px-6 py-3 rounded-2xl font-bold text-slate-500 bg-slate-50 hover:bg-slate-100 transition-all">
+                  回去复习
+                </button>
+                <button onClick={start} className="px-8 py-3 rounded-2xl font-bold text-white bg-gradient-to-r from-emerald-400 to-emerald-500 hover:shadow-lg hover:shadow-emerald-100 transition-all">
+                  <i className="fas fa-redo-alt mr-2"></i>再测一次
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CheckpointQuiz;
@@ -0,0 +1,201 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { ClozeItem, EvaluationResult, SentenceData } from '../types';
+import { buildClozeItems, isClozeAnswerCorrect } from '../services/cloze';
+import { shuffle } from '../services/shuffle';
+import { generateClozeDistractors } from '../services/geminiService';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface ClozeExerciseProps {
+  sentence: SentenceData;
+  graded: EvaluationResult | null; // The cloze attempt on screen, once submitted
+  onSubmit: (items: ClozeItem[], answers: string[]) => void;
+  onRetry: () => void; // Clears the graded attempt for another try
+}
+
+type AnswerMode = 'type' | 'choice';
+
+const ClozeExercise: React.FC<ClozeExerciseProps> = ({ sentence, graded, onSubmit, onRetry }) => {
+  const items = useMemo(() => buildClozeItems(sentence), [sentence]) as ClozeItem[];
+  const [answers, setAnswers] = useState<string[]>([]);
+  const [answerMode, setAnswerMode] = useState<AnswerMode>('type');
+  // Shuffled options per blank; a blank with fewer than two options is typed instead
+  const [choices, setChoices] = useState<string[][] | null>(null);
+  const [loadingChoices, setLoadingChoices] = useState(false);
+  const [error, setError] = useState<AIErrorKind | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    setChoices(null);
+    setLoadingChoices(false);
+    setError(null);
+  }, [sentence]);
+
+  useEffect(() => {
+    if (!graded) setAnswers(items.map(() => ''));
+  }, [graded, items]);
+
+  const loadChoices = async () => {
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoadingChoices(true);
+    try {
+      const distractors = await generateClozeDistractors(sentence.english, items, { signal: controller.signal });
+      setChoices(items.map((item, i) => shuffle([item.answer, ...(distractors[i] || [])])));
+    } catch (err) {
+      const kind = toAIError(err).kind;
+      if (kind !== 'aborted') setError(kind);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoadingChoices(false);
+      }
+    }
+  };
+
+  const switchAnswerMode = (mode: AnswerMode) => {
+    setAnswerMode(mode);
+    if (mode === 'choice' && !choices && !loadingChoices) loadChoices();
+  };
+
+  const setAnswer = (index: number, value: string) =>
+    setAnswers(prev => prev.map((a, i) => (i === index ? value : a)));
+
+  const optionsFor = (index: number) => {
+    const options = answerMode === 'choice' ? choices?.[index] : undefined;
+    return options && options.length >= 2 ? options : null;
+  };
+
+  const submit = () => {
+    if (answers.some(a => a.trim())) onSubmit(items, answers);
+  };
+
+  if (items.length === 0) {
+    return (
+      <div className="mb-8 max-w-lg mx-auto text-sm text-slate-400 bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4">
+        <i className="fas fa-info-circle mr-2"></i>这一关的句子没有可以挖空的词，换个模式练习吧。
+      </div>
+    );
+  }
+
+  if (graded) {
+    return (
+      <div className="mb-8 max-w-lg mx-auto text-left bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 animate-fade-in">
+        <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">你的答案</div>
+        <ul className="space-y-1 mb-3">
+          {items.map((item, i) => {
+            const answer = (answers[i] || '').trim();
+            const correct = isClozeAnswerCorrect(item, answer);
+            return (
+              <li key={item.start} className="flex items-baseline gap-2 text-sm">
+                <i className={`fas ${correct ? 'fa-check text-emerald-500' : 'fa-times text-red-400'} w-4`}></i>
+                <span className={`font-bold ${correct ? 'text-slate-700' : 'text-red-500 line-through'}`}>{answer || '（未填）'}</span>
+                {!correct && <span className="font-bold text-emerald-600">{item.answer}</span>}
+                {item.meaning && <span className="text-slate-400 text-xs">{item.meaning}</span>}
+              </li>
+            );
+          })}
+        </ul>
+        <button onClick={onRetry} className="text-sm font-bold text-emerald-500 hover:text-emerald-600 transition-colors">
+          <i className="fas fa-redo-alt mr-2"></i>再做一次
+        </button>
+      </div>
+    );
+  }
+
+  const words = sentence.words?.length ? sentence.words.map(w => w.text) : sentence.english.split(' ');
+  const blankAt = (index: number) => items.findIndex(item => index >= item.start && index <= item.end);
+
+  return (
+    <div className="mb-8 max-w-2xl mx-auto text-left bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 animate-fade-in">
+      <div className="flex justify-between items-center mb-3">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">根据中文提示填空</span>
+        <div className="flex bg-white rounded-full p-0.5 border border-slate-100 text-xs font-bold">
+          {(['type', 'choice'] as AnswerMode[]).map(mode => (
+            <button
+              key={mode}
+              onClick={() => switchAnswerMode(mode)}
+              className={`px-3 py-1 rounded-full transition-all ${answerMode === mode ? 'bg-emerald-500 text-white' : 'text-slate-400 hover:text-emerald-500'}`}
+            >
+              {mode === 'type' ? '输入' : '选择'}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-lg text-slate-700 leading-loose mb-2">
+        {words.map((word, index) => {
+          const blank = blankAt(index);
+          if (blank < 0) return <React.Fragment key={index}>{word} </React.Fragment>;
+          if (index !== items[blank].start) return null;
+          const options = optionsFor(blank);
+          return (
+            <React.Fragment key={index}>
+              {options ? (
+                <span className={`inline-block min-w-[4rem] px-2 mx-0.5 border-b-2 text-center font-bold ${answers[blank] ? 'border-emerald-400 text-emerald-600' : 'border-slate-300 text-slate-300'}`}>
+                  {answers[blank] || blank + 1}
+                </span>
+              ) : (
+                <input
+                  value={answers[blank] || ''}
+                  onChange={e => setAnswer(blank, e.target.value)}
+                  onKeyDown={e => { if (e.key === 'Enter') submit(); }}
+                  placeholder={String(blank + 1)}
+                  size={Math.max(4, items[blank].answer.length)}
+                  className="mx-0.5 px-1 border-b-2 border-slate-300 focus:border-emerald-400 bg-transparent focus:outline-none text-center font-bold text-emerald-600"
+                  spellCheck={false}
+                  autoCapitalize="off"
+                  autoCorrect="off"
+                />
+              )}{' '}
+            </React.Fragment>
+          );
+        })}
+      </p>
+      <p className="text-sm text-slate-400 mb-4">提示：{sentence.chinese}</p>
+
+      {answerMode === 'choice' && (
+        <div className="space-y-2 mb-4">
+          {loadingChoices && <div className="text-xs font-bold text-slate-400"><i className="fas fa-circle-notch fa-spin mr-2"></i>正在生成选项…</div>}
+          {error && <ErrorNotice kind={error} compact onRetry={loadChoices} onDismiss={() => setError(null)} />}
+          {items.map((item, i) => {
+            const options = optionsFor(i);
+            if (!options) return null;
+            return (
+              <div key={item.start} className="flex flex-wrap items-center gap-1.5">
+                <span className="text-xs font-black text-slate-300 w-4">{i + 1}</span>
+                {options.map(option => (
+                  <button
+                    key={option}
+                    onClick={() => setAnswer(i, option)}
+                    className={`px-3 py-1 rounded-full text-sm font-bold border transition-all ${answers[i] === option
+                      ? 'bg-emerald-500 border-emerald-500 text-white'
+                      : 'bg-white border-slate-200 text-slate-500 hover:border-emerald-300'}`}
+                  >
+                    {option}
+                  </button>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <div className="flex justify-end">
+        <button
+          onClick={submit}
+          disabled={!answers.some(a => a.trim())}
+          className="px-5 py-2 rounded-xl text-sm font-bold bg-gradient-to-r from-emerald-400 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+        >
+          <i className="fas fa-check mr-2"></i>提交
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ClozeExercise;
@@ -0,0 +1,142 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { SavedSession } from '../types';
+import {
+  toAnkiDeck, toCsv, toMarkdown, toWorksheetHtml, collectAudioTexts, audioFileName, exportFileName
+} from '../services/courseExport';
+import { getCachedSpeech } from '../services/mediaCache';
+import { encodeWav } from '../services/audio';
+import { createZip, ZipEntry } from '../services/zipArchive';
+import { serializeCourse, COURSE_FILE_EXTENSION } from '../services/courseFile';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface CourseExportPanelProps {
+  course: SavedSession;
+}
+
+const download = (name: string, content: string | Uint8Array, type: string) => {
+  const url = URL.createObjectURL(new Blob([content as BlobPart], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+const CourseExportPanel: React.FC<CourseExportPanelProps> = ({ course }) => {
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [hideTranslation, setHideTranslation] = useState(false);
+  const [audioProgress, setAudioProgress] = useState<{ done: number; total: number } | null>(null);
+  const [error, setError] = useState<AIErrorKind | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const exportAnki = async () => {
+    setError(null);
+    if (!includeAudio) {
+      download(exportFileName(course.title, 'txt'), toAnkiDeck(course), 'text/plain;charset=utf-8');
+      return;
+    }
+
+    // Audio cards ship as a zip: the deck plus WAV files for Anki's collection.media folder
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const texts = collectAudioTexts(course.sentences);
+    const files: Record<string, string> = {};
+    const entries: ZipEntry[] = [];
+    setAudioProgress({ done: 0, total: texts.length });
+    try {
+      for (const text of texts) {
+        const bytes = await getCachedSpeech(text, { signal: controller.signal });
+        if (bytes) {
+          files[text] = audioFileName(text);
+          entries.push({ name: `media/${files[text]}`, data: encodeWav(bytes) });
+        }
+        setAudioProgress(prev => prev && { ...prev, done: prev.done + 1 });
+      }
+      const deck = new TextEncoder().encode(toAnkiDeck(course, files));
+      download(exportFileName(course.title, 'zip'), createZip([{ name: exportFileName(course.title, 'txt'), data: deck }, ...entries]), 'application/zip');
+    } catch (err) {
+      const kind = toAIError(err).kind;
+      if (kind !== 'aborted') setError(kind);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setAudioProgress(null);
+      }
+    }
+  };
+
+  const printWorksheet = () => {
+    const url = URL.createObjectURL(new Blob([toWorksheetHtml(course, { hideTranslation })], { type: 'text/html;charset=utf-8' }));
+    const printWindow = window.open(url, '_blank');
+    if (printWindow) printWindow.addEventListener('load', () => printWindow.print());
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+  };
+
+  const buttonStyle = 'px-4 py-2 rounded-xl text-sm font-bold bg-white border border-slate-200 text-slate-600 hover:border-indigo-200 hover:text-indigo-500 transition-all disabled:opacity-40';
+
+  return (
+    <div className="mt-4 pt-4 border-t border-slate-100 animate-fade-in">
+      <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">导出课程</div>
+      <div className="grid sm:grid-cols-2 gap-3">
+        <div className="bg-slate-50 rounded-2xl p-4">
+          <div className="font-bold text-slate-700 text-sm mb-1"><i className="fas fa-clone mr-2 text-indigo-400"></i>Anki 卡组</div>
+          <p className="text-xs text-slate-400 mb-3">每个重点词汇一张卡片：音标、释义、用法和原句。</p>
+          <label className="flex items-center gap-2 text-xs text-slate-500 mb-3 cursor-pointer">
+            <input type="checkbox" checked={includeAudio} onChange={e => setIncludeAudio(e.target.checked)} />
+            包含发音音频（打包为 zip，将 media 文件夹内容复制到 Anki 的 collection.media）
+          </label>
+          <button onClick={exportAnki} disabled={!!audioProgress} className={buttonStyle}>
+            {audioProgress
+              ? <><i className="fas fa-spinner fa-spin mr-2"></i>生成音频 {audioProgress.done}/{audioProgress.total}</>
+              : <><i className="fas fa-download mr-2"></i>导出 Anki</>}
+          </button>
+        </div>
+
+        <div className="bg-slate-50 rounded-2xl p-4">
+          <div className="font-bold text-slate-700 text-sm mb-1"><i className="fas fa-print mr-2 text-indigo-400"></i>双语练习纸</div>
+          <p className="text-xs text-slate-400 mb-3">适合 A4 打印的中英对照练习纸，附重点词汇。</p>
+          <label className="flex items-center gap-2 text-xs text-slate-500 mb-3 cursor-pointer">
+            <input type="checkbox" checked={hideTranslation} onChange={e => setHideTranslation(e.target.checked)} />
+            隐藏译文（留出书写横线，答案附在最后一页）
+          </label>
+          <button onClick={printWorksheet} className={buttonStyle}>
+            <i className="fas fa-print mr-2"></i>打印
+          </button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mt-3">
+        <button
+          onClick={() => download(exportFileName(course.title, COURSE_FILE_EXTENSION), serializeCourse(course), 'application/json')}
+          className={buttonStyle}
+          title="分享给老师或同学，对方可在输入页导入，无需重新生成"
+        >
+          <i className="fas fa-share-alt mr-2"></i>课程文件
+        </button>
+        <button
+          onClick={() => download(exportFileName(course.title, 'csv'), toCsv(course), 'text/csv;charset=utf-8')}
+          className={buttonStyle}
+        >
+          <i className="fas fa-file-csv mr-2"></i>CSV 表格
+        </button>
+        <button
+          onClick={() => download(exportFileName(course.title, 'md'), toMarkdown(course), 'text/markdown;charset=utf-8')}
+          className={buttonStyle}
+        >
+          <i className="fab fa-markdown mr-2"></i>Markdown 学习笔记
+        </button>
+      </div>
+
+      {error && (
+        <div className="mt-3">
+          <ErrorNotice kind={error} compact onRetry={exportAnki} onDismiss={() => setError(null)} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CourseExportPanel;
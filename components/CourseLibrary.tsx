@@ -0,0 +1,259 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CourseModule, SavedSession } from '../types';
+import {
+  listCourses, deleteCourse, renameCourse, duplicateCourse, replaceCourseLevel, getCourseCompletion
+} from '../services/courseLibrary';
+import { regenerateSentence } from '../services/geminiService';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import ErrorNotice from './ErrorNotice';
+import CourseExportPanel from './CourseExportPanel';
+
+interface CourseLibraryProps {
+  activeCourseId?: string; // The course offered on the resume card
+  onOpen: (course: SavedSession) => void;
+  onCourseChange: (course: SavedSession) => void;
+  onCourseDelete: (courseId: string) => void;
+  onExit: () => void;
+}
+
+const MODULE_INFO: Record<CourseModule, { label: string; icon: string; style: string }> = {
+  article: { label: '文章', icon: 'fa-book-open', style: 'bg-green-50 text-green-600' },
+  vocab: { label: '单词', icon: 'fa-tags', style: 'bg-amber-50 text-amber-600' },
+  scenario: { label: '场景', icon: 'fa-briefcase', style: 'bg-sky-50 text-sky-600' },
+};
+
+const CourseLibrary: React.FC<CourseLibraryProps> = ({ activeCourseId, onOpen, onCourseChange, onCourseDelete, onExit }) => {
+  const [courses, setCourses] = useState<SavedSession[] | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<{ courseId: string; title: string } | null>(null);
+  const [regenerating, setRegenerating] = useState<{ courseId: string; index: number } | null>(null);
+  const [regenerateError, setRegenerateError] = useState<{ courseId: string; index: number; kind: AIErrorKind } | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCourses().then(list => {
+      if (!cancelled) setCourses(list);
+    });
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const applyUpdate = (updated: SavedSession | null) => {
+    if (!updated) return;
+    setCourses(prev => prev?.map(course => (course.courseId === updated.courseId ? updated : course)) ?? null);
+    onCourseChange(updated);
+  };
+
+  const handleRename = async () => {
+    if (!editing) return;
+    const { courseId, title } = editing;
+    setEditing(null);
+    if (title.trim()) applyUpdate(await renameCourse(courseId, title));
+  };
+
+  const handleDuplicate = async (courseId: string) => {
+    const copy = await duplicateCourse(courseId);
+    if (copy) setCourses(prev => [copy, ...(prev ?? [])]);
+  };
+
+  const handleDelete = async (course: SavedSession) => {
+    if (!confirm(`确定要删除「${course.title}」吗？课程内容和练习进度将无法恢复。`)) return;
+    await deleteCourse(course.courseId);
+    setCourses(prev => prev?.filter(c => c.courseId !== course.courseId) ?? null);
+    onCourseDelete(course.courseId);
+  };
+
+  const handleRegenerate = async (course: SavedSession, index: number) => {
+    if (regenerating) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRegenerating({ courseId: course.courseId, index });
+    setRegenerateError(null);
+    try {
+      const level = await regenerateSentence(course.sentences[index].english, { signal: controller.signal });
+      applyUpdate(await replaceCourseLevel(course.courseId, index, level));
+    } catch (error) {
+      const kind = toAIError(error).kind;
+      if (kind !== 'aborted') setRegenerateError({ courseId: course.courseId, index, kind });
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setRegenerating(null);
+      }
+    }
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 font-['Nunito'] animate-fade-in">
+      <div className="mb-6 flex justify-between items-center bg-white px-6 py-4 rounded-[2rem] shadow-sm border border-slate-100">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400 flex items-center bg-slate-50 px-3 py-1 rounded-full">
+          <i className="fas fa-layer-group mr-2 text-indigo-400"></i>我的课程
+        </span>
+        <span className="text-sm font-black text-indigo-500">
+          {courses ? `共 ${courses.length} 门课程` : '加载中…'}
+        </span>
+      </div>
+
+      {courses && courses.length === 0 && (
+        <div className="text-center bg-white p-12 rounded-[2.5rem] shadow-sm border border-slate-100">
+          <div className="w-20 h-20 bg-indigo-50 text-indigo-300 rounded-3xl flex items-center justify-center mx-auto mb-6 text-3xl">
+            <i className="fas fa-folder-open"></i>
+          </div>
+          <p className="text-slate-500 mb-8">还没有课程。生成的每一门课程都会自动保存在这里。</p>
+          <button
+            onClick={onExit}
+            className="px-10 py-4 rounded-2xl font-bold text-white bg-gradient-to-r from-green-500 to-emerald-500 hover:shadow-lg hover:shadow-green-200 transition-all"
+          >
+            <i className="fas fa-plus mr-2"></i>创建课程
+          </button>
+        </div>
+      )}
+
+      <div className="space-y-4">
+        {courses?.map(course => {
+          const info = MODULE_INFO[course.module];
+          const completion = getCourseCompletion(course);
+          const isExpanded = expandedId === course.courseId;
+          const isExporting = exportingId === course.courseId;
+          const isEditing = editing?.courseId === course.courseId;
+
+          return (
+            <div key={course.courseId} className="bg-white rounded-[2rem] shadow-sm border border-slate-100 p-5">
+              <div className="flex flex-col sm:flex-row sm:items-center gap-4">
+                <div className={`w-12 h-12 rounded-2xl flex items-center justify-center text-xl shrink-0 ${info.style}`}>
+                  <i className={`fas ${info.icon}`}></i>
+                </div>
+
+                <div className="flex-1 min-w-0">
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={editing.title}
+                      onChange={e => setEditing({ courseId: course.courseId, title: e.target.value })}
+                      onBlur={handleRename}
+                      onKeyDown={e => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      className="w-full font-bold text-slate-800 border-b-2 border-indigo-200 focus:border-indigo-400 outline-none py-0.5"
+                    />
+                  ) : (
+                    <div className="font-bold text-slate-800 truncate">
+                      {course.title}
+                      {course.courseId === activeCourseId && (
+                        <span className="ml-2 text-[10px] font-black uppercase tracking-wider text-emerald-500 bg-emerald-50 px-2 py-0.5 rounded">进行中</span>
+                      )}
+                    </div>
+                  )}
+                  <div className="text-xs text-slate-400 truncate mt-1">{course.sourceText}</div>
+                  <div className="text-xs text-slate-400 mt-2 flex flex-wrap items-center gap-x-3 gap-y-1">
+                    <span className={`px-2 py-0.5 rounded font-bold ${info.style}`}>{info.label}</span>
+                    <span>{course.sentences.length} 关</span>
+                    <span className="flex items-center gap-2">
+                      <span className="w-16 h-1.5 bg-slate-100 rounded-full overflow-hidden inline-block">
+                        <span className="block h-full bg-emerald-400 rounded-full" style={{ width: `${completion}%` }}></span>
+                      </span>
+                      已完成 {completion}%
+                    </span>
+                    <span>最近学习 {new Date(course.savedAt).toLocaleDateString()}</span>
+                    {course.isPartial && <span className="text-amber-500">课程未生成完整</span>}
+                  </div>
+                </div>
+
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => setEditing({ courseId: course.courseId, title: course.title })}
+                    className="w-10 h-10 rounded-xl text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 transition-all"
+                    title="重命名"
+                  >
+                    <i className="fas fa-pen"></i>
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(course.courseId)}
+                    className="w-10 h-10 rounded-xl text-slate-400 hover:text-indigo-500 hover:bg-indigo-50 transition-all"
+                    title="复制课程（从头开始练习）"
+                  >
+                    <i className="fas fa-copy"></i>
+                  </button>
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : course.courseId)}
+                    className={`w-10 h-10 rounded-xl transition-all ${isExpanded ? 'text-indigo-500 bg-indigo-50' : 'text-slate-400 hover:text-indigo-500 hover:bg-indigo-50'}`}
+                    title="管理关卡"
+                  >
+                    <i className="fas fa-list-ol"></i>
+                  </button>
+                  <button
+                    onClick={() => setExportingId(isExporting ? null : course.courseId)}
+                    className={`w-10 h-10 rounded-xl transition-all ${isExporting ? 'text-indigo-500 bg-indigo-50' : 'text-slate-400 hover:text-indigo-500 hover:bg-indigo-50'}`}
+                    title="导出（Anki、CSV、Markdown、打印）"
+                  >
+                    <i className="fas fa-file-export"></i>
+                  </button>
+                  <button
+                    onClick={() => handleDelete(course)}
+                    className="w-10 h-10 rounded-xl text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all"
+                    title="删除课程"
+                  >
+                    <i className="fas fa-trash-alt"></i>
+                  </button>
+                  <button
+                    onClick={() => onOpen(course)}
+                    className="ml-1 px-5 h-10 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-green-500 to-emerald-500 hover:shadow-lg hover:shadow-green-200 transition-all"
+                  >
+                    {completion === 100 ? '打开课程' : '继续学习'}
+                  </button>
+                </div>
+              </div>
+
+              {isExporting && <CourseExportPanel course={course} />}
+
+              {isExpanded && (
+                <div className="mt-4 pt-4 border-t border-slate-100 space-y-2 animate-fade-in">
+                  {course.sentences.map((sentence, index) => {
+                    const isBusy = regenerating?.courseId === course.courseId && regenerating.index === index;
+                    const error = regenerateError?.courseId === course.courseId && regenerateError.index === index ? regenerateError : null;
+                    return (
+                      <div key={sentence.id}>
+                        <div className="flex items-center gap-3 px-3 py-2 rounded-xl hover:bg-slate-50">
+                          <span className={`w-7 h-7 rounded-lg flex items-center justify-center text-xs font-black shrink-0
+                            ${course.progress.history[index] ? 'bg-emerald-100 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
+                            {index + 1}
+                          </span>
+                          <span className="flex-1 min-w-0 text-sm text-slate-600 truncate">{sentence.english}</span>
+                          <button
+                            onClick={() => handleRegenerate(course, index)}
+                            disabled={!!regenerating}
+                            className="px-3 py-1.5 rounded-lg text-xs font-bold text-indigo-500 hover:bg-indigo-50 transition-all disabled:opacity-40 shrink-0"
+                            title="重新生成这一关的翻译和讲解"
+                          >
+                            <i className={`fas fa-sync-alt mr-1 ${isBusy ? 'fa-spin' : ''}`}></i>{isBusy ? '生成中' : '重新生成'}
+                          </button>
+                        </div>
+                        {error && (
+                          <div className="px-3 pb-2">
+                            <ErrorNotice
+                              kind={error.kind}
+                              compact
+                              onRetry={() => handleRegenerate(course, index)}
+                              onDismiss={() => setRegenerateError(null)}
+                            />
+                          </div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default CourseLibrary;
@@ -0,0 +1,89 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EvaluationResult } from '../types';
+
+interface DictationInputProps {
+  graded: EvaluationResult | null; // The dictation attempt on screen, once submitted
+  isAudioBusy: boolean;
+  onPlay: (rate?: number) => void; // Without a rate, plays at the session's speed
+  onSubmit: (answer: string) => void;
+  onRetry: () => void; // Clears the graded attempt for another try
+}
+
+const SLOW_RATE = 0.6;
+
+const DictationInput: React.FC<DictationInputProps> = ({ graded, isAudioBusy, onPlay, onSubmit, onRetry }) => {
+  const [answer, setAnswer] = useState('');
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!graded) {
+      setAnswer('');
+      inputRef.current?.focus();
+    }
+  }, [graded]);
+
+  const submit = () => {
+    if (answer.trim()) onSubmit(answer);
+  };
+
+  if (graded) {
+    return (
+      <div className="mb-8 max-w-lg mx-auto text-left bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 animate-fade-in">
+        <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-1">你的听写</div>
+        <p className="text-slate-600 font-medium mb-3 break-words">{graded.transcript}</p>
+        <button onClick={onRetry} className="text-sm font-bold text-emerald-500 hover:text-emerald-600 transition-colors">
+          <i className="fas fa-redo-alt mr-2"></i>再听写一次
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8 max-w-lg mx-auto animate-fade-in">
+      <textarea
+        ref={inputRef}
+        value={answer}
+        onChange={e => setAnswer(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        rows={2}
+        placeholder="听录音，输入你听到的句子…"
+        className="w-full px-4 py-3 rounded-2xl border-2 border-emerald-100 focus:border-emerald-300 focus:outline-none text-lg text-slate-700 resize-none"
+        spellCheck={false}
+        autoCapitalize="off"
+        autoCorrect="off"
+      />
+      <div className="flex justify-between items-center mt-3">
+        <div className="flex gap-2">
+          <button
+            onClick={() => onPlay()}
+            disabled={isAudioBusy}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-white border border-emerald-100 text-emerald-500 hover:bg-emerald-50 transition-all disabled:opacity-40"
+          >
+            <i className="fas fa-volume-up mr-2"></i>播放
+          </button>
+          <button
+            onClick={() => onPlay(SLOW_RATE)}
+            disabled={isAudioBusy}
+            className="px-3 py-2 rounded-xl text-sm font-bold bg-white border border-emerald-100 text-emerald-500 hover:bg-emerald-50 transition-all disabled:opacity-40"
+          >
+            <i className="fas fa-shoe-prints mr-2"></i>慢速
+          </button>
+        </div>
+        <button
+          onClick={submit}
+          disabled={!answer.trim()}
+          className="px-5 py-2 rounded-xl text-sm font-bold bg-gradient-to-r from-emerald-400 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+        >
+          <i className="fas fa-check mr-2"></i>提交
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default DictationInput;
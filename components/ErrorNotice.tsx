@@ -0,0 +1,50 @@
+import React from 'react';
+import { AIErrorKind, AI_ERROR_MESSAGES } from '../services/aiErrors';
+
+interface ErrorNoticeProps {
+  kind: AIErrorKind;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+  compact?: boolean; // Smaller variant for tight spaces (chat window)
+}
+
+const ICONS: Record<AIErrorKind, string> = {
+  missing_key: 'fa-key',
+  quota: 'fa-hourglass-half',
+  safety: 'fa-shield-alt',
+  malformed: 'fa-puzzle-piece',
+  timeout: 'fa-clock',
+  offline: 'fa-wifi',
+  aborted: 'fa-ban',
+  unknown: 'fa-exclamation-circle',
+};
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ kind, onRetry, onDismiss, compact = false }) => {
+  const message = AI_ERROR_MESSAGES[kind];
+  const canRetry = onRetry && kind !== 'missing_key' && kind !== 'aborted';
+
+  return (
+    <div className={`flex items-start gap-3 bg-red-50 border border-red-100 text-left animate-fade-in ${compact ? 'rounded-xl p-3 text-xs' : 'rounded-2xl p-4 text-sm'}`}>
+      <i className={`fas ${ICONS[kind]} text-red-400 mt-0.5`}></i>
+      <div className="flex-1">
+        <div className="font-bold text-red-600">{message.title}</div>
+        <div className="text-red-400 mt-0.5 leading-relaxed">{message.hint}</div>
+        {canRetry && (
+          <button
+            onClick={onRetry}
+            className="mt-2 px-3 py-1 rounded-lg bg-white border border-red-100 text-red-500 font-bold hover:bg-red-500 hover:text-white transition-all"
+          >
+            <i className="fas fa-redo-alt mr-1"></i>重试
+          </button>
+        )}
+      </div>
+      {onDismiss && (
+        <button onClick={onDismiss} className="text-red-300 hover:text-red-500 transition-colors" title="关闭">
+          <i className="fas fa-times"></i>
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default ErrorNotice;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ChunkProgress } from '../services/curriculumPipeline';
+import ErrorNotice from './ErrorNotice';
+
+interface GenerationProgressProps {
+  progress: ChunkProgress[];
+  isRunning: boolean;
+  onRetry: () => void;
+  onSkipFailed: () => void;
+}
+
+const STATUS_STYLES: Record<ChunkProgress['status'], { icon: string; className: string; label: string }> = {
+  pending: { icon: 'fa-clock', className: 'text-slate-300', label: '排队中' },
+  generating: { icon: 'fa-circle-notch fa-spin', className: 'text-emerald-500', label: '生成中' },
+  done: { icon: 'fa-check-circle', className: 'text-emerald-500', label: '完成' },
+  failed: { icon: 'fa-exclamation-circle', className: 'text-red-500', label: '失败' },
+  skipped: { icon: 'fa-forward', className: 'text-slate-400', label: '已跳过' },
+};
+
+const GenerationProgress: React.FC<GenerationProgressProps> = ({ progress, isRunning, onRetry, onSkipFailed }) => {
+  const doneCount = progress.filter(p => p.status === 'done').length;
+  const failedCount = progress.filter(p => p.status === 'failed').length;
+  const firstError = progress.find(p => p.status === 'failed')?.errorKind || 'unknown';
+  const percent = progress.length > 0 ? Math.round((doneCount / progress.length) * 100) : 0;
+
+  return (
+    <div className="mt-6 bg-white rounded-[2rem] shadow-sm border border-emerald-50 p-6 font-['Nunito'] animate-fade-in">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="font-extrabold text-slate-800 flex items-center gap-2">
+          <i className="fas fa-puzzle-piece text-emerald-400"></i>
+          分段生成进度
+        </h3>
+        <span className="text-sm font-black text-emerald-500">
+          {doneCount}<span className="text-slate-300 text-xs font-normal">/{progress.length}</span>
+        </span>
+      </div>
+
+      <div className="w-full bg-slate-100 rounded-full h-2 overflow-hidden mb-4">
+        <div
+          className="bg-gradient-to-r from-emerald-300 to-emerald-400 h-full rounded-full transition-all duration-500"
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+
+      <ul className="space-y-2 max-h-64 overflow-y-auto custom-scrollbar pr-1">
+        {progress.map(chunk => {
+          const style = STATUS_STYLES[chunk.status];
+          return (
+            <li key={chunk.index} className="flex items-center gap-3 text-sm bg-slate-50/80 rounded-xl px-3 py-2 border border-slate-100">
+              <i className={`fas ${style.icon} ${style.className} w-4 text-center`}></i>
+              <span className="text-xs font-black text-slate-400 w-14 shrink-0">Part {chunk.index + 1}</span>
+              <span className="flex-1 truncate text-slate-600">{chunk.preview}…</span>
+              <span className={`text-xs font-bold shrink-0 ${style.className}`}>
+                {chunk.status === 'done' || (chunk.status === 'generating' && chunk.levelCount > 0) ? `${chunk.levelCount} 关` : style.label}
+              </span>
+            </li>
+          );
+        })}
+      </ul>
+
+      {failedCount > 0 && !isRunning && (
+        <div className="mt-4 space-y-3">
+          <ErrorNotice kind={firstError} onRetry={onRetry} />
+          <div className="flex flex-wrap items-center gap-3">
+            <span className="text-sm font-bold text-red-500 flex-1">{failedCount} 个片段生成失败，已完成的部分会被保留。</span>
+            {progress.some(p => p.levelCount > 0) && (
+              <button
+                onClick={onSkipFailed}
+                className="px-4 py-2 rounded-xl bg-slate-100 text-slate-600 text-sm font-bold hover:bg-slate-200 transition-all"
+              >
+                跳过失败片段
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GenerationProgress;
@@ -0,0 +1,293 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { CheckpointQuestion, GrammarTag, SavedSession } from '../types';
+import { listCourses } from '../services/courseLibrary';
+import {
+  DRILL_LENGTH, GrammarOccurrence, buildGrammarIndex, loadDrillStats, recordDrillResult, weakestTags
+} from '../services/grammarIndex';
+import { grammarTagLabel } from '../services/grammarTaxonomy';
+import { generateGrammarDrill } from '../services/geminiService';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import ErrorNotice from './ErrorNotice';
+
+interface GrammarIndexProps {
+  onExit: () => void;
+}
+
+type DrillQuestion = Extract<CheckpointQuestion, { kind: 'grammar' }>;
+
+// Example sentences handed to the model when writing a drill
+const DRILL_EXAMPLE_COUNT = 3;
+
+interface Drill {
+  tag: GrammarTag;
+  questions: DrillQuestion[] | null; // Null while generating
+  index: number;
+  picked: string | null; // The option chosen for the current question
+  checked: boolean;
+  correct: number;
+}
+
+const HighlightedSentence: React.FC<{ occurrence: GrammarOccurrence }> = ({ occurrence }) => {
+  const { words, span } = occurrence;
+  if (!span) return <span>{occurrence.english}</span>;
+  return (
+    <>
+      {words.map((word, i) => (
+        <React.Fragment key={i}>
+          <span className={i >= span.start && i <= span.end ? 'rounded px-0.5 bg-amber-100 text-amber-800 font-bold' : ''}>{word}</span>{' '}
+        </React.Fragment>
+      ))}
+    </>
+  );
+};
+
+const GrammarIndex: React.FC<GrammarIndexProps> = ({ onExit }) => {
+  const [courses, setCourses] = useState<SavedSession[] | null>(null);
+  const [stats, setStats] = useState(loadDrillStats);
+  const [selectedTag, setSelectedTag] = useState<GrammarTag | null>(null);
+  const [drill, setDrill] = useState<Drill | null>(null);
+  const [error, setError] = useState<AIErrorKind | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listCourses().then(list => {
+      if (!cancelled) setCourses(list);
+    });
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, []);
+
+  const index = useMemo(() => buildGrammarIndex(courses || []), [courses]);
+  const tags = Object.keys(index) as GrammarTag[];
+  const weakest = weakestTags(index, stats);
+
+  const startDrill = async (tag: GrammarTag) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setError(null);
+    setDrill({ tag, questions: null, index: 0, picked: null, checked: false, correct: 0 });
+    const examples = (index[tag] || []).slice(0, DRILL_EXAMPLE_COUNT).map(o => o.english);
+    try {
+      const questions = await generateGrammarDrill(tag, examples, DRILL_LENGTH, { signal: controller.signal });
+      setDrill(prev => (prev?.tag === tag ? { ...prev, questions } : prev));
+    } catch (err) {
+      const kind = toAIError(err).kind;
+      if (kind !== 'aborted') setError(kind);
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const closeDrill = () => {
+    abortRef.current?.abort();
+    setError(null);
+    setDrill(null);
+  };
+
+  const check = () => {
+    if (!drill?.questions || !drill.picked) return;
+    const isRight = drill.picked === drill.questions[drill.index].answer;
+    const next = { ...drill, checked: true, correct: drill.correct + (isRight ? 1 : 0) };
+    setDrill(next);
+    if (next.index + 1 >= next.questions!.length) {
+      recordDrillResult(next.tag, next.correct, next.questions!.length);
+      setStats(loadDrillStats());
+    }
+  };
+
+  const nextQuestion = () => {
+    if (!drill) return;
+    setDrill({ ...drill, index: drill.index + 1, picked: null, checked: false });
+  };
+
+  const accuracyLabel = (tag: GrammarTag) => {
+    const s = stats[tag];
+    return s && s.total > 0 ? `练习正确率 ${Math.round((s.correct / s.total) * 100)}%` : '尚未练习';
+  };
+
+  const renderDrill = (drill: Drill) => {
+    const label = grammarTagLabel(drill.tag);
+    const questions = drill.questions;
+    const question = questions?.[drill.index];
+    const finished = !!questions && drill.checked && drill.index + 1 >= questions.length;
+
+    return (
+      <div className="bg-white rounded-[2rem] shadow-sm border border-slate-100 p-8 animate-fade-in">
+        <div className="flex justify-between items-center mb-6">
+          <span className="text-xs font-black text-slate-400 uppercase tracking-widest">
+            <i className="fas fa-dumbbell mr-2 text-emerald-400"></i>专项练习 · {label}
+          </span>
+          {questions && <span className="text-xs font-bold text-slate-400">{drill.index + 1} / {questions.length}</span>}
+        </div>
+
+        {!questions && !error && (
+          <div className="py-12 text-center text-sm font-bold text-slate-400">
+            <i className="fas fa-circle-notch fa-spin mr-2"></i>正在生成「{label}」练习题…
+          </div>
+        )}
+        {error && <ErrorNotice kind={error} onRetry={() => startDrill(drill.tag)} onDismiss={closeDrill} />}
+
+        {questions && question && (
+          <>
+            <p className="text-lg font-bold text-slate-700 mb-5 whitespace-pre-line">{question.question}</p>
+            <div className="grid sm:grid-cols-2 gap-2 mb-4">
+              {question.options.map(option => {
+                const style = !drill.checked
+                  ? drill.picked === option ? 'bg-emerald-500 border-emerald-500 text-white' : 'bg-white border-slate-200 text-slate-600 hover:border-emerald-300'
+                  : option === question.answer ? 'bg-emerald-50 border-emerald-400 text-emerald-700'
+                  : option === drill.picked ? 'bg-rose-50 border-rose-300 text-rose-500 line-through'
+                  : 'bg-white border-slate-100 text-slate-300';
+                return (
+                  <button
+                    key={option}
+                    onClick={() => !drill.checked && setDrill({ ...drill, picked: option })}
+                    disabled={drill.checked}
+                    className={`px-4 py-3 rounded-xl border-2 text-left font-bold transition-all ${style}`}
+                  >
+                    {option}
+                  </button>
+                );
+              })}
+            </div>
+            {drill.checked && question.explanation && (
+              <p className="text-sm text-slate-500 bg-slate-50 rounded-xl px-4 py-3 mb-4">{question.explanation}</p>
+            )}
+            {finished && (
+              <p className="text-center text-slate-500 mb-4">
+                答对 <span className="font-black text-emerald-500">{drill.correct}</span> / {questions.length} 题，{accuracyLabel(drill.tag)}
+              </p>
+            )}
+            <div className="flex justify-end gap-2">
+              {finished ? (
+                <>
+                  <button onClick={() => startDrill(drill.tag)} className="px-5 py-2.5 rounded-xl text-sm font-bold text-emerald-500 hover:bg-emerald-50 transition-all">
+                    <i className="fas fa-redo-alt mr-2"></i>再练一组
+                  </button>
+                  <button onClick={closeDrill} className="px-6 py-2.5 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-sky-400 to-blue-500 hover:shadow-lg transition-all">
+                    返回语法索引
+                  </button>
+                </>
+              ) : drill.checked ? (
+                <button onClick={nextQuestion} className="px-6 py-2.5 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-sky-400 to-blue-500 hover:shadow-lg transition-all">
+                  下一题<i className="fas fa-arrow-right ml-2"></i>
+                </button>
+              ) : (
+                <button
+                  onClick={check}
+                  disabled={!drill.picked}
+                  className="px-6 py-2.5 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-emerald-400 to-emerald-500 hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+                >
+                  <i className="fas fa-check mr-2"></i>检查
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        {!finished && (
+          <button onClick={closeDrill} className="mt-4 text-xs font-bold text-slate-400 hover:text-slate-600 transition-colors">
+            <i className="fas fa-times mr-1"></i>退出练习
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 font-['Nunito'] animate-fade-in">
+      <div className="mb-6 flex justify-between items-center bg-white px-6 py-4 rounded-[2rem] shadow-sm border border-slate-100">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400 flex items-center bg-slate-50 px-3 py-1 rounded-full">
+          <i className="fas fa-sitemap mr-2 text-emerald-400"></i>语法索引
+        </span>
+        <span className="text-sm font-black text-emerald-500">
+          {courses ? `已学 ${tags.length} 个语法点` : '加载中…'}
+        </span>
+      </div>
+
+      {drill ? renderDrill(drill) : (
+        <>
+          {courses && tags.length === 0 && (
+            <div className="text-center bg-white p-12 rounded-[2.5rem] shadow-sm border border-slate-100">
+              <div className="w-20 h-20 bg-emerald-50 text-emerald-300 rounded-3xl flex items-center justify-center mx-auto mb-6 text-3xl">
+                <i className="fas fa-sitemap"></i>
+              </div>
+              <p className="text-slate-500 mb-8">学过的句子会按语法点归类在这里。先去生成一门课程吧。</p>
+              <button
+                onClick={onExit}
+                className="px-10 py-4 rounded-2xl font-bold text-white bg-gradient-to-r from-green-500 to-emerald-500 hover:shadow-lg hover:shadow-green-200 transition-all"
+              >
+                <i className="fas fa-plus mr-2"></i>创建课程
+              </button>
+            </div>
+          )}
+
+          {weakest.length > 0 && (
+            <div className="mb-6 bg-gradient-to-br from-amber-50 to-orange-50 rounded-[2rem] border border-amber-100 p-6">
+              <div className="text-xs font-black text-amber-500 uppercase tracking-widest mb-4">
+                <i className="fas fa-bullseye mr-2"></i>最需要加强
+              </div>
+              <div className="grid sm:grid-cols-3 gap-3">
+                {weakest.map(tag => (
+                  <div key={tag} className="bg-white rounded-2xl p-4 shadow-sm">
+                    <div className="font-bold text-slate-800">{grammarTagLabel(tag)}</div>
+                    <div className="text-xs text-slate-400 mt-1 mb-3">{index[tag]!.length} 个例句 · {accuracyLabel(tag)}</div>
+                    <button
+                      onClick={() => startDrill(tag)}
+                      className="w-full py-2 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-amber-400 to-orange-400 hover:shadow-md transition-all"
+                    >
+                      <i className="fas fa-dumbbell mr-2"></i>专项练习
+                    </button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-3">
+            {tags.map(tag => {
+              const occurrences = index[tag]!;
+              const isOpen = selectedTag === tag;
+              return (
+                <div key={tag} className="bg-white rounded-[2rem] shadow-sm border border-slate-100 p-5">
+                  <div className="flex items-center gap-4">
+                    <button onClick={() => setSelectedTag(isOpen ? null : tag)} className="flex-1 min-w-0 flex items-center gap-3 text-left">
+                      <i className={`fas fa-chevron-right text-xs text-slate-300 transition-transform ${isOpen ? 'rotate-90' : ''}`}></i>
+                      <span className="font-bold text-slate-800">{grammarTagLabel(tag)}</span>
+                      <span className="text-xs text-slate-400">{occurrences.length} 个例句 · {accuracyLabel(tag)}</span>
+                    </button>
+                    {tag !== 'other' && (
+                      <button
+                        onClick={() => startDrill(tag)}
+                        className="px-4 h-9 rounded-xl text-xs font-bold text-emerald-500 hover:bg-emerald-50 transition-all shrink-0"
+                      >
+                        <i className="fas fa-dumbbell mr-1"></i>专项练习
+                      </button>
+                    )}
+                  </div>
+
+                  {isOpen && (
+                    <ul className="mt-4 pt-4 border-t border-slate-100 space-y-3 animate-fade-in">
+                      {occurrences.map(occurrence => (
+                        <li key={`${occurrence.courseId}-${occurrence.levelIndex}`} className="px-3">
+                          <p className="text-slate-700 leading-relaxed"><HighlightedSentence occurrence={occurrence} /></p>
+                          {occurrence.note && <p className="text-xs text-slate-500 mt-1">{occurrence.note}</p>}
+                          <p className="text-[10px] font-bold text-slate-300 mt-1">{occurrence.courseTitle} · 第 {occurrence.levelIndex + 1} 关</p>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GrammarIndex;
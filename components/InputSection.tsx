@@ -1,15 +1,60 @@
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
+import { CefrLevel, CourseModule, SavedSession } from '../types';
+import { ARTICLE_CHUNK_WORDS } from '../services/curriculumPipeline';
+import { parseCourseFile, CourseFileError } from '../services/courseFile';
 
 interface InputSectionProps {
   onStart: (text: string) => void;
   isLoading: boolean;
-  mode: 'article' | 'vocab';
+  mode: CourseModule;
+  level?: CefrLevel; // Placement level the curriculum will be tuned to
+  onImport?: (course: SavedSession) => void; // A shared course file, opened without generating anything
 }
 
-const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode }) => {
+// Long texts are split into chunks and generated in parallel, see services/curriculumPipeline.ts
+const MAX_ARTICLE_WORDS = 6000;
+const MAX_SCENARIO_CHARS = 300;
+
+const MODE_COPY: Record<CourseModule, { title: string; sub: string; icon: string; noun: string; placeholder: string }> = {
+  article: { title: '自定义文章学习', sub: 'Article & Text Study', icon: 'fa-book-open', noun: '文章', placeholder: '在此粘贴您的英语文章或段落...' },
+  vocab: { title: '自定义单词学习', sub: 'Vocabulary & Usage Study', icon: 'fa-tags', noun: '单词', placeholder: '例如: serendipity, resilience, pragmatic...' },
+  scenario: { title: '场景实战', sub: 'Scenario Role-play', icon: 'fa-briefcase', noun: '场景', placeholder: '例如: 我在一家外企面试产品经理职位，面试官会问我过往的项目经验...' },
+};
+
+const MODE_STYLES: Record<CourseModule, { badge: string; focus: string; link: string; button: string }> = {
+  article: {
+    badge: 'bg-green-100 text-green-600',
+    focus: 'focus:ring-green-100 focus:border-green-400',
+    link: 'text-green-600 hover:text-green-700',
+    button: 'bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white hover:shadow-green-200',
+  },
+  vocab: {
+    badge: 'bg-amber-100 text-amber-600',
+    focus: 'focus:ring-amber-100 focus:border-amber-400',
+    link: 'text-amber-600 hover:text-amber-700',
+    button: 'bg-gradient-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 text-white hover:shadow-amber-200',
+  },
+  scenario: {
+    badge: 'bg-sky-100 text-sky-600',
+    focus: 'focus:ring-sky-100 focus:border-sky-400',
+    link: 'text-sky-600 hover:text-sky-700',
+    button: 'bg-gradient-to-r from-sky-400 to-blue-500 hover:from-sky-500 hover:to-blue-600 text-white hover:shadow-sky-200',
+  },
+};
+
+const SCENARIO_PRESETS = [
+  { label: '求职面试', icon: 'fa-user-tie', text: 'Job interview: I am applying for a marketing position and the interviewer asks about my experience and strengths.' },
+  { label: '酒店入住', icon: 'fa-hotel', text: 'Hotel check-in: I arrive at the front desk with a reservation and ask about breakfast and Wi-Fi.' },
+  { label: '看医生', icon: 'fa-stethoscope', text: 'Doctor visit: I have had a sore throat and a fever for two days and describe my symptoms to the doctor.' },
+  { label: '餐厅点餐', icon: 'fa-utensils', text: 'Restaurant: I order dinner, ask the waiter for recommendations and mention a food allergy.' },
+  { label: '机场值机', icon: 'fa-plane-departure', text: 'Airport check-in: I check in for an international flight, ask for a window seat and check my luggage.' },
+];
+
+const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode, level, onImport }) => {
   const [inputText, setInputText] = useState('');
   const [error, setError] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Clear text when mode switches
   useEffect(() => {
@@ -29,8 +74,13 @@ const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode })
     
     if (mode === 'article') {
         const wordCount = cleanText.split(/\s+/).length;
-        if (wordCount > 600) {
-            setError(`文本过长 (~${wordCount} 词)，建议控制在 500 词左右以保证生成质量。`);
+        if (wordCount > MAX_ARTICLE_WORDS) {
+            setError(`文本过长 (~${wordCount} 词)，目前最多支持 ${MAX_ARTICLE_WORDS} 词。`);
+            return;
+        }
+    } else if (mode === 'scenario') {
+        if (cleanText.length > MAX_SCENARIO_CHARS) {
+            setError(`场景描述请控制在 ${MAX_SCENARIO_CHARS} 字以内。`);
             return;
         }
     } else {
@@ -52,40 +102,82 @@ const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode })
     if (mode === 'article') {
         const sample = `Serendipity is the occurrence of events by chance in a happy or beneficial way. It is often described as finding something good without looking for it. For example, penicillin was discovered by Alexander Fleming when he noticed a mold killing bacteria in a petri dish he had accidentally left open. This accidental discovery revolutionized medicine. In our daily lives, serendipity plays a role when we meet a future friend at a coffee shop or find a perfect book while sheltering from the rain. To cultivate serendipity, one must stay curious and open to the unexpected.`;
         setInputText(sample);
+    } else if (mode === 'scenario') {
+        setInputText(SCENARIO_PRESETS[Math.floor(Math.random() * SCENARIO_PRESETS.length)].text);
     } else {
         const sample = `serendipity, ephemeral, resilience, pragmatic, aesthetic`;
         setInputText(sample);
     }
   };
 
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (!file || !onImport) return;
+    try {
+      const course = parseCourseFile(await file.text());
+      setError('');
+      onImport(course);
+    } catch (err) {
+      setError(err instanceof CourseFileError ? err.message : '无法读取课程文件。');
+    }
+  };
+
   const wordCount = inputText ? inputText.trim().split(/\s+/).filter(w => w).length : 0;
   
   const isArticle = mode === 'article';
+  const copy = MODE_COPY[mode];
+  const styles = MODE_STYLES[mode];
 
   return (
     <div className="w-full bg-white/80 backdrop-blur-sm rounded-[2rem] shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-green-100 font-['Nunito'] p-8 md:p-10 flex flex-col">
       <div className="mb-8">
         <div className="flex items-center gap-4 mb-4">
-            <div className={`inline-flex items-center justify-center w-12 h-12 rounded-2xl ${isArticle ? 'bg-green-100 text-green-600' : 'bg-amber-100 text-amber-600'} shadow-sm transition-colors`}>
-                <i className={`fas ${isArticle ? 'fa-book-open' : 'fa-tags'} text-xl`}></i>
+            <div className={`inline-flex items-center justify-center w-12 h-12 rounded-2xl ${styles.badge} shadow-sm transition-colors`}>
+                <i className={`fas ${copy.icon} text-xl`}></i>
             </div>
             <div>
                 <h2 className="text-2xl font-extrabold text-slate-800 tracking-tight">
-                    {isArticle ? '自定义文章学习' : '自定义单词学习'}
+                    {copy.title}
                 </h2>
                 <p className="text-slate-500 text-sm">
-                    {isArticle ? 'Article & Text Study' : 'Vocabulary & Usage Study'}
+                    {copy.sub}
                 </p>
             </div>
         </div>
         <p className="text-slate-500 leading-relaxed">
             {isArticle 
-                ? '请输入您想学习的英语段落或文章（如新闻、演讲稿、小说片段），AI 将为您将其拆解为 10 个闯关卡片，深度解析原文。支持约 500 个单词的文本。'
-                : '请输入您想要掌握的单词列表（用逗号或空格分隔），AI 将为您生成包含这些单词的生动场景例句，并配以插图辅助记忆。'}
+                ? `请输入您想学习的英语段落或文章（如新闻、演讲稿、小说片段），AI 将为您将其拆解为闯关卡片，深度解析原文。支持最长约 ${MAX_ARTICLE_WORDS} 词的长文，超过 ${ARTICLE_CHUNK_WORDS} 词会自动分段并行生成。`
+                : mode === 'scenario'
+                    ? '选择或描述一个真实情境（如求职面试、酒店入住、看医生），AI 将为您编写一段多轮对话。对方的台词会自动朗读，您逐句练习自己角色的台词。'
+                    : '请输入您想要掌握的单词列表（用逗号或空格分隔），AI 将为您生成包含这些单词的生动场景例句，并配以插图辅助记忆。'}
         </p>
+        {level && mode !== 'scenario' && (
+            <div className="mt-3 inline-flex items-center gap-2 text-xs font-bold text-violet-600 bg-violet-50 px-3 py-1.5 rounded-full">
+                <i className="fas fa-layer-group"></i>
+                将按您的 {level} 水平调整{mode === 'vocab' ? '例句难度' : '讲解深度'}
+            </div>
+        )}
       </div>
 
       <div className="flex-1 flex flex-col min-h-[300px]">
+        {mode === 'scenario' && (
+            <div className="flex flex-wrap gap-2 mb-4">
+                {SCENARIO_PRESETS.map(preset => (
+                    <button
+                        key={preset.label}
+                        onClick={() => { setInputText(preset.text); setError(''); }}
+                        disabled={isLoading}
+                        className={`px-4 py-2 rounded-xl text-sm font-bold border-2 transition-all disabled:opacity-50
+                            ${inputText === preset.text
+                                ? 'bg-sky-500 border-sky-500 text-white shadow-sm'
+                                : 'bg-white border-slate-100 text-slate-500 hover:border-sky-200 hover:text-sky-600'}`}
+                    >
+                        <i className={`fas ${preset.icon} mr-2`}></i>{preset.label}
+                    </button>
+                ))}
+            </div>
+        )}
         <div className="relative group flex-1 flex flex-col">
             <label htmlFor="vocab-input" className="sr-only">文本输入</label>
             <textarea
@@ -93,14 +185,14 @@ const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode })
             value={inputText}
             onChange={(e) => setInputText(e.target.value)}
             disabled={isLoading}
-            placeholder={isArticle ? "在此粘贴您的英语文章或段落..." : "例如: serendipity, resilience, pragmatic..."}
+            placeholder={copy.placeholder}
             className={`w-full flex-1 p-6 border-2 rounded-3xl outline-none resize-none font-mono text-lg text-slate-700 placeholder-slate-300 transition-all shadow-inner bg-slate-50 focus:bg-white leading-relaxed disabled:bg-slate-100 disabled:text-slate-400 min-h-[240px]
-                ${isArticle ? 'focus:ring-green-100 focus:border-green-400 border-slate-200' : 'focus:ring-amber-100 focus:border-amber-400 border-slate-200'}
+                ${styles.focus} border-slate-200
             `}
             />
             {isArticle && (
-                <div className={`absolute bottom-6 right-6 text-xs font-bold px-3 py-1.5 bg-white/90 backdrop-blur rounded-full border shadow-sm pointer-events-none transition-colors ${wordCount > 500 ? 'text-red-500 border-red-200' : 'text-slate-400 border-slate-100'}`}>
-                    {wordCount} / 500 Words
+                <div className={`absolute bottom-6 right-6 text-xs font-bold px-3 py-1.5 bg-white/90 backdrop-blur rounded-full border shadow-sm pointer-events-none transition-colors ${wordCount > MAX_ARTICLE_WORDS ? 'text-red-500 border-red-200' : 'text-slate-400 border-slate-100'}`}>
+                    {wordCount} / {MAX_ARTICLE_WORDS} Words
                 </div>
             )}
         </div>
@@ -109,11 +201,25 @@ const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode })
             <button 
                 onClick={handleSample}
                 disabled={isLoading}
-                className={`text-sm font-bold hover:underline decoration-2 underline-offset-4 transition-colors flex items-center gap-2 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''} ${isArticle ? 'text-green-600 hover:text-green-700' : 'text-amber-600 hover:text-amber-700'}`}
+                className={`text-sm font-bold hover:underline decoration-2 underline-offset-4 transition-colors flex items-center gap-2 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''} ${styles.link}`}
             >
                 <i className="fas fa-magic"></i>
-                试一试：加载示例{isArticle ? '文章' : '单词'}
+                试一试：加载示例{copy.noun}
             </button>
+            {onImport && (
+                <>
+                    <button
+                        onClick={() => fileInputRef.current?.click()}
+                        disabled={isLoading}
+                        className={`text-sm font-bold text-slate-400 hover:text-slate-600 transition-colors flex items-center gap-2 ${isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
+                        title="打开老师或同学分享的课程文件，无需重新生成"
+                    >
+                        <i className="fas fa-file-import"></i>
+                        导入课程文件
+                    </button>
+                    <input ref={fileInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+                </>
+            )}
         </div>
         
         {error && (
@@ -129,15 +235,13 @@ const InputSection: React.FC<InputSectionProps> = ({ onStart, isLoading, mode })
             className={`w-full py-5 px-8 rounded-2xl font-bold text-xl shadow-xl transition-all duration-200 flex items-center justify-center gap-3 mt-auto
             ${isLoading 
                 ? 'bg-slate-200 text-slate-500 cursor-not-allowed shadow-none' 
-                : isArticle 
-                    ? 'bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white hover:shadow-green-200 hover:-translate-y-1 active:scale-[0.98]'
-                    : 'bg-gradient-to-r from-amber-400 to-orange-500 hover:from-amber-500 hover:to-orange-600 text-white hover:shadow-amber-200 hover:-translate-y-1 active:scale-[0.98]'
+                : `${styles.button} hover:-translate-y-1 active:scale-[0.98]`
             }`}
         >
             {isLoading ? (
             <>
                 <i className="fas fa-circle-notch fa-spin text-xl"></i>
-                <span className="text-lg">正在解析{isArticle ? '文章' : '单词'}...</span>
+                <span className="text-lg">{mode === 'scenario' ? '正在编写对话...' : `正在解析${copy.noun}...`}</span>
             </>
             ) : (
             <>
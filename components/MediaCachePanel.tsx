@@ -0,0 +1,63 @@
+import React, { useState, useEffect } from 'react';
+import { MediaCacheStats, getMediaCacheStats, clearMediaCache } from '../services/mediaCache';
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+const MediaCachePanel: React.FC = () => {
+  const [stats, setStats] = useState<MediaCacheStats | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  useEffect(() => {
+    getMediaCacheStats().then(setStats).catch(console.error);
+  }, []);
+
+  const handleClear = async () => {
+    if (!confirm('确定要清除已缓存的语音和插图吗？再次播放时会重新生成。')) return;
+    setIsClearing(true);
+    try {
+      await clearMediaCache();
+      setStats(await getMediaCacheStats());
+    } catch (error) {
+      console.error(error);
+    } finally {
+      setIsClearing(false);
+    }
+  };
+
+  if (!stats) return null;
+
+  const lookups = stats.hits + stats.misses;
+  const hitRate = lookups > 0 ? Math.round((stats.hits / lookups) * 100) : 0;
+
+  return (
+    <div className="mt-6 px-4 pb-2">
+      <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-3">Media Cache</div>
+      <div className="grid grid-cols-3 gap-2 text-center mb-3">
+        <div className="bg-slate-50 rounded-xl py-2">
+          <div className="text-sm font-black text-emerald-500">{hitRate}%</div>
+          <div className="text-[10px] font-bold text-slate-400">命中率</div>
+        </div>
+        <div className="bg-slate-50 rounded-xl py-2">
+          <div className="text-sm font-black text-slate-600">{stats.entries}</div>
+          <div className="text-[10px] font-bold text-slate-400">条目</div>
+        </div>
+        <div className="bg-slate-50 rounded-xl py-2">
+          <div className="text-sm font-black text-slate-600">{formatBytes(stats.bytes)}</div>
+          <div className="text-[10px] font-bold text-slate-400">占用</div>
+        </div>
+      </div>
+      <button
+        onClick={handleClear}
+        disabled={isClearing || stats.entries === 0}
+        className="w-full text-xs font-bold py-2 rounded-xl border border-slate-200 text-slate-500 hover:bg-red-50 hover:text-red-500 hover:border-red-100 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+      >
+        <i className={`fas ${isClearing ? 'fa-circle-notch fa-spin' : 'fa-trash-alt'} mr-2`}></i>清除缓存
+      </button>
+    </div>
+  );
+};
+
+export default MediaCachePanel;
@@ -0,0 +1,427 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { CefrLevel, PlacementItem, PlacementSkill, ProficiencyResult } from '../types';
+import { generatePlacementItems, evaluatePronunciation } from '../services/geminiService';
+import { getCachedSpeech } from '../services/mediaCache';
+import { playPCM } from '../services/audio';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
+import {
+  CEFR_LEVELS, CEFR_DESCRIPTIONS, SKILL_LABELS, PLACEMENT_LENGTH, PlacementState,
+  createPlacementState, nextLevel, nextSkill, isPlacementDone, recordAnswer, summarizePlacement,
+  isReadAloudPass, saveProficiency
+} from '../services/proficiency';
+import ErrorNotice from './ErrorNotice';
+
+interface PlacementTestProps {
+  savedResult: ProficiencyResult | null;
+  onComplete: (result: ProficiencyResult) => void; // Result has already been saved
+  onStartLearning: () => void;
+}
+
+type Phase = 'intro' | 'testing' | 'result';
+
+const SKILL_ICONS: Record<PlacementSkill, string> = {
+  vocab: 'fa-spell-check',
+  grammar: 'fa-sitemap',
+  listening: 'fa-headphones',
+  speaking: 'fa-microphone',
+};
+
+const PlacementTest: React.FC<PlacementTestProps> = ({ savedResult, onComplete, onStartLearning }) => {
+  const [phase, setPhase] = useState<Phase>(savedResult ? 'result' : 'intro');
+  const [result, setResult] = useState<ProficiencyResult | null>(savedResult);
+  const [placement, setPlacement] = useState<PlacementState>(createPlacementState);
+  const [item, setItem] = useState<PlacementItem | null>(null);
+  const [isLoadingItem, setIsLoadingItem] = useState(false);
+  const [itemError, setItemError] = useState<AIErrorKind | null>(null);
+
+  const [selected, setSelected] = useState<number | null>(null);
+  const [isCorrect, setIsCorrect] = useState<boolean | null>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  const [isEvaluating, setIsEvaluating] = useState(false);
+  const [transcript, setTranscript] = useState('');
+
+  // Unused items per level; batches are fetched lazily and neighbouring levels prefetched
+  const bankRef = useRef<Partial<Record<CefrLevel, PlacementItem[]>>>({});
+  const batchPromisesRef = useRef<Partial<Record<CefrLevel, Promise<void>>>>({});
+  const abortRef = useRef<AbortController | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const recognitionRef = useRef<any>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    return () => {
+      controller.abort();
+      recognitionRef.current?.abort();
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  const fetchBatch = (level: CefrLevel): Promise<void> => {
+    const inFlight = batchPromisesRef.current[level];
+    if (inFlight) return inFlight;
+
+    const promise = generatePlacementItems(level, { signal: abortRef.current?.signal })
+      .then(items => {
+        bankRef.current[level] = [...(bankRef.current[level] || []), ...items];
+      })
+      .finally(() => {
+        delete batchPromisesRef.current[level];
+      });
+    batchPromisesRef.current[level] = promise;
+    return promise;
+  };
+
+  // Takes an unused item of `skill` at `level`, falling back to any other allowed skill
+  const takeItem = (level: CefrLevel, skill: PlacementSkill, excludeSkill?: PlacementSkill): PlacementItem | null => {
+    const bank = bankRef.current[level] || [];
+    let index = skill !== excludeSkill ? bank.findIndex(i => i.skill === skill) : -1;
+    if (index < 0) index = bank.findIndex(i => i.skill !== excludeSkill);
+    if (index < 0) return null;
+    return bank.splice(index, 1)[0];
+  };
+
+  const loadNextItem = async (state: PlacementState, excludeSkill?: PlacementSkill) => {
+    setItem(null);
+    setSelected(null);
+    setIsCorrect(null);
+    setTranscript('');
+    setItemError(null);
+
+    if (isPlacementDone(state)) {
+      const summary = summarizePlacement(state);
+      saveProficiency(summary);
+      setResult(summary);
+      setPhase('result');
+      onComplete(summary);
+      return;
+    }
+
+    const level = nextLevel(state);
+    const skill = nextSkill(state);
+    setIsLoadingItem(true);
+    try {
+      let next = takeItem(level, skill, excludeSkill);
+      if (!next) {
+        await fetchBatch(level);
+        next = takeItem(level, skill, excludeSkill);
+      }
+      if (!next) throw new Error(`No placement items for ${level}`);
+      setItem(next);
+
+      // Warm up the levels the next answer may lead to
+      const index = CEFR_LEVELS.indexOf(level);
+      [CEFR_LEVELS[index - 1], CEFR_LEVELS[index + 1]].forEach(neighbour => {
+        if (neighbour && !(bankRef.current[neighbour]?.length)) fetchBatch(neighbour).catch(() => {});
+      });
+      if (next.skill === 'listening') getCachedSpeech(next.audioText).catch(() => {});
+    } catch (error) {
+      const kind = toAIError(error).kind;
+      if (kind !== 'aborted') setItemError(kind);
+    } finally {
+      setIsLoadingItem(false);
+    }
+  };
+
+  const startTest = () => {
+    const state = createPlacementState();
+    setPlacement(state);
+    setPhase('testing');
+    loadNextItem(state);
+  };
+
+  const handleNext = () => {
+    if (!item || isCorrect === null) return;
+    const state = recordAnswer(placement, item, isCorrect);
+    setPlacement(state);
+    loadNextItem(state);
+  };
+
+  const handleSelect = (index: number) => {
+    if (!item || isCorrect !== null) return;
+    setSelected(index);
+    setIsCorrect(index === item.answerIndex);
+  };
+
+  const playListening = async () => {
+    if (!item || isPlaying) return;
+    setIsPlaying(true);
+    try {
+      const bytes = await getCachedSpeech(item.audioText);
+      if (!bytes) throw new Error("No audio returned");
+      if (!audioContextRef.current) {
+        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+        audioContextRef.current = new AudioContext();
+      }
+      await playPCM(bytes, audioContextRef.current);
+      setIsPlaying(false);
+    } catch (error) {
+      console.error("Listening audio failed, falling back to browser TTS:", error);
+      const utterance = new SpeechSynthesisUtterance(item.audioText);
+      utterance.lang = 'en-US';
+      utterance.onend = () => setIsPlaying(false);
+      utterance.onerror = () => setIsPlaying(false);
+      window.speechSynthesis.speak(utterance);
+    }
+  };
+
+  const evaluateReading = async (target: string, spoken: string) => {
+    setIsEvaluating(true);
+    setItemError(null);
+    try {
+      const evaluation = await evaluatePronunciation(target, spoken, { signal: abortRef.current?.signal });
+      setIsCorrect(isReadAloudPass(target, evaluation.errors.length));
+    } catch (error) {
+      const kind = toAIError(error).kind;
+      if (kind !== 'aborted') setItemError(kind);
+    } finally {
+      setIsEvaluating(false);
+    }
+  };
+
+  const toggleRecording = () => {
+    if (!item) return;
+    if (isRecording) {
+      recognitionRef.current?.stop();
+      return;
+    }
+
+    const SpeechRecognition = (window as any).SpeechRecognition || (window as any).webkitSpeechRecognition;
+    const recognition = new SpeechRecognition();
+    recognition.lang = 'en-US';
+    recognition.interimResults = false;
+    recognition.continuous = false;
+
+    let spoken = '';
+    recognition.onresult = (event: any) => {
+      spoken = Array.from(event.results).map((r: any) => r[0].transcript).join(' ');
+    };
+    recognition.onerror = (event: any) => {
+      if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
+        alert("无法访问麦克风，请检查权限设置。");
+      }
+    };
+    recognition.onend = () => {
+      setIsRecording(false);
+      setTranscript(spoken);
+      if (spoken.trim()) evaluateReading(item.audioText, spoken);
+    };
+
+    recognitionRef.current = recognition;
+    setTranscript('');
+    setIsRecording(true);
+    recognition.start();
+  };
+
+  const hasSpeechRecognition = 'webkitSpeechRecognition' in window || 'SpeechRecognition' in window;
+
+  // --- Views ---
+
+  if (phase === 'intro') {
+    return (
+      <div className="w-full bg-white/80 backdrop-blur-sm rounded-[2rem] shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-violet-100 p-8 md:p-10 animate-fade-in">
+        <div className="flex items-center gap-4 mb-6">
+          <div className="inline-flex items-center justify-center w-12 h-12 rounded-2xl bg-violet-100 text-violet-600 shadow-sm">
+            <i className="fas fa-layer-group text-xl"></i>
+          </div>
+          <div>
+            <h2 className="text-2xl font-extrabold text-slate-800 tracking-tight">能力分级测试</h2>
+            <p className="text-slate-500 text-sm">CEFR Placement Test</p>
+          </div>
+        </div>
+        <p className="text-slate-500 leading-relaxed mb-8">
+          共 {PLACEMENT_LENGTH} 道题，涵盖词汇、语法、听力和朗读。题目难度会根据您的作答实时调整，
+          答对会变难、答错会变简单，大约需要 5 分钟。测试结果（A1–C2）会用于调整之后生成课程的难度。
+        </p>
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-10">
+          {(Object.keys(SKILL_LABELS) as PlacementSkill[]).map(skill => (
+            <div key={skill} className="bg-slate-50 rounded-2xl p-4 text-center">
+              <i className={`fas ${SKILL_ICONS[skill]} text-violet-400 text-xl mb-2`}></i>
+              <div className="text-sm font-bold text-slate-600">{SKILL_LABELS[skill]}</div>
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={startTest}
+          className="w-full py-5 px-8 rounded-2xl font-bold text-xl shadow-xl transition-all duration-200 flex items-center justify-center gap-3 bg-gradient-to-r from-violet-500 to-purple-500 hover:from-violet-600 hover:to-purple-600 text-white hover:shadow-violet-200 hover:-translate-y-1 active:scale-[0.98]"
+        >
+          <span>开始测试</span>
+          <i className="fas fa-arrow-right"></i>
+        </button>
+      </div>
+    );
+  }
+
+  if (phase === 'result' && result) {
+    return (
+      <div className="w-full bg-white/80 backdrop-blur-sm rounded-[2rem] shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-violet-100 p-8 md:p-10 text-center animate-fade-in">
+        <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">Your Level</div>
+        <div className="w-28 h-28 mx-auto mb-4 rounded-3xl bg-gradient-to-br from-violet-400 to-purple-500 text-white flex items-center justify-center text-5xl font-black shadow-lg transform -rotate-3">
+          {result.level}
+        </div>
+        <p className="text-slate-600 font-bold mb-1">{CEFR_DESCRIPTIONS[result.level]}</p>
+        <p className="text-xs text-slate-400 mb-8">测试于 {new Date(result.testedAt).toLocaleDateString()}</p>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-10">
+          {(Object.keys(SKILL_LABELS) as PlacementSkill[]).map(skill => {
+            const { correct, total } = result.skills[skill];
+            return (
+              <div key={skill} className="bg-slate-50 rounded-2xl p-4">
+                <i className={`fas ${SKILL_ICONS[skill]} text-violet-400 mb-1`}></i>
+                <div className="text-sm font-bold text-slate-600">{SKILL_LABELS[skill]}</div>
+                <div className="text-lg font-black text-slate-800">{correct}<span className="text-slate-300 text-sm">/{total}</span></div>
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          <button
+            onClick={startTest}
+            className="flex-1 py-4 rounded-2xl font-bold border-2 border-slate-100 text-slate-500 hover:border-violet-200 hover:text-violet-600 transition-all"
+          >
+            <i className="fas fa-redo-alt mr-2"></i>重新测试
+          </button>
+          <button
+            onClick={onStartLearning}
+            className="flex-1 py-4 rounded-2xl font-bold text-white bg-gradient-to-r from-violet-500 to-purple-500 hover:shadow-lg hover:shadow-violet-200 hover:-translate-y-0.5 transition-all"
+          >
+            按 {result.level} 难度开始学习<i className="fas fa-arrow-right ml-2"></i>
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const answeredCount = placement.answers.length;
+
+  return (
+    <div className="w-full bg-white/80 backdrop-blur-sm rounded-[2rem] shadow-[0_8px_30px_rgb(0,0,0,0.04)] border border-violet-100 p-8 md:p-10 animate-fade-in">
+      {/* Progress */}
+      <div className="flex items-center gap-4 mb-8">
+        <div className="flex-1 bg-slate-100 rounded-full h-3 overflow-hidden p-0.5">
+          <div
+            className="bg-gradient-to-r from-violet-300 to-violet-500 h-full rounded-full transition-all duration-700"
+            style={{ width: `${(answeredCount / PLACEMENT_LENGTH) * 100}%` }}
+          ></div>
+        </div>
+        <span className="text-sm font-black text-violet-500">{answeredCount + 1}<span className="text-slate-300 text-xs font-normal">/{PLACEMENT_LENGTH}</span></span>
+      </div>
+
+      {isLoadingItem && (
+        <div className="py-20 text-center text-violet-400 font-bold animate-pulse">
+          <i className="fas fa-circle-notch fa-spin mr-2"></i>正在准备题目...
+        </div>
+      )}
+
+      {itemError && !isEvaluating && (
+        <ErrorNotice
+          kind={itemError}
+          onRetry={() => (item ? evaluateReading(item.audioText, transcript) : loadNextItem(placement))}
+          onDismiss={item ? () => setItemError(null) : undefined}
+        />
+      )}
+
+      {item && (
+        <div className="animate-fade-in">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="px-3 py-1 rounded-full bg-violet-50 text-violet-600 text-xs font-bold">
+              <i className={`fas ${SKILL_ICONS[item.skill]} mr-1`}></i>{SKILL_LABELS[item.skill]}
+            </span>
+          </div>
+          <h3 className="text-xl md:text-2xl font-extrabold text-slate-800 mb-6 leading-snug">{item.question}</h3>
+
+          {item.skill === 'listening' && (
+            <button
+              onClick={playListening}
+              disabled={isPlaying}
+              className="mb-6 w-16 h-16 rounded-2xl bg-white border border-violet-100 text-violet-500 text-xl shadow-sm hover:bg-violet-50 transition-all disabled:opacity-50"
+              title="播放音频"
+            >
+              <i className={`fas ${isPlaying ? 'fa-volume-high animate-pulse' : 'fa-play'}`}></i>
+            </button>
+          )}
+
+          {item.skill === 'speaking' ? (
+            <div className="text-center">
+              <p className="text-2xl font-bold text-slate-700 mb-8 leading-relaxed">{item.audioText}</p>
+              {hasSpeechRecognition ? (
+                <button
+                  onClick={toggleRecording}
+                  disabled={isEvaluating || isCorrect !== null}
+                  className={`w-16 h-16 rounded-2xl text-white text-xl shadow-lg transition-all disabled:opacity-50
+                    ${isRecording ? 'bg-red-500 ring-4 ring-red-100 animate-pulse' : 'bg-gradient-to-tr from-violet-400 to-purple-500 hover:-translate-y-1'}`}
+                  title={isRecording ? "停止录音" : "开始朗读"}
+                >
+                  <i className={`fas ${isRecording ? 'fa-stop' : 'fa-microphone'}`}></i>
+                </button>
+              ) : (
+                <button
+                  onClick={() => loadNextItem(placement, 'speaking')}
+                  className="px-6 py-3 rounded-xl border-2 border-slate-100 text-slate-500 font-bold hover:border-violet-200"
+                >
+                  浏览器不支持语音识别，换一道题
+                </button>
+              )}
+              {isEvaluating && (
+                <div className="mt-4 text-violet-500 font-bold animate-pulse">
+                  <i className="fas fa-spinner fa-spin mr-2"></i>正在评估朗读...
+                </div>
+              )}
+              {transcript && !isEvaluating && (
+                <p className="mt-4 text-sm text-slate-400">识别结果: {transcript}</p>
+              )}
+            </div>
+          ) : (
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {item.options.map((option, index) => {
+                const isAnswer = index === item.answerIndex;
+                const isPicked = index === selected;
+                return (
+                  <button
+                    key={index}
+                    onClick={() => handleSelect(index)}
+                    disabled={isCorrect !== null}
+                    className={`text-left p-4 rounded-2xl border-2 font-bold transition-all
+                      ${isCorrect === null
+                        ? 'border-slate-100 text-slate-600 hover:border-violet-200 hover:bg-violet-50/50'
+                        : isAnswer
+                          ? 'border-emerald-300 bg-emerald-50 text-emerald-700'
+                          : isPicked
+                            ? 'border-red-200 bg-red-50 text-red-500'
+                            : 'border-slate-100 text-slate-300'}`}
+                  >
+                    <span className="mr-2 text-slate-300">{String.fromCharCode(65 + index)}.</span>{option}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          {isCorrect !== null && (
+            <div className="mt-8 flex flex-col md:flex-row items-start md:items-center gap-4 animate-fade-in">
+              <div className={`flex-1 rounded-2xl p-4 text-sm ${isCorrect ? 'bg-emerald-50 text-emerald-700' : 'bg-amber-50 text-amber-700'}`}>
+                <span className="font-bold mr-2">
+                  <i className={`fas ${isCorrect ? 'fa-check-circle' : 'fa-info-circle'} mr-1`}></i>
+                  {isCorrect ? '回答正确' : '没关系，继续加油'}
+                </span>
+                {item.skill === 'listening' && <div className="mt-1 font-mono">{item.audioText}</div>}
+                {item.explanation && <div className="mt-1">{item.explanation}</div>}
+              </div>
+              <button
+                onClick={handleNext}
+                className="px-8 py-4 rounded-2xl font-bold text-white bg-gradient-to-r from-violet-500 to-purple-500 hover:shadow-lg hover:shadow-violet-200 transition-all shrink-0"
+              >
+                {answeredCount + 1 >= PLACEMENT_LENGTH ? '查看结果' : '下一题'}<i className="fas fa-arrow-right ml-2"></i>
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlacementTest;
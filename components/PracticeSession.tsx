@@ -1,46 +1,62 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { SentenceData, EvaluationResult } from '../types';
-import { generateSentenceImage, evaluatePronunciation, generateSpeech } from '../services/geminiService';
+import { SentenceData, EvaluationResult, TutorContext, Scenario, DialogueLine, SessionProgress, CourseModule, AlignedWord, PracticeMode, WordRange, ShadowingPhase, ClozeItem, CheckpointResult } from '../types';
+import { evaluatePronunciation, evaluateTranslation } from '../services/geminiService';
+import { getCachedSpeech, getCachedSentenceImage } from '../services/mediaCache';
+import { pcmObjectUrl, playAtRate, Playback } from '../services/audio';
+import { addSentenceToDeck } from '../services/reviewDeck';
+import { logPractice, startTimeTracking } from '../services/activityLog';
+import { startAudioCapture, AudioCapture, RecordedAudio } from '../services/audioRecorder';
+import { alignWords } from '../services/wordAlignment';
+import { addAttempt, bestAttempt, latestAttempt, readingAttempts, confidenceByWord } from '../services/pronunciationScores';
+import { gradeDictation } from '../services/dictation';
+import { gradeCloze } from '../services/cloze';
+import { CHECKPOINT_MIN_LEVELS, betterCheckpointResult } from '../services/checkpoint';
+import { AIErrorKind, toAIError } from '../services/aiErrors';
 import AnalysisPanel from './AnalysisPanel';
+import ErrorNotice from './ErrorNotice';
+import PronunciationScoreCard from './PronunciationScoreCard';
+import DictationInput from './DictationInput';
+import ClozeExercise from './ClozeExercise';
+import TranslationPanel from './TranslationPanel';
+import CheckpointQuiz from './CheckpointQuiz';
+import ShadowingPanel from './ShadowingPanel';
+import ScenarioDialogue from './ScenarioDialogue';
 
 interface PracticeSessionProps {
   sentences: SentenceData[];
+  module: CourseModule; // Attributes practice time and levels in the stats
+  pendingLevelCount?: number; // Levels still being generated after `sentences`
   onComplete: () => void;
   onBackToInput: () => void;
   enableImages?: boolean;
+  onContextChange?: (context: TutorContext) => void; // Shares the active level with the chat tutor
+  scenario?: Scenario | null; // Role-play mode: each level is the learner's reply in this dialogue
+  initialProgress?: SessionProgress; // Restores a saved session
+  onProgressChange?: (progress: SessionProgress) => void;
 }
 
 const LEVELS_PER_STAGE = 15;
+const SPEECH_RATES = [0.6, 0.8, 0.9, 1, 1.2];
+const SHADOWING_PAUSE_MS = 1200; // Between listening and speaking along
+const SHADOWING_TAIL_MS = 1000; // Recording keeps running after the audio so the last word is not cut off
+const LOOP_GAP_MS = 800;
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// How the word diff is worded for each kind of attempt
+const DIFF_LABELS = {
+  reading: { changed: '听到', missing: '漏读', extra: '多读的词', correction: '发音纠正' },
+  dictation: { changed: '写成', missing: '漏写', extra: '多写的词', correction: '听写纠正' },
+  cloze: { changed: '填成', missing: '未填', extra: '多填的词', correction: '填空纠正' },
+};
 
-// --- Audio Decoding Helpers ---
-function base64ToBytes(base64: string) {
-  const binaryString = atob(base64);
-  const length = binaryString.length;
-  const bytes = new Uint8Array(length);
-  for (let i = 0; i < length; i++) {
-    bytes[i] = binaryString.charCodeAt(i);
-  }
-  return bytes;
-}
-
-function decodePCM(data: Uint8Array, ctx: AudioContext) {
-  const sampleRate = 24000; // Gemini TTS standard rate
-  const numChannels = 1;
-  const dataInt16 = new Int16Array(data.buffer);
-  const frameCount = dataInt16.length / numChannels;
-  const buffer = ctx.createBuffer(numChannels, frameCount, sampleRate);
-  const channelData = buffer.getChannelData(0);
-  for (let i = 0; i < frameCount; i++) {
-      channelData[i] = dataInt16[i] / 32768.0;
-  }
-  return buffer;
-}
-
-const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete, onBackToInput, enableImages = true }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [unlockedIndex, setUnlockedIndex] = useState(0); 
+const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, module, pendingLevelCount = 0, onComplete, onBackToInput, enableImages = true, onContextChange, scenario = null, initialProgress, onProgressChange }) => {
+  const [currentIndex, setCurrentIndex] = useState(initialProgress?.currentIndex ?? 0);
+  const [unlockedIndex, setUnlockedIndex] = useState(initialProgress?.unlockedIndex ?? 0); 
   const [activeStage, setActiveStage] = useState(0); // For sidebar display
+  const [checkpoints, setCheckpoints] = useState<Record<number, CheckpointResult>>(initialProgress?.checkpoints ?? {});
+  const [checkpointStage, setCheckpointStage] = useState<number | null>(null); // Stage whose checkpoint quiz is open
 
   const [isRecording, setIsRecording] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false); 
@@ -49,26 +65,41 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   
   // Current session state
   const [evaluation, setEvaluation] = useState<EvaluationResult | null>(null);
+  const [evaluationError, setEvaluationError] = useState<AIErrorKind | null>(null);
   const [showAnalysis, setShowAnalysis] = useState(false);
   const [activeWordIndex, setActiveWordIndex] = useState<number | null>(null);
   const [showText, setShowText] = useState(true); // Control text visibility for listening practice
+  const [practiceMode, setPracticeMode] = useState<PracticeMode>('reading');
+  const [translationDraft, setTranslationDraft] = useState('');
+  const [speechRate, setSpeechRate] = useState(0.9);
+  const [segment, setSegment] = useState<WordRange | null>(null); // Shadowing phrase, whole sentence when null
+  const [shadowingPhase, setShadowingPhase] = useState<ShadowingPhase>('idle');
   
   // History state
-  const [history, setHistory] = useState<Record<number, EvaluationResult>>({});
+  const [history, setHistory] = useState<Record<number, EvaluationResult[]>>(initialProgress?.history ?? {});
+  const passedLevelsRef = useRef(new Set(Object.keys(initialProgress?.history ?? {}).map(Number))); // For the practice log
   
   // Image Cache
   const [sentenceImages, setSentenceImages] = useState<Record<number, string>>({});
   const [loadingImage, setLoadingImage] = useState(false);
 
-  // Audio Cache & Context
-  const audioContextRef = useRef<AudioContext | null>(null);
-  const audioCacheRef = useRef<Record<string, AudioBuffer>>({});
+  // Audio Cache (WAV object URLs; raw PCM is persisted by services/mediaCache)
+  const audioCacheRef = useRef<Record<string, string>>({});
   // Track ongoing fetch promises to prevent duplicate requests (Preload vs Click)
-  const audioPromisesRef = useRef<Record<string, Promise<AudioBuffer | null>>>({});
-  const activeSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  const audioPromisesRef = useRef<Record<string, Promise<string | null>>>({});
+  const activePlaybackRef = useRef<Playback | null>(null);
+  const shadowingRunRef = useRef(0); // Bumped to cancel a running shadowing loop or cycle
 
   const currentSentence = sentences[currentIndex];
-  const totalStages = Math.ceil(sentences.length / LEVELS_PER_STAGE);
+  const isDictation = practiceMode === 'dictation';
+  // Dictation, cloze and translation keep the sentence hidden until the answer is graded
+  const answersFirst = isDictation || practiceMode === 'cloze' || practiceMode === 'translation';
+  const textHidden = !showText || (answersFirst && evaluation?.mode !== practiceMode);
+  const totalLevels = sentences.length + pendingLevelCount;
+  const totalStages = Math.ceil(totalLevels / LEVELS_PER_STAGE);
+  const isNextPending = currentIndex + 1 >= sentences.length && pendingLevelCount > 0;
+  // Stages end with a checkpoint quiz unless they are too short to quiz
+  const hasCheckpoint = (stage: number) => Math.min(LEVELS_PER_STAGE, totalLevels - stage * LEVELS_PER_STAGE) >= CHECKPOINT_MIN_LEVELS;
   
   // Web Speech API refs
   const recognitionRef = useRef<any>(null);
@@ -77,7 +108,15 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   const userStoppedRef = useRef<boolean>(false); 
   
   const audioTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null); 
+  const evaluationAbortRef = useRef<AbortController | null>(null);
+  const lastTranscriptRef = useRef<string>(''); // For retrying a failed evaluation
+  const lastTranslationRef = useRef<string>('');
+  const lastAudioRef = useRef<RecordedAudio | null>(null);
+  // Raw microphone audio recorded next to speech recognition, for audio-based assessment
+  const audioCaptureRef = useRef<Promise<AudioCapture | null> | null>(null);
   const currentIndexRef = useRef(currentIndex);
+  // What the current recording is evaluated against; read when recognition ends
+  const recordingTargetRef = useRef<{ mode: PracticeMode; segment: WordRange | null }>({ mode: 'reading', segment: null });
 
   // Sync Active Stage with Current Index when moving between levels
   useEffect(() => {
@@ -100,19 +139,20 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
     };
   }, []);
 
-  // Initialize AudioContext
+  useEffect(() => startTimeTracking(module), [module]);
+
   useEffect(() => {
-    const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-    if (AudioContext) {
-        audioContextRef.current = new AudioContext();
-    }
     return () => {
-        audioContextRef.current?.close();
+        shadowingRunRef.current++;
+        activePlaybackRef.current?.stop();
+        (Object.values(audioCacheRef.current) as string[]).forEach(url => URL.revokeObjectURL(url));
+        evaluationAbortRef.current?.abort();
+        cancelAudioCapture();
     };
   }, []);
 
   // --- CORE AUDIO LOADING LOGIC (Deduped) ---
-  const loadAudioData = async (text: string): Promise<AudioBuffer | null> => {
+  const loadAudioData = async (text: string): Promise<string | null> => {
     // 1. Check Cache
     if (audioCacheRef.current[text]) {
         return audioCacheRef.current[text];
@@ -126,21 +166,14 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
     // 3. Initiate New Fetch
     const fetchPromise = (async () => {
         try {
-            const base64Data = await generateSpeech(text);
-            if (!base64Data) return null;
+            const bytes = await getCachedSpeech(text);
+            if (!bytes) return null;
 
-            // Ensure Context Exists
-            if (!audioContextRef.current) {
-                const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
-                audioContextRef.current = new AudioContext();
-            }
-
-            const bytes = base64ToBytes(base64Data);
-            const buffer = decodePCM(bytes, audioContextRef.current);
+            const url = pcmObjectUrl(bytes);
             
             // Cache Result
-            audioCacheRef.current[text] = buffer;
-            return buffer;
+            audioCacheRef.current[text] = url;
+            return url;
         } catch (e) {
             console.error("Audio Load Error:", e);
             return null;
@@ -155,13 +188,17 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   };
 
 
+  // Role-play: what the partner says before the learner's line at `index`
+  const partnerText = (index: number): string =>
+    scenario?.exchanges[index]?.partnerLines.map(line => line.english).join(' ') || '';
+
   // 1. Preload Effects (Image & Audio)
   useEffect(() => {
     // --- Image Logic ---
     if (enableImages) {
         if (!sentenceImages[currentIndex]) {
             setLoadingImage(true);
-            generateSentenceImage(sentences[currentIndex].english)
+            getCachedSentenceImage(sentences[currentIndex].english)
                 .then(imageUrl => {
                     if (imageUrl) setSentenceImages(prev => ({...prev, [currentIndex]: imageUrl}));
                 })
@@ -170,7 +207,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
         }
         const nextIndex = currentIndex + 1;
         if (nextIndex < sentences.length && !sentenceImages[nextIndex]) {
-            generateSentenceImage(sentences[nextIndex].english)
+            getCachedSentenceImage(sentences[nextIndex].english)
                 .then(imageUrl => {
                     if (imageUrl) setSentenceImages(prev => ({...prev, [nextIndex]: imageUrl}));
                 })
@@ -186,29 +223,42 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
     const nextIdx = currentIndex + 1;
     if (nextIdx < sentences.length) {
         loadAudioData(sentences[nextIdx].english);
+        const nextPartnerText = partnerText(nextIdx);
+        if (nextPartnerText) loadAudioData(nextPartnerText);
     }
     
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentIndex, enableImages]);
 
 
+  // Preload audio for the next level once it streams in
+  useEffect(() => {
+    const nextIdx = currentIndex + 1;
+    if (nextIdx < sentences.length) {
+        loadAudioData(sentences[nextIdx].english);
+    }
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [sentences.length]);
+
   // 2. Centralized State Restoration/Reset when changing levels
   useEffect(() => {
     // Stop any ongoing audio/recording when switching levels
-    if (audioTimerRef.current) clearTimeout(audioTimerRef.current);
-    window.speechSynthesis.cancel();
-    if (activeSourceRef.current) {
-        try { activeSourceRef.current.stop(); } catch(e) {}
-        activeSourceRef.current = null;
-    }
+    shadowingRunRef.current++;
+    stopPlayback();
+    setSegment(null);
+    setShadowingPhase('idle');
+    setTranslationDraft('');
     
     // Stop recording completely
     if (recognitionRef.current) {
         userStoppedRef.current = true; // Prevent auto-restart in onend
         recognitionRef.current.abort();
     }
+    cancelAudioCapture();
     transcriptRef.current = '';
     fullTranscriptRef.current = '';
+    evaluationAbortRef.current?.abort(); // Result would belong to the previous level
+    setEvaluationError(null);
     
     setIsPlaying(false);
     setIsRecording(false);
@@ -217,7 +267,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
     setActiveWordIndex(null);
 
     // Check history
-    const savedResult = history[currentIndex];
+    const savedResult = answersFirst ? null : latestAttempt(history[currentIndex]);
     if (savedResult) {
         // Restore "Practiced" state
         setEvaluation(savedResult);
@@ -230,26 +280,94 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentIndex]); 
 
+  // Role-play: the partner speaks first, then it is the learner's turn
+  useEffect(() => {
+    const text = partnerText(currentIndex);
+    if (text) playAudio(text);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentIndex]);
+
+  useEffect(() => {
+    onProgressChange?.({ currentIndex, unlockedIndex, history, checkpoints });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentIndex, unlockedIndex, history, checkpoints]);
+
+  // Keep the chat tutor in sync with the level on screen
+  useEffect(() => {
+    if (!currentSentence) return;
+    onContextChange?.({ levelNumber: currentIndex + 1, sentence: currentSentence, evaluation });
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [currentSentence, evaluation]);
+
+  const cancelAudioCapture = () => {
+    audioCaptureRef.current?.then(capture => capture?.cancel());
+    audioCaptureRef.current = null;
+  };
+
+  const finishAudioCapture = async (): Promise<RecordedAudio | null> => {
+    const capture = await audioCaptureRef.current;
+    audioCaptureRef.current = null;
+    return capture ? capture.stop() : null;
+  };
+
   // Handle Recording Completion -> Analyze Pronunciation
-  const handleRecordingComplete = async (transcript: string) => {
-    if (!transcript.trim()) return;
-    
+  const handleRecordingComplete = async (transcript: string, recording: Promise<RecordedAudio | null> | RecordedAudio | null = null) => {
     const recordingIndex = currentIndexRef.current;
+    if (recordingTargetRef.current.mode === 'translation') {
+        // A spoken translation only fills in the draft, so it can be checked before grading
+        await recording;
+        if (transcript.trim()) setTranslationDraft(prev => [prev.trim(), transcript.trim()].filter(Boolean).join(' '));
+        return;
+    }
     setIsEvaluating(true);
+    setEvaluationError(null);
+
+    const audio = await recording;
+    if (!transcript.trim() && !audio) {
+        setIsEvaluating(false);
+        return;
+    }
+    lastTranscriptRef.current = transcript;
+    lastAudioRef.current = audio;
+
+    const controller = new AbortController();
+    evaluationAbortRef.current = controller;
     
     try {
-        const result = await evaluatePronunciation(sentences[recordingIndex].english, transcript);
-        
+        const { mode, segment: range } = recordingTargetRef.current;
+        const target = sentences[recordingIndex];
+        // Words outside a shadowed phrase are blanked, which keeps alignment indexes sentence-wide
+        const targetWords = (target.words?.map(w => w.text) || target.english.split(' '))
+            .map((word, index) => !range || (index >= range.start && index <= range.end) ? word : '');
+        const alignment = alignWords(targetWords, transcript);
+        const evaluated = await evaluatePronunciation(range ? targetWords.filter(Boolean).join(' ') : target.english, transcript, {
+            signal: controller.signal,
+            audio,
+            alignment,
+            overlapping: mode === 'shadowing'
+        });
+        const result: EvaluationResult = mode === 'reading' ? evaluated : { ...evaluated, mode, ...(range ? { segment: range } : {}) };
         if (currentIndexRef.current !== recordingIndex) {
             console.log("Ignored stale evaluation result");
             return;
         }
 
+        addSentenceToDeck(sentences[recordingIndex]); // Practiced words join the review deck
+        logPractice({ type: 'recording', module, errorCount: result.errors.length });
+        if (!passedLevelsRef.current.has(recordingIndex)) {
+            passedLevelsRef.current.add(recordingIndex);
+            logPractice({ type: 'level', module });
+        }
+
         setEvaluation(result);
-        setHistory(prev => ({...prev, [recordingIndex]: result}));
+        setHistory(prev => ({...prev, [recordingIndex]: addAttempt(prev[recordingIndex], result)}));
         setShowAnalysis(true);
     } catch (e) {
         console.error("Evaluation failed", e);
+        const error = toAIError(e);
+        if (currentIndexRef.current === recordingIndex && error.kind !== 'aborted') {
+            setEvaluationError(error.kind);
+        }
     } finally {
         if (currentIndexRef.current === recordingIndex) {
             setIsEvaluating(false);
@@ -282,6 +400,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
       recognitionRef.current.onerror = (event: any) => {
         if (event.error === 'not-allowed' || event.error === 'service-not-allowed') {
              userStoppedRef.current = true; 
+             cancelAudioCapture();
              setIsRecording(false);
              alert("无法访问麦克风，请检查权限设置。");
         }
@@ -291,8 +410,8 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
           if (userStoppedRef.current) {
               setIsRecording(false);
               const totalText = (fullTranscriptRef.current + ' ' + transcriptRef.current).trim();
-              if (totalText.length > 0) {
-                 handleRecordingComplete(totalText);
+              if (totalText.length > 0 || audioCaptureRef.current) {
+                 handleRecordingComplete(totalText, finishAudioCapture());
               }
               fullTranscriptRef.current = '';
               transcriptRef.current = '';
@@ -320,7 +439,8 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentIndex]); 
 
-  const playBrowserTTS = (text: string, rate: number = 0.9) => {
+  // Resolves when the utterance ends
+  const playBrowserTTS = (text: string, rate: number = speechRate) => new Promise<void>(resolve => {
       const synth = window.speechSynthesis;
       if (audioTimerRef.current) clearTimeout(audioTimerRef.current);
       synth.cancel();
@@ -330,18 +450,26 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
       utterance.lang = 'en-US';
       utterance.rate = rate;
       
-      utterance.onend = () => setIsPlaying(false);
-      utterance.onerror = () => setIsPlaying(false);
+      utterance.onend = () => { setIsPlaying(false); resolve(); };
+      utterance.onerror = () => { setIsPlaying(false); resolve(); };
       
       synth.speak(utterance);
+  });
+
+  const stopPlayback = () => {
+    if (audioTimerRef.current) clearTimeout(audioTimerRef.current);
+    window.speechSynthesis.cancel();
+    activePlaybackRef.current?.stop();
+    activePlaybackRef.current = null;
+    setIsPlaying(false);
   };
 
-  const playAudio = async (text: string = currentSentence.english, rate: number = 0.9) => {
+  // Resolves when playback ends or is stopped
+  const playAudio = async (text: string = currentSentence.english, rate: number = speechRate): Promise<void> => {
     if (isPlaying || isRecording) return; 
 
-    // Cancel any browser TTS
-    window.speechSynthesis.cancel();
-    if (audioTimerRef.current) clearTimeout(audioTimerRef.current);
+    // Cancel any browser TTS or earlier playback
+    stopPlayback();
 
     // If preloading is still happening, this will show the loading spinner
     // If preload finished, this is near instant.
@@ -349,92 +477,135 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
 
     try {
         // Wait for the centralized loader (Preload or New Request)
-        const buffer = await loadAudioData(text);
+        const url = await loadAudioData(text);
 
-        if (!buffer) {
+        if (!url) {
             console.warn("AI Voice load failed, fallback to browser.");
             setIsAudioLoading(false);
-            playBrowserTTS(text, rate);
-            return;
+            return playBrowserTTS(text, rate);
         }
 
-        // Play AudioBuffer
-        if (audioContextRef.current) {
-             // Resume context if suspended (browser policy)
-             if (audioContextRef.current.state === 'suspended') {
-                await audioContextRef.current.resume();
-             }
-
-             // Stop previous source if any
-             if (activeSourceRef.current) {
-                 try { activeSourceRef.current.stop(); } catch(e){}
-             }
-
-             const source = audioContextRef.current.createBufferSource();
-             source.buffer = buffer;
-             source.playbackRate.value = rate; // Support speed control
-             source.connect(audioContextRef.current.destination);
-             
-             activeSourceRef.current = source;
-             
-             source.onended = () => {
-                 setIsPlaying(false);
-                 activeSourceRef.current = null;
-             };
-             
-             setIsAudioLoading(false); // Done loading/waiting, starting playback
-             setIsPlaying(true);
-             source.start();
-        } else {
-            throw new Error("Audio Context not available");
+        // <audio> keeps the pitch when the speed changes
+        const playback = playAtRate(url, rate);
+        activePlaybackRef.current = playback;
+        setIsAudioLoading(false); // Done loading/waiting, starting playback
+        setIsPlaying(true);
+        await playback.done;
+        if (activePlaybackRef.current === playback) {
+            activePlaybackRef.current = null;
+            setIsPlaying(false);
         }
-
     } catch (e) {
         console.error("Audio Playback Error:", e);
+        activePlaybackRef.current = null;
         setIsAudioLoading(false);
-        playBrowserTTS(text, rate); // Fallback
+        return playBrowserTTS(text, rate); // Fallback
     }
   };
 
-  const toggleRecording = (e: React.MouseEvent) => {
-    e.stopPropagation(); 
+  const startRecording = (target: { mode: PracticeMode; segment: WordRange | null } = { mode: 'reading', segment: null }) => {
     if (!recognitionRef.current) {
         alert("您的浏览器不支持语音识别。");
-        return;
+        return false;
     }
+    recordingTargetRef.current = target;
+    
+    setEvaluation(null);
+    setEvaluationError(null);
+    setActiveWordIndex(null); 
+    
+    transcriptRef.current = ''; 
+    fullTranscriptRef.current = '';
+    userStoppedRef.current = false;
+    
+    try {
+      recognitionRef.current.start();
+      setIsRecording(true);
+      audioCaptureRef.current = startAudioCapture();
+      return true;
+    } catch (e) {
+      console.error("Mic start error", e);
+      setIsRecording(false);
+      return false;
+    }
+  };
+
+  // Ends the recording; recognition's onend then evaluates it
+  const stopRecording = () => {
+    userStoppedRef.current = true;
+    recognitionRef.current?.stop();
+  };
+
+  // Ends the recording without evaluating it
+  const cancelRecording = () => {
+    userStoppedRef.current = true;
+    recognitionRef.current?.abort();
+    cancelAudioCapture();
+    transcriptRef.current = '';
+    fullTranscriptRef.current = '';
+    setIsRecording(false);
+  };
 
+  const toggleRecording = (e: React.MouseEvent) => {
+    e.stopPropagation(); 
     if (isRecording) {
-      // User wants to STOP
-      userStoppedRef.current = true;
-      recognitionRef.current.stop();
+      stopRecording();
     } else {
-      // User wants to START
-      if (isPlaying) {
-          if (audioTimerRef.current) clearTimeout(audioTimerRef.current);
-          window.speechSynthesis.cancel();
-          if (activeSourceRef.current) {
-             try { activeSourceRef.current.stop(); } catch(e){}
-          }
-          setIsPlaying(false);
-      }
-      
-      setEvaluation(null);
-      setActiveWordIndex(null); 
-      
-      transcriptRef.current = ''; 
-      fullTranscriptRef.current = '';
-      userStoppedRef.current = false;
-      
-      try {
-        recognitionRef.current.start();
-        setIsRecording(true);
-      } catch (e) {
-        console.error("Mic start error", e);
-        setIsRecording(false);
-      }
+      if (isPlaying) stopPlayback();
+      startRecording();
     }
   };
 
+  // --- Shadowing ---
+
+  const shadowingText = () => {
+    const words = currentSentence.words?.map(w => w.text) || currentSentence.english.split(' ');
+    return segment ? words.slice(segment.start, segment.end + 1).join(' ') : currentSentence.english;
+  };
+
+  const stopShadowing = () => {
+    shadowingRunRef.current++;
+    stopPlayback();
+    if (shadowingPhase === 'speak') cancelRecording();
+    setShadowingPhase('idle');
+  };
+
+  // Plays the phrase over and over until stopped
+  const loopShadowingPhrase = async () => {
+    const run = ++shadowingRunRef.current;
+    const text = shadowingText();
+    setShadowingPhase('loop');
+    while (shadowingRunRef.current === run) {
+      await playAudio(text);
+      await wait(LOOP_GAP_MS);
+    }
+  };
+
+  // Listen → pause → speak along with the audio while recording, then evaluate
+  const runShadowingCycle = async () => {
+    const run = ++shadowingRunRef.current;
+    const cancelled = () => shadowingRunRef.current !== run;
+    const text = shadowingText();
+
+    setShadowingPhase('listen');
+    await playAudio(text);
+    if (cancelled()) return;
+    setShadowingPhase('pause');
+    await wait(SHADOWING_PAUSE_MS);
+    if (cancelled()) return;
+
+    setShadowingPhase('speak');
+    if (!startRecording({ mode: 'shadowing', segment })) {
+      setShadowingPhase('idle');
+      return;
+    }
+    await playAudio(text);
+    await wait(SHADOWING_TAIL_MS);
+    if (cancelled()) return;
+    stopRecording();
+    setShadowingPhase('idle');
+  };
+
   const toggleTextVisibility = () => {
     if (showText) {
         setActiveWordIndex(null); // Close tooltips when hiding text
@@ -468,22 +639,52 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
       }
   };
 
+  const openCheckpoint = (stage: number) => {
+    if (shadowingPhase !== 'idle') stopShadowing();
+    if (isRecording) cancelRecording();
+    stopPlayback();
+    setCheckpointStage(stage);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
   const handleNext = () => {
+    if (isNextPending) return; // Next level is still being generated
     playSuccessSound();
     const nextIdx = currentIndex + 1;
+    const stage = Math.floor(currentIndex / LEVELS_PER_STAGE);
+    // The next stage opens only once this stage's checkpoint is passed
+    const leavesStage = nextIdx % LEVELS_PER_STAGE === 0 || nextIdx >= totalLevels;
+    if (leavesStage && nextIdx > unlockedIndex && hasCheckpoint(stage) && !checkpoints[stage]?.passed) {
+      openCheckpoint(stage);
+      return;
+    }
     if (nextIdx < sentences.length) {
       if (nextIdx > unlockedIndex) {
         setUnlockedIndex(nextIdx);
       }
       setCurrentIndex(nextIdx); 
       window.scrollTo({ top: 0, behavior: 'smooth' });
-    } else {
+    } else if (pendingLevelCount === 0) {
+      onComplete();
+    }
+  };
+
+  const continueAfterCheckpoint = () => {
+    if (checkpointStage === null) return;
+    const nextIdx = (checkpointStage + 1) * LEVELS_PER_STAGE;
+    setCheckpointStage(null);
+    if (nextIdx < sentences.length) {
+      setUnlockedIndex(prev => Math.max(prev, nextIdx));
+      setCurrentIndex(nextIdx);
+      window.scrollTo({ top: 0, behavior: 'smooth' });
+    } else if (nextIdx >= totalLevels) {
       onComplete();
     }
   };
 
   const handleJumpToLevel = (index: number) => {
     if (index <= unlockedIndex) {
+        setCheckpointStage(null);
         setCurrentIndex(index);
         window.scrollTo({ top: 0, behavior: 'smooth' });
     }
@@ -491,23 +692,110 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
 
   const handleWordClick = (e: React.MouseEvent, idx: number) => {
       e.stopPropagation(); 
-      if (!showText) return; // Disable click when hidden
+      if (textHidden) return; // Disable click when hidden
       setActiveWordIndex(activeWordIndex === idx ? null : idx);
   };
 
+  const switchPracticeMode = (mode: PracticeMode) => {
+    if (mode === practiceMode || isRecording || isEvaluating) return;
+    if (shadowingPhase !== 'idle') stopShadowing();
+    setPracticeMode(mode);
+    setActiveWordIndex(null);
+    setEvaluationError(null);
+    if (mode === 'dictation' || mode === 'cloze' || mode === 'translation') {
+        setEvaluation(null);
+        setShowAnalysis(false); // The analysis would give the answer away
+    } else {
+        const savedResult = latestAttempt(history[currentIndex]);
+        setEvaluation(savedResult);
+        setShowAnalysis(!!savedResult);
+    }
+  };
+
+  // Typed attempts count as a pass like a reading attempt
+  const saveTypedAttempt = (result: EvaluationResult) => {
+    addSentenceToDeck(currentSentence);
+    if (!passedLevelsRef.current.has(currentIndex)) {
+        passedLevelsRef.current.add(currentIndex);
+        logPractice({ type: 'level', module });
+    }
+    setEvaluation(result);
+    setHistory(prev => ({...prev, [currentIndex]: addAttempt(prev[currentIndex], result)}));
+  };
+
+  const handleDictationSubmit = (answer: string) => saveTypedAttempt(gradeDictation(currentSentence, answer));
+
+  const handleClozeSubmit = (items: ClozeItem[], answers: string[]) => saveTypedAttempt(gradeCloze(currentSentence, items, answers));
+
+  const handleTranslationSubmit = async (answer: string) => {
+    const level = currentIndex;
+    lastTranslationRef.current = answer;
+    setIsEvaluating(true);
+    setEvaluationError(null);
+    const controller = new AbortController();
+    evaluationAbortRef.current = controller;
+    try {
+        const result = await evaluateTranslation(currentSentence, answer, { signal: controller.signal });
+        if (currentIndexRef.current !== level) return;
+        saveTypedAttempt(result);
+    } catch (e) {
+        console.error("Translation grading failed", e);
+        const error = toAIError(e);
+        if (currentIndexRef.current === level && error.kind !== 'aborted') {
+            setEvaluationError(error.kind);
+        }
+    } finally {
+        if (currentIndexRef.current === level) {
+            setIsEvaluating(false);
+        }
+    }
+  };
+
+  const toggleTranslationRecording = () => {
+    if (isRecording) {
+      stopRecording();
+    } else {
+      if (isPlaying) stopPlayback();
+      startRecording({ mode: 'translation', segment: null });
+    }
+  };
+
   const renderSentenceWithFeedback = () => {
     // Use the detailed words array if available, otherwise fallback to simple split
     const words = currentSentence.words || currentSentence.english.split(' ').map(t => ({ text: t, ipa: '', chinese: '' }));
+
+    // Word diff from the local alignment: how each target word was heard, plus extra words
+    const alignedByIndex = new Map<number, AlignedWord>();
+    const insertionsAfter = new Map<number, string[]>();
+    const confidence = confidenceByWord(words.map(w => w.text), evaluation?.wordConfidence);
+    evaluation?.alignment?.words.forEach(w => {
+      if (w.op === 'insertion') insertionsAfter.set(w.targetIndex, [...(insertionsAfter.get(w.targetIndex) || []), w.spoken!]);
+      else alignedByIndex.set(w.targetIndex, w);
+    });
+    const typedAnswer = evaluation?.mode === 'dictation' || evaluation?.mode === 'cloze';
+    const labels = DIFF_LABELS[typedAnswer ? evaluation!.mode as 'dictation' | 'cloze' : 'reading'];
+    const renderInsertions = (index: number) => insertionsAfter.get(index)?.map((spoken, i) => (
+      <span key={`ins-${index}-${i}`} className="self-start mt-1 px-1.5 py-0.5 rounded-md text-sm font-bold text-sky-500 bg-sky-50 border border-dashed border-sky-200" title={labels.extra}>
+        +{spoken}
+      </span>
+    ));
     
     return (
-      <div className={`flex flex-wrap justify-center gap-x-1 gap-y-2 z-0 transition-all duration-300 ${!showText ? 'blur-md select-none grayscale opacity-60' : 'blur-0 opacity-100'}`}>
+      <div className={`flex flex-wrap justify-center gap-x-1 gap-y-2 z-0 transition-all duration-300 ${textHidden ? 'blur-md select-none grayscale opacity-60' : 'blur-0 opacity-100'}`}>
+        {renderInsertions(-1)}
         {words.map((wordObj, idx) => {
           const wordText = wordObj.text;
           const cleanWord = wordText.replace(/[.,!?;:"'()]/g, '').toLowerCase();
           
-          const error = evaluation?.errors?.find(e => e.word.toLowerCase() === cleanWord);
+          const aligned = alignedByIndex.get(idx);
+          // Typed answers' errors belong to a position, not to every occurrence of the word
+          const error = typedAnswer && aligned?.op !== 'substitution' && aligned?.op !== 'omission'
+            ? undefined
+            : evaluation?.errors?.find(e => e.word.toLowerCase() === cleanWord);
           const vocabItem = currentSentence.vocabAnalysis?.find(v => v.word.toLowerCase() === cleanWord);
           const isActive = activeWordIndex === idx;
+          const misheard = !error && aligned?.op === 'substitution';
+          const omitted = !error && aligned?.op === 'omission';
           
           let TooltipContent = null;
 
@@ -525,7 +813,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                       <button 
                           onClick={(e) => {
                               e.stopPropagation();
-                              playAudio(cleanWord, 0.9);
+                              playAudio(cleanWord);
                           }}
                           disabled={isPlaying}
                           className="w-8 h-8 rounded-full bg-white border border-red-100 shadow-sm flex items-center justify-center text-emerald-500 hover:bg-emerald-500 hover:text-white transition-all"
@@ -538,7 +826,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                       <div className="flex items-start gap-2 text-[10px] text-slate-600 leading-tight">
                           <i className="fas fa-exclamation-triangle text-red-400 mt-0.5 shrink-0"></i>
                           <div>
-                              <span className="font-bold text-red-500 block mb-0.5">发音纠正</span>
+                              <span className="font-bold text-red-500 block mb-0.5">{labels.correction}</span>
                               {error.tip}
                           </div>
                       </div>
@@ -565,7 +853,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                         <button 
                             onClick={(e) => {
                                 e.stopPropagation();
-                                playAudio(cleanWord, 0.9);
+                                playAudio(cleanWord);
                             }}
                             disabled={isPlaying}
                             className="w-8 h-8 rounded-full bg-white border border-emerald-100 shadow-sm flex items-center justify-center text-emerald-500 hover:bg-emerald-500 hover:text-white transition-all"
@@ -591,11 +879,16 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
           }
 
           return (
-            <div key={idx} className={`relative group flex flex-col items-center ${showText ? 'cursor-pointer' : 'cursor-default'} ${isActive ? 'z-[60]' : 'z-10'}`} onClick={(e) => handleWordClick(e, idx)}>
+            <React.Fragment key={idx}>
+            <div className={`relative group flex flex-col items-center ${!textHidden ? 'cursor-pointer' : 'cursor-default'} ${isActive ? 'z-[60]' : 'z-10'}`} onClick={(e) => handleWordClick(e, idx)}>
                 <span 
                     className={`transition-all px-1.5 py-0.5 rounded-lg border-b-2 text-xl md:text-2xl font-bold font-['Nunito']
                             ${error 
                                 ? isActive ? 'text-red-600 bg-red-50 border-red-300' : 'text-red-500 border-red-200 bg-red-50/30 hover:bg-red-50'
+                                : misheard
+                                ? isActive ? 'text-amber-700 bg-amber-50 border-amber-300' : 'text-amber-600 border-amber-200 bg-amber-50/30 hover:bg-amber-50'
+                                : omitted
+                                ? 'text-slate-400 border-dashed border-slate-300 hover:bg-slate-50'
                                 : isActive ? 'text-emerald-700 bg-emerald-50 border-emerald-300' : 'text-slate-700 border-transparent hover:text-emerald-600 hover:bg-slate-50'
                             }`}
                 >
@@ -608,7 +901,20 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                     </span>
                 )}
 
-                {isActive && showText && (
+                {confidence[idx] !== undefined && (
+                    <span className="w-full h-0.5 mt-0.5 bg-slate-100 rounded-full overflow-hidden" title={`把握度 ${Math.round(confidence[idx]! * 100)}%`}>
+                        <span className={`block h-full rounded-full ${confidence[idx]! >= 0.8 ? 'bg-emerald-300' : confidence[idx]! >= 0.5 ? 'bg-amber-300' : 'bg-rose-300'}`} style={{ width: `${confidence[idx]! * 100}%` }}></span>
+                    </span>
+                )}
+
+                {aligned?.op === 'substitution' && aligned.spoken && (
+                    <span className="text-[10px] font-bold text-amber-500 mt-0.5">{labels.changed}: {aligned.spoken}</span>
+                )}
+                {aligned?.op === 'omission' && (
+                    <span className="text-[10px] font-bold text-slate-400 mt-0.5">{labels.missing}</span>
+                )}
+
+                {isActive && !textHidden && (
                 <>
                     <div 
                         className="fixed inset-0 bg-black/20 z-[90] md:hidden" 
@@ -630,6 +936,8 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                 </>
                 )}
             </div>
+            {renderInsertions(idx)}
+            </React.Fragment>
           );
         })}
       </div>
@@ -637,6 +945,10 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
   };
 
   const currentImage = sentenceImages[currentIndex];
+  const stageCheckpoint = checkpoints[activeStage];
+  const activeStageEnd = Math.min((activeStage + 1) * LEVELS_PER_STAGE, totalLevels) - 1;
+  // A stage's checkpoint opens once its last level has been practiced
+  const isCheckpointOpen = !!stageCheckpoint || (activeStageEnd < sentences.length && (unlockedIndex > activeStageEnd || !!history[activeStageEnd]));
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-12 gap-8 items-start font-['Nunito']">
@@ -667,6 +979,7 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                                     : 'bg-slate-50 text-slate-500 border-slate-200 hover:bg-slate-100'}`}
                         >
                             Stage {idx + 1}
+                            {idx * LEVELS_PER_STAGE > unlockedIndex && <i className="fas fa-lock ml-1.5 text-[9px] opacity-60"></i>}
                         </button>
                     ))}
                 </div>
@@ -697,6 +1010,8 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                         const isActive = idx === currentIndex;
                         const isCompleted = idx < unlockedIndex || history[idx]; 
                         const isLocked = idx > unlockedIndex;
+                        const best = bestAttempt(history[idx]);
+                        const latest = latestAttempt(readingAttempts(history[idx]));
 
                         return (
                             <div key={s.id || idx} className={`relative transition-all duration-500 ${isActive ? 'scale-100 opacity-100' : 'opacity-80 hover:opacity-100'}`}>
@@ -728,10 +1043,58 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                                         {s.english}
                                     </div>
                                     {isLocked && <div className="mt-2 text-xs text-slate-300 flex items-center gap-1"><i className="fas fa-lock"></i> 待解锁</div>}
+                                    {best && typeof latest?.score === 'number' && (
+                                        <div className="mt-1.5 flex gap-3 text-[10px] font-bold text-slate-400">
+                                            <span title="最佳得分"><i className="fas fa-crown mr-1 text-amber-300"></i>{best.score}</span>
+                                            <span title={`最近得分（共 ${history[idx].length} 次）`}><i className="fas fa-clock-rotate-left mr-1 text-slate-300"></i>{latest.score}</span>
+                                        </div>
+                                    )}
                                 </button>
                             </div>
                         );
                     })}
+                    {Array.from({ length: pendingLevelCount }).map((_, offset) => {
+                        const idx = sentences.length + offset;
+                        const start = activeStage * LEVELS_PER_STAGE;
+                        if (idx < start || idx >= start + LEVELS_PER_STAGE) return null;
+
+                        return (
+                            <div key={`pending-${idx}`} className="relative opacity-70">
+                                <div className="absolute -left-[33px] top-1/2 transform -translate-y-1/2 w-4 h-4 rounded-full border-4 z-10 bg-slate-100 border-white box-content"></div>
+                                <div className="w-full text-left p-2.5 rounded-2xl border-2 border-dashed border-slate-100 bg-slate-50/50">
+                                    <span className="text-xs font-extrabold uppercase tracking-wider text-slate-300">
+                                        LEVEL {(idx % LEVELS_PER_STAGE) + 1}
+                                    </span>
+                                    <div className="mt-1 text-xs text-emerald-400 font-bold flex items-center gap-1 animate-pulse">
+                                        <i className="fas fa-circle-notch fa-spin"></i> 生成中...
+                                    </div>
+                                </div>
+                            </div>
+                        );
+                    })}
+                    {hasCheckpoint(activeStage) && (
+                        <div className="relative">
+                            <div className={`absolute -left-[35px] top-1/2 transform -translate-y-1/2 w-5 h-5 rounded-md rotate-45 border-4 z-10 box-content
+                                ${stageCheckpoint?.passed ? 'bg-amber-300 border-white' : 'bg-slate-200 border-white'}`}></div>
+                            <button
+                                onClick={() => openCheckpoint(activeStage)}
+                                disabled={!isCheckpointOpen || isRecording || isEvaluating}
+                                className={`w-full text-left p-2.5 rounded-2xl border-2 transition-all duration-300
+                                    ${checkpointStage === activeStage
+                                        ? 'bg-amber-50 border-amber-100 text-amber-900'
+                                        : isCheckpointOpen ? 'bg-white border-dashed border-amber-100 text-slate-600 hover:bg-amber-50/50' : 'bg-slate-50/50 border-transparent text-slate-300'}`}
+                            >
+                                <span className={`text-xs font-extrabold uppercase tracking-wider ${isCheckpointOpen ? 'text-amber-500' : 'text-slate-300'}`}>
+                                    <i className="fas fa-flag-checkered mr-1.5"></i>阶段测验
+                                </span>
+                                <div className="mt-1 text-xs font-bold">
+                                    {stageCheckpoint
+                                        ? <span className={stageCheckpoint.passed ? 'text-emerald-500' : 'text-slate-400'}>{stageCheckpoint.passed ? '已通过' : '未通过'} · 最佳 {stageCheckpoint.score} 分</span>
+                                        : isCheckpointOpen ? '完成本阶段，开始测验' : <span><i className="fas fa-lock mr-1"></i>完成本阶段所有关卡后开放</span>}
+                                </div>
+                            </button>
+                        </div>
+                    )}
                 </div>
             </div>
         </div>
@@ -744,149 +1107,279 @@ const PracticeSession: React.FC<PracticeSessionProps> = ({ sentences, onComplete
                     <i className="fas fa-layer-group mr-2 text-emerald-400"></i>
                     Difficulty: <span className="text-emerald-600 ml-1">{currentSentence.difficulty}</span>
                 </span>
+                <div className="flex bg-slate-50 rounded-full p-1 text-xs font-bold">
+                    {([['reading', 'fa-microphone', '跟读'], ['shadowing', 'fa-user-friends', '影子跟读'], ['dictation', 'fa-keyboard', '听写'], ['cloze', 'fa-pen', '填空'], ['translation', 'fa-language', '汉译英']] as const).map(([mode, icon, label]) => (
+                        <button
+                            key={mode}
+                            onClick={() => switchPracticeMode(mode)}
+                            disabled={isRecording || isEvaluating}
+                            className={`px-3 py-1 rounded-full transition-all ${practiceMode === mode ? 'bg-white text-emerald-600 shadow-sm' : 'text-slate-400 hover:text-emerald-500'}`}
+                        >
+                            <i className={`fas ${icon} mr-1.5`}></i>{label}
+                        </button>
+                    ))}
+                </div>
                 <div className="flex items-center gap-4">
                     <span className="text-xs font-bold text-slate-300 uppercase hidden sm:inline">Progress</span>
                     <div className="w-24 sm:w-48 bg-slate-100 rounded-full h-3 overflow-hidden p-0.5">
                         <div 
                             className="bg-gradient-to-r from-emerald-300 to-emerald-400 h-full rounded-full transition-all duration-700 ease-out shadow-sm" 
-                            style={{ width: `${((currentIndex + 1) / sentences.length) * 100}%` }}
+                            style={{ width: `${((currentIndex + 1) / totalLevels) * 100}%` }}
                         ></div>
                     </div>
-                    <span className="text-sm font-black text-emerald-500 w-12 text-right">{(currentIndex + 1)}<span className="text-slate-300 text-xs font-normal">/{sentences.length}</span></span>
+                    <span className="text-sm font-black text-emerald-500 w-12 text-right">{(currentIndex + 1)}<span className="text-slate-300 text-xs font-normal">/{totalLevels}</span></span>
                 </div>
             </div>
 
-            {/* Main Practice Card */}
-            <div className={`bg-white rounded-[3rem] shadow-[0_20px_60px_-10px_rgba(16,185,129,0.08)] border border-emerald-50/50 p-8 md:p-14 text-center mb-8 relative ${!enableImages ? 'pt-20' : ''}`}>
+            {checkpointStage !== null ? (
+                <CheckpointQuiz
+                    key={checkpointStage}
+                    stageNumber={checkpointStage + 1}
+                    levels={sentences.slice(checkpointStage * LEVELS_PER_STAGE, (checkpointStage + 1) * LEVELS_PER_STAGE)}
+                    best={checkpoints[checkpointStage]}
+                    isFinalStage={checkpointStage === totalStages - 1}
+                    isAudioBusy={isPlaying || isAudioLoading}
+                    onPlay={(text: string) => playAudio(text)}
+                    onFinish={(result: CheckpointResult) => setCheckpoints(prev => ({ ...prev, [checkpointStage]: betterCheckpointResult(prev[checkpointStage], result) }))}
+                    onContinue={continueAfterCheckpoint}
+                    onClose={() => setCheckpointStage(null)}
+                />
+            ) : (
+                <>
+                    {scenario && (
+                        <ScenarioDialogue
+                            scenario={scenario}
+                            sentences={sentences}
+                            currentIndex={currentIndex}
+                            isTurnDone={!!evaluation}
+                            showClosing={!!evaluation && currentIndex === totalLevels - 1}
+                            hideText={textHidden}
+                            isAudioBusy={isPlaying || isRecording || isAudioLoading}
+                            onPlayLines={(lines: DialogueLine[]) => playAudio(lines.map(line => line.english).join(' '))}
+                        />
+                    )}
+
+                    {/* Main Practice Card */}
+                    <div className={`bg-white rounded-[3rem] shadow-[0_20px_60px_-10px_rgba(16,185,129,0.08)] border border-emerald-50/50 p-8 md:p-14 text-center mb-8 relative ${!enableImages ? 'pt-20' : ''}`}>
                 
-                {enableImages && (
-                    <div className="relative z-10 mb-8 flex justify-center w-full">
-                         {currentImage ? (
-                            <div className="rounded-[2rem] overflow-hidden shadow-lg border-4 border-white max-w-sm w-full animate-fade-in-up">
-                                <img src={currentImage} alt="Scene" className="w-full h-auto object-cover aspect-[4/3]" />
-                            </div>
-                         ) : (
-                            <div className="w-full max-w-sm aspect-[4/3] bg-emerald-50/30 rounded-[2rem] border-2 border-dashed border-emerald-100 flex flex-col items-center justify-center text-emerald-300 gap-2">
-                                {loadingImage ? (
-                                    <>
-                                        <i className="fas fa-paint-brush animate-bounce text-2xl"></i>
-                                        <span className="text-sm font-bold animate-pulse">Drawing Scene...</span>
-                                    </>
-                                ) : (
-                                    <i className="fas fa-image text-3xl"></i>
-                                )}
+                        {enableImages && (
+                            <div className="relative z-10 mb-8 flex justify-center w-full">
+                                 {currentImage ? (
+                                    <div className="rounded-[2rem] overflow-hidden shadow-lg border-4 border-white max-w-sm w-full animate-fade-in-up">
+                                        <img src={currentImage} alt="Scene" className="w-full h-auto object-cover aspect-[4/3]" />
+                                    </div>
+                                 ) : (
+                                    <div className="w-full max-w-sm aspect-[4/3] bg-emerald-50/30 rounded-[2rem] border-2 border-dashed border-emerald-100 flex flex-col items-center justify-center text-emerald-300 gap-2">
+                                        {loadingImage ? (
+                                            <>
+                                                <i className="fas fa-paint-brush animate-bounce text-2xl"></i>
+                                                <span className="text-sm font-bold animate-pulse">Drawing Scene...</span>
+                                            </>
+                                        ) : (
+                                            <i className="fas fa-image text-3xl"></i>
+                                        )}
+                                    </div>
+                                 )}
                             </div>
-                         )}
-                    </div>
-                )}
+                        )}
                 
-                {!enableImages && (
-                    <div className="absolute top-0 right-0 p-10 opacity-5 pointer-events-none">
-                        <i className="fas fa-quote-right text-9xl text-emerald-600"></i>
-                    </div>
-                )}
+                        {!enableImages && (
+                            <div className="absolute top-0 right-0 p-10 opacity-5 pointer-events-none">
+                                <i className="fas fa-quote-right text-9xl text-emerald-600"></i>
+                            </div>
+                        )}
 
-                {/* Background Decor */}
-                <div className="absolute inset-0 rounded-[3rem] overflow-hidden pointer-events-none">
-                    <div className="absolute top-0 right-0 w-64 h-64 bg-emerald-50/50 rounded-full blur-3xl -mr-32 -mt-32"></div>
-                </div>
+                        {/* Background Decor */}
+                        <div className="absolute inset-0 rounded-[3rem] overflow-hidden pointer-events-none">
+                            <div className="absolute top-0 right-0 w-64 h-64 bg-emerald-50/50 rounded-full blur-3xl -mr-32 -mt-32"></div>
+                        </div>
                 
-                <div className="relative mb-12 min-h-[100px] flex items-start justify-center z-20">
-                    {renderSentenceWithFeedback()}
-                </div>
+                        <div className="relative mb-12 min-h-[100px] flex items-start justify-center z-20">
+                            {renderSentenceWithFeedback()}
+                        </div>
                 
-                {isEvaluating && (
-                    <div className="mb-8 font-bold text-emerald-500 animate-pulse flex items-center justify-center gap-2">
-                        <i className="fas fa-spinner fa-spin"></i>
-                        AI 正在分析您的发音...
-                    </div>
-                )}
+                        {isEvaluating && (
+                            <div className="mb-8 font-bold text-emerald-500 animate-pulse flex items-center justify-center gap-2">
+                                <i className="fas fa-spinner fa-spin"></i>
+                                {practiceMode === 'translation' ? 'AI 正在批改您的译文...' : 'AI 正在分析您的发音...'}
+                            </div>
+                        )}
                 
-                {evaluation && evaluation.feedback && !isEvaluating && (
-                     <div className="mb-8 text-emerald-600 font-medium bg-emerald-50/50 inline-block px-4 py-2 rounded-xl text-sm border border-emerald-100 animate-fade-in">
-                        <i className="fas fa-check-circle mr-2"></i>
-                        {evaluation.feedback}
-                     </div>
-                )}
+                        {evaluationError && !isEvaluating && (
+                            <div className="mb-8 max-w-md mx-auto">
+                                <ErrorNotice
+                                    kind={evaluationError}
+                                    onRetry={() => practiceMode === 'translation'
+                                        ? handleTranslationSubmit(lastTranslationRef.current)
+                                        : handleRecordingComplete(lastTranscriptRef.current, lastAudioRef.current)}
+                                    onDismiss={() => setEvaluationError(null)}
+                                />
+                            </div>
+                        )}
 
-                {/* 4. CONTROLS */}
-                <div className="flex flex-wrap items-start justify-center gap-6 md:gap-8 relative z-10">
-                    <button 
-                        onClick={() => playAudio()}
-                        disabled={isPlaying || isRecording || isAudioLoading}
-                        className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
-                            ${isPlaying || isRecording || isAudioLoading
-                                ? 'opacity-50 cursor-not-allowed bg-slate-50 text-slate-300 shadow-none'
-                                : 'text-emerald-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'
-                            }`}
-                        title="播放标准音"
-                    >
-                        {isAudioLoading ? (
-                            <i className="fas fa-circle-notch fa-spin"></i>
-                        ) : (
-                            <i className={`fas ${isPlaying ? 'fa-volume-high animate-pulse' : 'fa-volume-up transform group-hover:scale-110 transition-transform'}`}></i>
+                        {evaluation && evaluation.feedback && !isEvaluating && (
+                             <div className="mb-8 text-emerald-600 font-medium bg-emerald-50/50 inline-block px-4 py-2 rounded-xl text-sm border border-emerald-100 animate-fade-in">
+                                <i className="fas fa-check-circle mr-2"></i>
+                                {evaluation.feedback}
+                                {evaluation.assessedFrom && (
+                                    <span className="ml-2 text-[10px] font-bold text-emerald-400" title={evaluation.assessedFrom === 'audio' ? '根据录音中实际听到的发音评估' : '未能获取录音，仅对比了语音识别文本'}>
+                                        <i className={`fas ${evaluation.assessedFrom === 'audio' ? 'fa-wave-square' : 'fa-font'} mr-1`}></i>
+                                        {evaluation.assessedFrom === 'audio' ? '录音评估' : '文字评估'}
+                                    </span>
+                                )}
+                             </div>
                         )}
-                    </button>
 
-                    <div className="flex flex-col items-center gap-3">
-                        <button 
-                            onClick={toggleRecording}
-                            disabled={isPlaying || isEvaluating}
-                            className={`w-16 h-16 rounded-2xl transition-all duration-300 transform flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(16,185,129,0.3)]
-                                ${isPlaying || isEvaluating ? 'opacity-50 cursor-not-allowed grayscale' : 'hover:-translate-y-1'}
-                                ${isRecording 
-                                    ? 'bg-red-500 text-white shadow-red-200 scale-105 ring-4 ring-red-100' 
-                                    : 'bg-gradient-to-tr from-emerald-400 to-emerald-300 text-white hover:shadow-emerald-200'}`}
-                            title={isRecording ? "停止录音" : "开始跟读"}
-                        >
-                            <div className={`relative z-10 ${isRecording ? 'animate-pulse' : ''}`}>
-                                <i className={`fas ${isRecording ? 'fa-stop' : 'fa-microphone'}`}></i>
+                        {evaluation && !isEvaluating && (
+                            <PronunciationScoreCard evaluation={evaluation} attempts={readingAttempts(history[currentIndex])} />
+                        )}
+
+                        {practiceMode === 'shadowing' && (
+                            <ShadowingPanel
+                                words={currentSentence.words?.map(w => w.text) || currentSentence.english.split(' ')}
+                                segment={segment}
+                                onSegmentChange={setSegment}
+                                phase={shadowingPhase}
+                                isBusy={isPlaying || isAudioLoading || isRecording || isEvaluating}
+                                onLoop={loopShadowingPhrase}
+                                onCycle={runShadowingCycle}
+                                onStop={stopShadowing}
+                            />
+                        )}
+
+                        {isDictation && (
+                            <DictationInput
+                                graded={evaluation?.mode === 'dictation' ? evaluation : null}
+                                isAudioBusy={isPlaying || isAudioLoading}
+                                onPlay={(rate?: number) => playAudio(currentSentence.english, rate)}
+                                onSubmit={handleDictationSubmit}
+                                onRetry={() => setEvaluation(null)}
+                            />
+                        )}
+
+                        {practiceMode === 'translation' && (
+                            <TranslationPanel
+                                sentence={currentSentence}
+                                draft={translationDraft}
+                                onDraftChange={setTranslationDraft}
+                                graded={evaluation?.mode === 'translation' ? evaluation : null}
+                                isRecording={isRecording}
+                                isBusy={isEvaluating}
+                                onToggleRecording={toggleTranslationRecording}
+                                onSubmit={handleTranslationSubmit}
+                                onRetry={() => setEvaluation(null)}
+                            />
+                        )}
+
+                        {practiceMode === 'cloze' && (
+                            <ClozeExercise
+                                sentence={currentSentence}
+                                graded={evaluation?.mode === 'cloze' ? evaluation : null}
+                                onSubmit={handleClozeSubmit}
+                                onRetry={() => setEvaluation(null)}
+                            />
+                        )}
+
+                        {/* 4. CONTROLS */}
+                        <div className="flex flex-wrap items-start justify-center gap-6 md:gap-8 relative z-10">
+                            <button 
+                                onClick={() => playAudio()}
+                                disabled={isPlaying || isRecording || isAudioLoading}
+                                className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
+                                    ${isPlaying || isRecording || isAudioLoading
+                                        ? 'opacity-50 cursor-not-allowed bg-slate-50 text-slate-300 shadow-none'
+                                        : 'text-emerald-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'
+                                    }`}
+                                title="播放标准音"
+                            >
+                                {isAudioLoading ? (
+                                    <i className="fas fa-circle-notch fa-spin"></i>
+                                ) : (
+                                    <i className={`fas ${isPlaying ? 'fa-volume-high animate-pulse' : 'fa-volume-up transform group-hover:scale-110 transition-transform'}`}></i>
+                                )}
+                            </button>
+
+                            {practiceMode === 'reading' && (
+                            <div className="flex flex-col items-center gap-3">
+                                <button 
+                                    onClick={toggleRecording}
+                                    disabled={isPlaying || isEvaluating}
+                                    className={`w-16 h-16 rounded-2xl transition-all duration-300 transform flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(16,185,129,0.3)]
+                                        ${isPlaying || isEvaluating ? 'opacity-50 cursor-not-allowed grayscale' : 'hover:-translate-y-1'}
+                                        ${isRecording 
+                                            ? 'bg-red-500 text-white shadow-red-200 scale-105 ring-4 ring-red-100' 
+                                            : 'bg-gradient-to-tr from-emerald-400 to-emerald-300 text-white hover:shadow-emerald-200'}`}
+                                    title={isRecording ? "停止录音" : "开始跟读"}
+                                >
+                                    <div className={`relative z-10 ${isRecording ? 'animate-pulse' : ''}`}>
+                                        <i className={`fas ${isRecording ? 'fa-stop' : 'fa-microphone'}`}></i>
+                                    </div>
+                                    {!isRecording && !isPlaying && <div className="absolute inset-0 bg-white opacity-20 rounded-[2rem] scale-0 group-hover:scale-100 transition-transform rounded-full"></div>}
+                                </button>
+                                <span className={`text-xs font-bold uppercase tracking-widest ${isRecording ? 'text-red-500 animate-pulse' : 'text-slate-300'}`}>
+                                    {isRecording ? "点击完成" : "点击跟读"}
+                                </span>
                             </div>
-                            {!isRecording && !isPlaying && <div className="absolute inset-0 bg-white opacity-20 rounded-[2rem] scale-0 group-hover:scale-100 transition-transform rounded-full"></div>}
-                        </button>
-                        <span className={`text-xs font-bold uppercase tracking-widest ${isRecording ? 'text-red-500 animate-pulse' : 'text-slate-300'}`}>
-                            {isRecording ? "点击完成" : "点击跟读"}
-                        </span>
-                    </div>
+                            )}
 
-                    <button 
-                        onClick={toggleTextVisibility}
-                        className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
-                            ${!showText 
-                                ? 'bg-emerald-50 text-emerald-600 border-emerald-200 shadow-inner' 
-                                : 'text-slate-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'}`}
-                        title={showText ? "隐藏文本 (盲听模式)" : "显示文本"}
-                    >
-                        <i className={`fas ${showText ? 'fa-eye' : 'fa-eye-slash'}`}></i>
-                    </button>
-
-                    <button 
-                        onClick={() => setShowAnalysis(!showAnalysis)}
-                        className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
-                            ${showAnalysis 
-                                ? 'bg-emerald-50 text-emerald-600 border-emerald-200 shadow-inner' 
-                                : 'text-slate-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'}`}
-                        title={showAnalysis ? "隐藏解析" : "查看解析"}
-                    >
-                        <i className="fas fa-glasses"></i>
-                    </button>
+                            <button 
+                                onClick={toggleTextVisibility}
+                                className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
+                                    ${!showText 
+                                        ? 'bg-emerald-50 text-emerald-600 border-emerald-200 shadow-inner' 
+                                        : 'text-slate-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'}`}
+                                title={showText ? "隐藏文本 (盲听模式)" : "显示文本"}
+                            >
+                                <i className={`fas ${showText ? 'fa-eye' : 'fa-eye-slash'}`}></i>
+                            </button>
+
+                            <button 
+                                onClick={() => setShowAnalysis(!showAnalysis)}
+                                className={`group w-16 h-16 rounded-2xl bg-white border border-emerald-100 flex items-center justify-center text-xl shadow-[0_10px_20px_-5px_rgba(0,0,0,0.05)] transition-all
+                                    ${showAnalysis 
+                                        ? 'bg-emerald-50 text-emerald-600 border-emerald-200 shadow-inner' 
+                                        : 'text-slate-400 hover:bg-emerald-50 hover:text-emerald-500 hover:shadow-[0_15px_30px_-5px_rgba(16,185,129,0.15)] hover:-translate-y-1'}`}
+                                title={showAnalysis ? "隐藏解析" : "查看解析"}
+                            >
+                                <i className="fas fa-glasses"></i>
+                            </button>
+
+                            {evaluation && (
+                                <button 
+                                    onClick={handleNext}
+                                    disabled={isNextPending}
+                                    className={`w-16 h-16 rounded-2xl text-white transition-all flex items-center justify-center text-xl shadow-lg
+                                        ${isNextPending
+                                            ? 'bg-slate-200 cursor-wait shadow-none'
+                                            : 'bg-gradient-to-br from-sky-400 to-blue-500 hover:from-sky-500 hover:to-blue-600 hover:shadow-sky-200 hover:-translate-y-1 animate-bounce-short'}`}
+                                    title={isNextPending ? "下一关生成中..." : "下一句"}
+                                >
+                                    <i className={`fas ${isNextPending ? 'fa-circle-notch fa-spin' : 'fa-arrow-right'}`}></i>
+                                </button>
+                            )}
+                        </div>
 
-                    {evaluation && (
-                        <button 
-                            onClick={handleNext}
-                            className="w-16 h-16 rounded-2xl bg-gradient-to-br from-sky-400 to-blue-500 text-white hover:from-sky-500 hover:to-blue-600 transition-all flex items-center justify-center text-xl shadow-lg hover:shadow-sky-200 hover:-translate-y-1 animate-bounce-short"
-                            title="下一句"
-                        >
-                            <i className="fas fa-arrow-right"></i>
-                        </button>
-                    )}
-                </div>
-            </div>
+                        <div className="mt-6 flex flex-wrap justify-center items-center gap-1 text-xs font-bold relative z-10">
+                            <span className="text-slate-300 uppercase tracking-widest mr-2">语速</span>
+                            {SPEECH_RATES.map(rate => (
+                                <button
+                                    key={rate}
+                                    onClick={() => setSpeechRate(rate)}
+                                    disabled={shadowingPhase !== 'idle'} // A running loop keeps the speed it started with
+                                    className={`px-2.5 py-1 rounded-full transition-all disabled:opacity-40 ${speechRate === rate ? 'bg-emerald-100 text-emerald-700' : 'text-slate-400 hover:text-emerald-500'}`}
+                                >
+                                    {rate}x
+                                </button>
+                            ))}
+                        </div>
+                    </div>
 
-            {showAnalysis && (
-                <div className="animate-slide-up pb-20">
-                    <AnalysisPanel sentence={currentSentence} />
-                </div>
+                    {showAnalysis && (
+                        <div className="animate-slide-up pb-20">
+                            <AnalysisPanel sentence={currentSentence} />
+                        </div>
+                    )}
+                </>
             )}
         </div>
     </div>
@@ -0,0 +1,54 @@
+import React from 'react';
+import { EvaluationResult, PronunciationScores } from '../types';
+import { bestAttempt } from '../services/pronunciationScores';
+
+interface PronunciationScoreCardProps {
+  evaluation: EvaluationResult; // The attempt on screen
+  attempts: EvaluationResult[]; // All attempts at this level, for the best score
+}
+
+const SCORE_LABELS: { key: keyof PronunciationScores; label: string; hint: string }[] = [
+  { key: 'accuracy', label: '准确度', hint: '音素发音的准确程度' },
+  { key: 'completeness', label: '完整度', hint: '读出了标准句子中多少单词' },
+  { key: 'fluency', label: '流利度', hint: '语速、停顿和连读是否自然' },
+];
+
+const scoreColor = (score: number) =>
+  score >= 80 ? 'text-emerald-500' : score >= 60 ? 'text-amber-500' : 'text-rose-500';
+
+const barColor = (score: number) =>
+  score >= 80 ? 'bg-emerald-400' : score >= 60 ? 'bg-amber-400' : 'bg-rose-400';
+
+const PronunciationScoreCard: React.FC<PronunciationScoreCardProps> = ({ evaluation, attempts }) => {
+  const { scores, score } = evaluation;
+  if (!scores || typeof score !== 'number') return null;
+  const best = bestAttempt(attempts);
+
+  return (
+    <div className="mb-8 max-w-md mx-auto flex items-center gap-5 bg-white border border-emerald-50 rounded-2xl px-5 py-3 shadow-sm animate-fade-in">
+      <div className="text-center shrink-0">
+        <div className={`text-3xl font-extrabold ${scoreColor(score)}`}>{score}</div>
+        <div className="text-[10px] font-bold text-slate-400">总分</div>
+      </div>
+      <div className="flex-1 space-y-1.5">
+        {SCORE_LABELS.map(({ key, label, hint }) => (
+          <div key={key} className="flex items-center gap-2 text-xs" title={hint}>
+            <span className="w-10 font-bold text-slate-500 text-left">{label}</span>
+            <div className="flex-1 h-1.5 bg-slate-100 rounded-full overflow-hidden">
+              <div className={`h-full rounded-full ${barColor(scores[key])}`} style={{ width: `${scores[key]}%` }}></div>
+            </div>
+            <span className="w-7 text-right font-bold text-slate-600">{scores[key]}</span>
+          </div>
+        ))}
+      </div>
+      {attempts.length > 1 && best && (
+        <div className="text-center shrink-0 border-l border-slate-100 pl-4" title={`本关共练习 ${attempts.length} 次`}>
+          <div className="text-lg font-extrabold text-slate-600">{best.score}</div>
+          <div className="text-[10px] font-bold text-slate-400">最佳</div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PronunciationScoreCard;
@@ -0,0 +1,66 @@
+import React from 'react';
+import { CourseModule, SavedSession } from '../types';
+
+interface ResumeSessionCardProps {
+  session: SavedSession;
+  onResume: () => void;
+  onDiscard: () => void;
+}
+
+const MODULE_INFO: Record<CourseModule, { label: string; icon: string }> = {
+  article: { label: '文章', icon: 'fa-book-open' },
+  vocab: { label: '单词', icon: 'fa-tags' },
+  scenario: { label: '场景', icon: 'fa-briefcase' },
+};
+
+const formatSavedAt = (timestamp: number) => {
+  const minutes = Math.round((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '刚刚';
+  if (minutes < 60) return `${minutes} 分钟前`;
+  if (minutes < 24 * 60) return `${Math.round(minutes / 60)} 小时前`;
+  return new Date(timestamp).toLocaleDateString();
+};
+
+const ResumeSessionCard: React.FC<ResumeSessionCardProps> = ({ session, onResume, onDiscard }) => {
+  const { module, title, sentences, progress } = session;
+  const info = MODULE_INFO[module];
+  const practiced = Object.keys(progress.history).length;
+  const percent = Math.round((practiced / sentences.length) * 100);
+
+  return (
+    <div className="mb-6 bg-white rounded-[2rem] shadow-sm border border-emerald-100 p-5 flex flex-col sm:flex-row sm:items-center gap-4 animate-fade-in">
+      <div className="w-12 h-12 rounded-2xl bg-emerald-100 text-emerald-600 flex items-center justify-center text-xl shrink-0">
+        <i className="fas fa-history"></i>
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="text-xs font-black text-emerald-500 uppercase tracking-widest mb-1">继续上次的学习</div>
+        <div className="font-bold text-slate-800 truncate">
+          <i className={`fas ${info.icon} text-slate-300 mr-2`}></i>{title}
+        </div>
+        <div className="text-xs text-slate-400 mt-1 flex flex-wrap gap-x-3">
+          <span>{info.label} · 第 {progress.currentIndex + 1} / {sentences.length} 关</span>
+          <span>已练习 {percent}%</span>
+          <span>{formatSavedAt(session.savedAt)}</span>
+          {session.isPartial && <span className="text-amber-500">课程未生成完整</span>}
+        </div>
+      </div>
+      <div className="flex gap-2 shrink-0">
+        <button
+          onClick={onDiscard}
+          className="px-4 py-3 rounded-xl text-sm font-bold text-slate-400 hover:text-red-500 hover:bg-red-50 transition-all"
+          title="放弃此课程"
+        >
+          <i className="fas fa-trash-alt"></i>
+        </button>
+        <button
+          onClick={onResume}
+          className="px-6 py-3 rounded-xl text-sm font-bold text-white bg-gradient-to-r from-green-500 to-emerald-500 hover:shadow-lg hover:shadow-green-200 transition-all"
+        >
+          继续学习<i className="fas fa-arrow-right ml-2"></i>
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ResumeSessionCard;
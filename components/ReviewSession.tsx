@@ -0,0 +1,215 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ReviewCard, ReviewGrade } from '../types';
+import { getCachedSpeech } from '../services/mediaCache';
+import { playPCM } from '../services/audio';
+import { getDueCards, gradeCard, scheduleCard, formatInterval, getDeckStats } from '../services/reviewDeck';
+import { logPractice, startTimeTracking } from '../services/activityLog';
+
+interface ReviewSessionProps {
+  onExit: () => void;
+}
+
+const GRADES: { grade: ReviewGrade; label: string; key: string; style: string }[] = [
+  { grade: 'again', label: '忘了', key: '1', style: 'border-red-100 text-red-500 hover:bg-red-50' },
+  { grade: 'hard', label: '模糊', key: '2', style: 'border-amber-100 text-amber-600 hover:bg-amber-50' },
+  { grade: 'good', label: '记得', key: '3', style: 'border-emerald-100 text-emerald-600 hover:bg-emerald-50' },
+  { grade: 'easy', label: '太简单', key: '4', style: 'border-sky-100 text-sky-600 hover:bg-sky-50' },
+];
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Splits the sentence around the reviewed word so it can be highlighted in place
+const highlightWord = (sentence: string, word: string): React.ReactNode[] => {
+  const pattern = new RegExp(`(${escapeRegExp(word)})`, 'i');
+  return sentence.split(pattern).map((part, idx) =>
+    idx % 2 === 1
+      ? <span key={idx} className="text-emerald-600 bg-emerald-50 border-b-2 border-emerald-300 px-1 rounded">{part}</span>
+      : <React.Fragment key={idx}>{part}</React.Fragment>
+  );
+};
+
+const ReviewSession: React.FC<ReviewSessionProps> = ({ onExit }) => {
+  const [queue, setQueue] = useState<ReviewCard[]>(() => getDueCards());
+  const [isRevealed, setIsRevealed] = useState(false);
+  const [reviewedCount, setReviewedCount] = useState(0);
+  const [playingText, setPlayingText] = useState<string | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+
+  const card = queue[0];
+
+  useEffect(() => startTimeTracking('review'), []);
+
+  useEffect(() => {
+    return () => {
+      audioContextRef.current?.close();
+      audioContextRef.current = null;
+    };
+  }, []);
+
+  const playText = async (text: string) => {
+    if (playingText) return;
+    setPlayingText(text);
+    try {
+      const bytes = await getCachedSpeech(text);
+      if (!bytes) throw new Error("No audio returned");
+      if (!audioContextRef.current) {
+        const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+        audioContextRef.current = new AudioContext();
+      }
+      await playPCM(bytes, audioContextRef.current);
+      setPlayingText(null);
+    } catch (error) {
+      console.error("Review audio failed, falling back to browser TTS:", error);
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = 'en-US';
+      utterance.onend = () => setPlayingText(null);
+      utterance.onerror = () => setPlayingText(null);
+      window.speechSynthesis.speak(utterance);
+    }
+  };
+
+  // Hear the context sentence as soon as a card comes up
+  useEffect(() => {
+    if (card) playText(card.context.english);
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [card?.id, queue.length]);
+
+  const handleGrade = (grade: ReviewGrade) => {
+    if (!card || !isRevealed) return;
+    const updated = gradeCard(card.id, grade);
+    logPractice({ type: 'review', grade });
+    setReviewedCount(count => count + 1);
+    setIsRevealed(false);
+    // Forgotten cards come back at the end of this session
+    setQueue(prev => (grade === 'again' && updated ? [...prev.slice(1), updated] : prev.slice(1)));
+  };
+
+  // Keyboard: space reveals, 1-4 grade
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      if (e.key === ' ' && !isRevealed) {
+        e.preventDefault();
+        setIsRevealed(true);
+        return;
+      }
+      const match = GRADES.find(g => g.key === e.key);
+      if (match) handleGrade(match.grade);
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  if (!card) {
+    const stats = getDeckStats();
+    return (
+      <div className="max-w-xl mx-auto mt-12 text-center bg-white p-12 rounded-[2.5rem] shadow-xl border border-slate-100 animate-slide-up">
+        <div className="w-24 h-24 bg-gradient-to-br from-rose-400 to-pink-500 text-white rounded-3xl flex items-center justify-center mx-auto mb-8 text-4xl shadow-lg transform -rotate-6">
+          <i className="fas fa-brain"></i>
+        </div>
+        <h2 className="text-3xl font-extrabold text-slate-800 mb-4">
+          {reviewedCount > 0 ? '今日复习完成！' : '暂时没有要复习的单词'}
+        </h2>
+        <p className="text-slate-500 mb-10 leading-relaxed">
+          {reviewedCount > 0
+            ? `本次复习了 ${reviewedCount} 次，词库共 ${stats.total} 个单词，其中 ${stats.mature} 个已牢固掌握。`
+            : stats.total > 0
+              ? `词库中的 ${stats.total} 个单词都还没到复习时间，明天再来吧。`
+              : '完成练习关卡后，重点词汇会自动加入复习词库。'}
+        </p>
+        <button
+          onClick={onExit}
+          className="px-12 py-5 bg-gradient-to-r from-rose-400 to-pink-500 text-white font-bold text-lg rounded-2xl hover:shadow-xl hover:shadow-pink-200 hover:-translate-y-1 transition-all duration-200"
+        >
+          <i className="fas fa-arrow-left mr-2"></i>返回
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-2xl mx-auto mt-4 font-['Nunito'] animate-fade-in">
+      <div className="mb-6 flex justify-between items-center bg-white px-6 py-4 rounded-[2rem] shadow-sm border border-rose-50">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400 flex items-center bg-slate-50 px-3 py-1 rounded-full">
+          <i className="fas fa-brain mr-2 text-rose-400"></i>每日复习
+        </span>
+        <span className="text-sm font-black text-rose-500">
+          剩余 {queue.length}<span className="text-slate-300 text-xs font-normal ml-2">已复习 {reviewedCount}</span>
+        </span>
+      </div>
+
+      <div className="bg-white rounded-[3rem] shadow-[0_20px_60px_-10px_rgba(244,63,94,0.08)] border border-rose-50/50 p-8 md:p-12 text-center">
+        {card.isUserWord && (
+          <span className="inline-block mb-4 text-[10px] font-black uppercase tracking-wider text-amber-500 bg-amber-50 px-2 py-1 rounded">
+            <i className="fas fa-star mr-1"></i>我的单词
+          </span>
+        )}
+
+        <p className="text-2xl md:text-3xl font-bold text-slate-700 leading-relaxed mb-6">
+          {highlightWord(card.context.english, card.word)}
+        </p>
+
+        <div className="flex justify-center gap-3 mb-8">
+          <button
+            onClick={() => playText(card.context.english)}
+            disabled={!!playingText}
+            className="w-12 h-12 rounded-2xl bg-white border border-rose-100 text-rose-400 hover:bg-rose-50 transition-all disabled:opacity-50"
+            title="播放例句"
+          >
+            <i className={`fas ${playingText === card.context.english ? 'fa-volume-high animate-pulse' : 'fa-volume-up'}`}></i>
+          </button>
+          <button
+            onClick={() => playText(card.word)}
+            disabled={!!playingText}
+            className="px-4 h-12 rounded-2xl bg-white border border-rose-100 text-rose-400 hover:bg-rose-50 font-bold text-sm transition-all disabled:opacity-50"
+            title="播放单词"
+          >
+            <i className="fas fa-volume-down mr-2"></i>{card.word}
+          </button>
+        </div>
+
+        {!isRevealed ? (
+          <>
+            <p className="text-slate-400 text-sm mb-6">高亮的单词在这句话里是什么意思？想好后再看答案。</p>
+            <button
+              onClick={() => setIsRevealed(true)}
+              className="px-10 py-4 rounded-2xl font-bold text-white bg-gradient-to-r from-rose-400 to-pink-500 hover:shadow-lg hover:shadow-pink-200 transition-all"
+            >
+              显示答案 <span className="ml-2 text-white/60 text-xs">空格</span>
+            </button>
+          </>
+        ) : (
+          <div className="animate-fade-in">
+            <div className="bg-rose-50/40 rounded-2xl p-5 mb-8 text-left border border-rose-50">
+              <div className="flex items-center gap-2 flex-wrap mb-2">
+                <span className="text-xl font-extrabold text-slate-800">{card.word}</span>
+                {card.ipa && <span className="font-mono text-sm text-rose-500">/{card.ipa.replace(/^\/|\/$/g, '')}/</span>}
+                <span className="text-[10px] uppercase font-black tracking-wider bg-white px-1.5 py-0.5 rounded border border-rose-100 text-rose-400">{card.pos}</span>
+              </div>
+              <div className="text-lg font-bold text-slate-700 mb-1">{card.meaning}</div>
+              <div className="text-sm text-slate-500 italic mb-3">{card.usage}</div>
+              <div className="text-sm text-slate-400 border-t border-rose-100 pt-3">{card.context.chinese}</div>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {GRADES.map(({ grade, label, key, style }) => (
+                <button
+                  key={grade}
+                  onClick={() => handleGrade(grade)}
+                  className={`py-3 rounded-2xl border-2 bg-white font-bold transition-all ${style}`}
+                >
+                  <div>{label}</div>
+                  <div className="text-[10px] font-medium opacity-70">
+                    {formatInterval(scheduleCard(card, grade))} · {key}
+                  </div>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,101 @@
+import React from 'react';
+import { DialogueLine, Scenario, SentenceData } from '../types';
+
+interface ScenarioDialogueProps {
+  scenario: Scenario;
+  sentences: SentenceData[];
+  currentIndex: number;
+  isTurnDone: boolean; // The learner has already spoken the current line
+  showClosing: boolean; // The learner has finished their last line
+  hideText: boolean; // Blind listening mode: partner lines are heard, not read
+  isAudioBusy: boolean;
+  onPlayLines: (lines: DialogueLine[]) => void;
+}
+
+const ScenarioDialogue: React.FC<ScenarioDialogueProps> = ({
+  scenario, sentences, currentIndex, isTurnDone, showClosing, hideText, isAudioBusy, onPlayLines
+}) => {
+  const { learnerRole, partnerRole } = scenario;
+
+  const renderPartnerLines = (lines: DialogueLine[], isCurrent: boolean, key: string) => {
+    if (lines.length === 0) return null;
+    return (
+      <div key={key} className="flex justify-start items-end gap-2">
+        <div className="w-8 h-8 rounded-full bg-sky-100 text-sky-500 flex items-center justify-center text-xs shrink-0">
+          <i className="fas fa-user-tie"></i>
+        </div>
+        <div className={`max-w-[80%] rounded-2xl rounded-bl-none p-3 border text-left transition-all
+          ${isCurrent ? 'bg-white border-sky-200 shadow-md shadow-sky-50' : 'bg-white/70 border-slate-100'}`}>
+          <div className="flex items-center justify-between gap-3 mb-1">
+            <span className="text-[10px] font-black uppercase tracking-wider text-sky-400">{partnerRole.name}</span>
+            <button
+              onClick={() => onPlayLines(lines)}
+              disabled={isAudioBusy}
+              className="w-6 h-6 rounded-full text-sky-400 hover:bg-sky-50 hover:text-sky-600 transition-all disabled:opacity-40"
+              title="播放对方台词"
+            >
+              <i className="fas fa-volume-up text-xs"></i>
+            </button>
+          </div>
+          {lines.map((line, idx) => (
+            <div key={idx} className={`mb-1 last:mb-0 transition-all ${hideText && isCurrent ? 'blur-sm select-none' : ''}`}>
+              <div className={`font-bold leading-snug ${isCurrent ? 'text-slate-800' : 'text-slate-500 text-sm'}`}>{line.english}</div>
+              <div className="text-xs text-slate-400">{line.chinese}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+    );
+  };
+
+  const renderLearnerLine = (sentence: SentenceData, key: string) => (
+    <div key={key} className="flex justify-end">
+      <div className="max-w-[80%] rounded-2xl rounded-br-none px-3 py-2 bg-emerald-50 border border-emerald-100 text-right">
+        <div className="text-[10px] font-black uppercase tracking-wider text-emerald-400 mb-0.5">{learnerRole.name}</div>
+        <div className="text-sm font-bold text-emerald-800 leading-snug">{sentence.english}</div>
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="mb-8 bg-white rounded-[2rem] shadow-sm border border-sky-50 overflow-hidden">
+      <div className="px-6 py-4 bg-sky-50/50 border-b border-sky-50">
+        <h3 className="font-extrabold text-slate-800 text-lg">
+          <i className="fas fa-briefcase text-sky-400 mr-2"></i>{scenario.title}
+        </h3>
+        {scenario.setting && <p className="text-sm text-slate-500 mt-1">{scenario.setting}</p>}
+        <div className="flex flex-wrap gap-2 mt-3 text-xs font-bold">
+          <span className="px-2.5 py-1 rounded-lg bg-emerald-100 text-emerald-700" title={learnerRole.description}>
+            <i className="fas fa-user mr-1"></i>你: {learnerRole.name}
+          </span>
+          <span className="px-2.5 py-1 rounded-lg bg-sky-100 text-sky-700" title={partnerRole.description}>
+            <i className="fas fa-user-tie mr-1"></i>对方: {partnerRole.name}
+          </span>
+        </div>
+      </div>
+
+      <div className="p-6 space-y-3 max-h-[360px] overflow-y-auto custom-scrollbar bg-slate-50/50">
+        {scenario.exchanges.slice(0, currentIndex + 1).map((exchange, idx) => {
+          const isCurrent = idx === currentIndex;
+          return (
+            <React.Fragment key={idx}>
+              {renderPartnerLines(exchange.partnerLines, isCurrent, `partner-${idx}`)}
+              {isCurrent && !isTurnDone ? (
+                <div className="flex justify-end">
+                  <div className="rounded-2xl rounded-br-none px-4 py-2 border-2 border-dashed border-emerald-200 text-emerald-500 text-sm font-bold animate-pulse">
+                    <i className="fas fa-microphone mr-2"></i>轮到你了，请说出下方的台词
+                  </div>
+                </div>
+              ) : (
+                sentences[idx] && renderLearnerLine(sentences[idx], `learner-${idx}`)
+              )}
+            </React.Fragment>
+          );
+        })}
+        {showClosing && renderPartnerLines(scenario.closingLines, true, 'closing')}
+      </div>
+    </div>
+  );
+};
+
+export default ScenarioDialogue;
@@ -0,0 +1,118 @@
+import React, { useState, useEffect } from 'react';
+import { ShadowingPhase, WordRange } from '../types';
+
+interface ShadowingPanelProps {
+  words: string[]; // Display words of the level
+  segment: WordRange | null; // Whole sentence when null
+  onSegmentChange: (segment: WordRange | null) => void;
+  phase: ShadowingPhase;
+  isBusy: boolean; // Audio or an evaluation is in progress
+  onLoop: () => void;
+  onCycle: () => void;
+  onStop: () => void;
+}
+
+const CYCLE_STEPS: { phase: ShadowingPhase; label: string; icon: string }[] = [
+  { phase: 'listen', label: '听', icon: 'fa-headphones' },
+  { phase: 'pause', label: '准备', icon: 'fa-hourglass-half' },
+  { phase: 'speak', label: '同步跟读', icon: 'fa-microphone' },
+];
+
+const ShadowingPanel: React.FC<ShadowingPanelProps> = ({ words, segment, onSegmentChange, phase, isBusy, onLoop, onCycle, onStop }) => {
+  // First word of a range being picked; the next click completes it
+  const [anchor, setAnchor] = useState<number | null>(null);
+  const running = phase !== 'idle';
+
+  useEffect(() => {
+    if (!segment) setAnchor(null);
+  }, [segment]);
+
+  const pickWord = (index: number) => {
+    if (running) return;
+    if (anchor === null) {
+      setAnchor(index);
+      onSegmentChange({ start: index, end: index });
+    } else {
+      onSegmentChange({ start: Math.min(anchor, index), end: Math.max(anchor, index) });
+      setAnchor(null);
+    }
+  };
+
+  const inSegment = (index: number) => !!segment && index >= segment.start && index <= segment.end;
+
+  return (
+    <div className="mb-8 max-w-2xl mx-auto bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 text-left animate-fade-in">
+      <div className="flex justify-between items-center mb-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+          {anchor !== null ? '再点一个词，选出短语的结尾' : '点击单词选择要练习的短语'}
+        </span>
+        {segment && !running && (
+          <button onClick={() => onSegmentChange(null)} className="text-xs font-bold text-slate-400 hover:text-emerald-500 transition-colors">
+            <i className="fas fa-expand mr-1"></i>整句
+          </button>
+        )}
+      </div>
+
+      <div className="flex flex-wrap gap-1 mb-4">
+        {words.map((word, index) => (
+          <button
+            key={index}
+            onClick={() => pickWord(index)}
+            disabled={running}
+            className={`px-2 py-1 rounded-lg text-sm font-bold transition-all
+              ${inSegment(index)
+                ? 'bg-emerald-100 text-emerald-700'
+                : segment ? 'text-slate-300 hover:text-slate-500' : 'text-slate-600 hover:bg-white'}
+              ${anchor === index ? 'ring-2 ring-emerald-300' : ''}`}
+          >
+            {word}
+          </button>
+        ))}
+      </div>
+
+      {running ? (
+        <div className="flex items-center justify-between gap-4">
+          {phase === 'loop' ? (
+            <span className="text-sm font-bold text-emerald-600"><i className="fas fa-sync-alt fa-spin mr-2"></i>循环播放中</span>
+          ) : (
+            <div className="flex items-center gap-2 text-xs font-bold">
+              {CYCLE_STEPS.map((step, i) => (
+                <React.Fragment key={step.phase}>
+                  {i > 0 && <i className="fas fa-chevron-right text-[8px] text-slate-300"></i>}
+                  <span className={`px-2 py-1 rounded-full ${phase === step.phase
+                    ? step.phase === 'speak' ? 'bg-red-500 text-white animate-pulse' : 'bg-emerald-500 text-white'
+                    : 'text-slate-400'}`}>
+                    <i className={`fas ${step.icon} mr-1`}></i>{step.label}
+                  </span>
+                </React.Fragment>
+              ))}
+            </div>
+          )}
+          <button onClick={onStop} className="px-4 py-2 rounded-xl text-sm font-bold bg-white border border-slate-200 text-slate-500 hover:text-red-500 hover:border-red-200 transition-all">
+            <i className="fas fa-stop mr-2"></i>停止
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-2">
+          <button
+            onClick={onLoop}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-white border border-emerald-100 text-emerald-500 hover:bg-emerald-50 transition-all disabled:opacity-40"
+          >
+            <i className="fas fa-redo mr-2"></i>循环播放
+          </button>
+          <button
+            onClick={onCycle}
+            disabled={isBusy}
+            className="px-4 py-2 rounded-xl text-sm font-bold bg-gradient-to-r from-emerald-400 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+          >
+            <i className="fas fa-play mr-2"></i>听 → 停 → 同步跟读
+          </button>
+          <span className="text-xs text-slate-400 ml-auto"><i className="fas fa-headphones mr-1"></i>建议佩戴耳机，避免录进播放的声音</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ShadowingPanel;
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { CourseModule, PracticeDay } from '../types';
+import { loadPracticeDays, getDailySummaries, getStreaks, getLevelsByModule, DailySummary } from '../services/activityLog';
+
+interface StatsPageProps {
+  onExit: () => void;
+}
+
+const CHART_DAYS = 30;
+
+const MODULE_INFO: Record<CourseModule, { label: string; icon: string; bar: string }> = {
+  article: { label: '文章', icon: 'fa-book-open', bar: 'bg-green-400' },
+  vocab: { label: '单词', icon: 'fa-tags', bar: 'bg-amber-400' },
+  scenario: { label: '场景', icon: 'fa-briefcase', bar: 'bg-sky-400' },
+};
+
+const formatDay = (date: number) => {
+  const d = new Date(date);
+  return `${d.getMonth() + 1}/${d.getDate()}`;
+};
+
+// Average pronunciation errors per recording, over the days that had recordings
+const averageErrors = (days: DailySummary[]): number | null => {
+  const recordings = days.reduce((sum, d) => sum + d.recordings, 0);
+  return recordings > 0 ? days.reduce((sum, d) => sum + d.errors, 0) / recordings : null;
+};
+
+const ErrorTrendChart: React.FC<{ days: DailySummary[] }> = ({ days }) => {
+  const points = days
+    .map((day, index) => ({ index, value: day.recordings > 0 ? day.errors / day.recordings : null }))
+    .filter((p): p is { index: number; value: number } => p.value !== null);
+  if (points.length === 0) {
+    return <p className="text-sm text-slate-400 py-8 text-center">完成跟读练习后，这里会显示发音错误的变化趋势。</p>;
+  }
+
+  const max = Math.max(1, ...points.map(p => p.value));
+  const x = (index: number) => (index / (days.length - 1)) * 100;
+  const y = (value: number) => 36 - (value / max) * 32;
+
+  return (
+    <svg viewBox="0 0 100 40" preserveAspectRatio="none" className="w-full h-32">
+      <line x1="0" y1="36" x2="100" y2="36" stroke="#e2e8f0" strokeWidth="0.5" />
+      {points.length > 1 && (
+        <polyline
+          points={points.map(p => `${x(p.index)},${y(p.value)}`).join(' ')}
+          fill="none"
+          stroke="#f43f5e"
+          strokeWidth="1"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {points.map(p => (
+        <circle key={p.index} cx={x(p.index)} cy={y(p.value)} r="1" fill="#f43f5e">
+          <title>{`${formatDay(days[p.index].date)}：平均每次 ${p.value.toFixed(1)} 个错误`}</title>
+        </circle>
+      ))}
+    </svg>
+  );
+};
+
+const StatsPage: React.FC<StatsPageProps> = ({ onExit }) => {
+  const log: PracticeDay[] = useMemo(() => loadPracticeDays(), []);
+  const days = getDailySummaries(CHART_DAYS, log);
+  const streaks = getStreaks(log);
+  const levelsByModule = getLevelsByModule(log);
+
+  const totalMinutes = days.reduce((sum, d) => sum + d.minutes, 0);
+  const totalLevels = Object.values(levelsByModule).reduce((sum, n) => sum + n, 0);
+  const maxMinutes = Math.max(1, ...days.map(d => d.minutes));
+  const maxModuleLevels = Math.max(1, ...Object.values(levelsByModule));
+
+  // Compare the last two weeks with the two before them
+  const recentErrors = averageErrors(days.slice(-14));
+  const earlierErrors = averageErrors(days.slice(-28, -14));
+  const errorChange = recentErrors !== null && earlierErrors ? Math.round(((recentErrors - earlierErrors) / earlierErrors) * 100) : null;
+
+  const cards = [
+    { label: '连续学习', value: `${streaks.current} 天`, icon: 'fa-fire', style: 'text-orange-500 bg-orange-50' },
+    { label: '最长连续', value: `${streaks.longest} 天`, icon: 'fa-medal', style: 'text-amber-500 bg-amber-50' },
+    { label: `近 ${CHART_DAYS} 天`, value: `${totalMinutes} 分钟`, icon: 'fa-clock', style: 'text-green-500 bg-green-50' },
+    { label: '累计完成', value: `${totalLevels} 关`, icon: 'fa-flag-checkered', style: 'text-sky-500 bg-sky-50' },
+  ];
+
+  return (
+    <div className="max-w-4xl mx-auto mt-4 font-['Nunito'] animate-fade-in">
+      <div className="mb-6 flex justify-between items-center bg-white px-6 py-4 rounded-[2rem] shadow-sm border border-slate-100">
+        <span className="text-xs font-bold uppercase tracking-wider text-slate-400 flex items-center bg-slate-50 px-3 py-1 rounded-full">
+          <i className="fas fa-chart-line mr-2 text-green-500"></i>学习统计
+        </span>
+        <button onClick={onExit} className="text-sm font-bold text-slate-400 hover:text-slate-600 transition-colors">
+          <i className="fas fa-arrow-left mr-2"></i>返回
+        </button>
+      </div>
+
+      {log.length === 0 && (
+        <div className="mb-6 bg-green-50 border border-green-100 text-green-700 rounded-2xl px-5 py-3 text-sm font-medium">
+          <i className="fas fa-seedling mr-2"></i>还没有学习记录。完成关卡、跟读和复习后，统计会自动出现在这里。
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+        {cards.map(card => (
+          <div key={card.label} className="bg-white rounded-[1.5rem] p-5 shadow-sm border border-slate-100">
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-3 ${card.style}`}>
+              <i className={`fas ${card.icon}`}></i>
+            </div>
+            <div className="text-2xl font-extrabold text-slate-800">{card.value}</div>
+            <div className="text-xs font-bold text-slate-400">{card.label}</div>
+          </div>
+        ))}
+      </div>
+
+      <div className="bg-white rounded-[2rem] p-6 shadow-sm border border-slate-100 mb-6">
+        <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">每日学习分钟</div>
+        <div className="flex items-end gap-1 h-40">
+          {days.map((day, index) => (
+            <div
+              key={day.date}
+              className={`flex-1 rounded-t-md ${index === days.length - 1 ? 'bg-green-500' : day.minutes > 0 ? 'bg-green-300' : 'bg-slate-100'}`}
+              style={{ height: `${Math.max(3, (day.minutes / maxMinutes) * 100)}%` }}
+              title={`${formatDay(day.date)}：${day.minutes} 分钟 · ${day.levels} 关 · ${day.recordings} 次跟读 · 复习 ${day.reviews} 词`}
+            ></div>
+          ))}
+        </div>
+        <div className="flex justify-between text-[10px] text-slate-300 font-bold mt-2">
+          <span>{formatDay(days[0].date)}</span>
+          <span>今天</span>
+        </div>
+      </div>
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="bg-white rounded-[2rem] p-6 shadow-sm border border-slate-100">
+          <div className="text-xs font-black text-slate-400 uppercase tracking-widest mb-4">各模块完成关卡</div>
+          <div className="space-y-4">
+            {(Object.keys(MODULE_INFO) as CourseModule[]).map(module => (
+              <div key={module}>
+                <div className="flex justify-between text-sm font-bold text-slate-600 mb-1">
+                  <span><i className={`fas ${MODULE_INFO[module].icon} mr-2 text-slate-300`}></i>{MODULE_INFO[module].label}</span>
+                  <span>{levelsByModule[module]}</span>
+                </div>
+                <div className="h-2 bg-slate-100 rounded-full overflow-hidden">
+                  <div className={`h-full rounded-full ${MODULE_INFO[module].bar}`} style={{ width: `${(levelsByModule[module] / maxModuleLevels) * 100}%` }}></div>
+                </div>
+              </div>
+            ))}
+          </div>
+          <div className="mt-6 text-xs text-slate-400">
+            近 {CHART_DAYS} 天复习单词 {days.reduce((sum, d) => sum + d.reviews, 0)} 次 · 共学习 {streaks.activeDays} 天
+          </div>
+        </div>
+
+        <div className="bg-white rounded-[2rem] p-6 shadow-sm border border-slate-100">
+          <div className="flex justify-between items-baseline mb-2">
+            <div className="text-xs font-black text-slate-400 uppercase tracking-widest">发音错误趋势</div>
+            {errorChange !== null && (
+              <span className={`text-xs font-bold ${errorChange <= 0 ? 'text-green-500' : 'text-rose-500'}`}>
+                <i className={`fas ${errorChange <= 0 ? 'fa-arrow-down' : 'fa-arrow-up'} mr-1`}></i>
+                较前两周{errorChange <= 0 ? '减少' : '增加'} {Math.abs(errorChange)}%
+              </span>
+            )}
+          </div>
+          <div className="text-xs text-slate-400 mb-2">每次跟读的平均错误数</div>
+          <ErrorTrendChart days={days} />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default StatsPage;
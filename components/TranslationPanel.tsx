@@ -0,0 +1,170 @@
+import React, { useEffect, useRef } from 'react';
+import { EvaluationResult, SentenceData, TranslationGrade } from '../types';
+
+interface TranslationPanelProps {
+  sentence: SentenceData;
+  draft: string; // The learner's answer, typed or dictated
+  onDraftChange: (draft: string) => void;
+  graded: EvaluationResult | null; // The translation attempt on screen, once graded
+  isRecording: boolean;
+  isBusy: boolean; // Grading is in progress
+  onToggleRecording: () => void;
+  onSubmit: (answer: string) => void;
+  onRetry: () => void; // Clears the graded attempt for another try
+}
+
+const SCORE_LABELS: { key: 'meaning' | 'grammar' | 'naturalness'; label: string; hint: string }[] = [
+  { key: 'meaning', label: '意思', hint: '是否完整准确地表达了中文原意' },
+  { key: 'grammar', label: '语法', hint: '语法是否正确' },
+  { key: 'naturalness', label: '地道', hint: '母语者听来是否自然' },
+];
+
+const barColor = (score: number) =>
+  score >= 80 ? 'bg-emerald-400' : score >= 60 ? 'bg-amber-400' : 'bg-rose-400';
+
+const AnnotatedAnswer: React.FC<{ grade: TranslationGrade; answer: string }> = ({ grade, answer }) => {
+  if (grade.segments.length === 0) return <p className="text-lg text-slate-700 mb-3">{answer}</p>;
+  // Pieces with a note are numbered, and the notes listed below the answer
+  const noted = grade.segments.filter(s => s.status !== 'match' && s.note);
+
+  return (
+    <>
+      <div className="flex flex-wrap gap-x-1.5 gap-y-2 mb-3 text-lg">
+        {grade.segments.map((segment, i) => {
+          const noteNumber = noted.indexOf(segment) + 1;
+          return (
+            <span key={i} className="flex flex-col items-start" title={segment.note}>
+              <span className={
+                segment.status === 'error' ? 'font-bold text-rose-500 line-through decoration-2'
+                  : segment.status === 'alternative' ? 'font-bold text-sky-600 underline decoration-dotted underline-offset-4'
+                  : 'text-slate-700'
+              }>
+                {segment.text}
+                {noteNumber > 0 && <sup className="ml-0.5 text-[10px] text-slate-400">{noteNumber}</sup>}
+              </span>
+              {segment.status === 'error' && segment.correction && (
+                <span className="text-xs font-bold text-emerald-600">{segment.correction}</span>
+              )}
+              {segment.status === 'alternative' && segment.reference && (
+                <span className="text-[10px] font-bold text-sky-400">参考: {segment.reference}</span>
+              )}
+            </span>
+          );
+        })}
+      </div>
+      {noted.length > 0 && (
+        <ol className="text-xs text-slate-500 space-y-1 mb-3 list-decimal list-inside">
+          {noted.map((segment, i) => (
+            <li key={i}>
+              <span className={segment.status === 'error' ? 'text-rose-400 font-bold' : 'text-sky-500 font-bold'}>
+                {segment.status === 'error' ? '需修改' : '可接受'}
+              </span>
+              ：{segment.note}
+            </li>
+          ))}
+        </ol>
+      )}
+    </>
+  );
+};
+
+const TranslationPanel: React.FC<TranslationPanelProps> = ({ sentence, draft, onDraftChange, graded, isRecording, isBusy, onToggleRecording, onSubmit, onRetry }) => {
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    if (!graded) inputRef.current?.focus();
+  }, [graded]);
+
+  const submit = () => {
+    if (draft.trim() && !isBusy && !isRecording) onSubmit(draft.trim());
+  };
+
+  const grade = graded?.translation;
+  if (graded && grade) {
+    return (
+      <div className="mb-8 max-w-2xl mx-auto text-left bg-slate-50 border border-slate-100 rounded-2xl px-5 py-4 animate-fade-in">
+        <div className="flex gap-4 mb-4">
+          {SCORE_LABELS.map(({ key, label, hint }) => (
+            <div key={key} className="flex-1" title={hint}>
+              <div className="flex justify-between text-xs font-bold mb-1">
+                <span className="text-slate-500">{label}</span>
+                <span className="text-slate-600">{grade[key]}</span>
+              </div>
+              <div className="h-1.5 bg-slate-200 rounded-full overflow-hidden">
+                <div className={`h-full rounded-full ${barColor(grade[key])}`} style={{ width: `${grade[key]}%` }}></div>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">你的译文</div>
+        <AnnotatedAnswer grade={grade} answer={graded.transcript || ''} />
+
+        {grade.missing.length > 0 && (
+          <div className="flex flex-wrap items-center gap-1.5 mb-3 text-xs">
+            <span className="font-bold text-slate-400">漏译</span>
+            {grade.missing.map((m, i) => (
+              <span key={i} className="px-2 py-0.5 rounded-md border border-dashed border-amber-300 text-amber-600 font-bold" title={m.note}>{m.text}</span>
+            ))}
+          </div>
+        )}
+
+        <div className="border-t border-slate-100 pt-3 mt-1 space-y-1 text-sm">
+          {grade.improved !== graded.transcript && (
+            <p><span className="text-xs font-bold text-emerald-500 mr-2">修改后</span><span className="text-slate-700">{grade.improved}</span></p>
+          )}
+          <p><span className="text-xs font-bold text-slate-400 mr-2">参考译文</span><span className="text-slate-600">{sentence.english}</span></p>
+        </div>
+
+        <button onClick={onRetry} className="mt-3 text-sm font-bold text-emerald-500 hover:text-emerald-600 transition-colors">
+          <i className="fas fa-redo-alt mr-2"></i>再翻译一次
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="mb-8 max-w-lg mx-auto animate-fade-in">
+      <p className="text-xl font-bold text-slate-700 mb-1">{sentence.chinese}</p>
+      <p className="text-xs text-slate-400 mb-4">把这句话翻译成英文，可以输入，也可以说出来</p>
+      <textarea
+        ref={inputRef}
+        value={draft}
+        onChange={e => onDraftChange(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            submit();
+          }
+        }}
+        rows={2}
+        disabled={isBusy}
+        placeholder="输入你的英文译文…"
+        className="w-full px-4 py-3 rounded-2xl border-2 border-emerald-100 focus:border-emerald-300 focus:outline-none text-lg text-slate-700 resize-none disabled:opacity-60"
+        spellCheck={false}
+        autoCapitalize="off"
+        autoCorrect="off"
+      />
+      <div className="flex justify-between items-center mt-3">
+        <button
+          onClick={onToggleRecording}
+          disabled={isBusy}
+          className={`px-3 py-2 rounded-xl text-sm font-bold border transition-all disabled:opacity-40 ${isRecording
+            ? 'bg-red-500 border-red-500 text-white animate-pulse'
+            : 'bg-white border-emerald-100 text-emerald-500 hover:bg-emerald-50'}`}
+        >
+          <i className={`fas ${isRecording ? 'fa-stop' : 'fa-microphone'} mr-2`}></i>{isRecording ? '说完了' : '说出来'}
+        </button>
+        <button
+          onClick={submit}
+          disabled={!draft.trim() || isBusy || isRecording}
+          className="px-5 py-2 rounded-xl text-sm font-bold bg-gradient-to-r from-emerald-400 to-emerald-500 text-white hover:shadow-lg hover:shadow-emerald-100 transition-all disabled:opacity-40"
+        >
+          <i className="fas fa-check mr-2"></i>批改
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TranslationPanel;
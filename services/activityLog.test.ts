@@ -0,0 +1,70 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getDailySummaries, getLevelsByModule, getStreaks, loadPracticeDays, logPractice } from './activityLog';
+
+const STORAGE_KEY = 'linguist-activity-log';
+
+const day = (date: string, hour = 12) => new Date(`${date}T${String(hour).padStart(2, '0')}:00:00`).getTime();
+
+beforeEach(() => {
+  const store = new Map<string, string>();
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => store.get(key) ?? null,
+    setItem: (key: string, value: string) => { store.set(key, value); },
+    removeItem: (key: string) => { store.delete(key); },
+  });
+});
+
+describe('logPractice', () => {
+  it('adds events to one record per day instead of storing each event', () => {
+    logPractice({ type: 'level', module: 'article' }, day('2026-03-01', 9));
+    logPractice({ type: 'recording', module: 'article', errorCount: 2 }, day('2026-03-01', 10));
+    logPractice({ type: 'time', activity: 'article', ms: 90000 }, day('2026-03-01', 11));
+    logPractice({ type: 'review', grade: 'good' }, day('2026-03-02'));
+
+    expect(loadPracticeDays()).toEqual([
+      { date: day('2026-03-01', 0), ms: 90000, levels: { article: 1, vocab: 0, scenario: 0 }, recordings: 1, errors: 2, reviews: 0 },
+      { date: day('2026-03-02', 0), ms: 0, levels: { article: 0, vocab: 0, scenario: 0 }, recordings: 0, errors: 0, reviews: 1 },
+    ]);
+  });
+
+  it('drops days older than the retention window', () => {
+    logPractice({ type: 'review', grade: 'good' }, day('2025-01-01'));
+    logPractice({ type: 'review', grade: 'good' }, day('2026-03-01'));
+    expect(loadPracticeDays().map(d => d.date)).toEqual([day('2026-03-01', 0)]);
+  });
+});
+
+describe('loadPracticeDays', () => {
+  it('aggregates a version 1 event log', () => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({
+      version: 1,
+      events: [
+        { type: 'level', at: day('2026-03-01', 9), module: 'vocab' },
+        { type: 'level', at: day('2026-03-01', 10), module: 'vocab' },
+        { type: 'time', at: day('2026-03-01', 11), activity: 'vocab', ms: 30000 },
+        { type: 'level', at: day('2026-03-01', 12), module: 'podcast' },
+      ],
+    }));
+    expect(loadPracticeDays()).toEqual([
+      { date: day('2026-03-01', 0), ms: 30000, levels: { article: 0, vocab: 2, scenario: 0 }, recordings: 0, errors: 0, reviews: 0 },
+    ]);
+  });
+});
+
+describe('summaries', () => {
+  it('counts a day for streaks once it has a level, recording, review or a minute of practice', () => {
+    logPractice({ type: 'level', module: 'article' }, day('2026-03-01'));
+    logPractice({ type: 'time', activity: 'article', ms: 60000 }, day('2026-03-02'));
+    logPractice({ type: 'time', activity: 'article', ms: 30000 }, day('2026-03-03'));
+    logPractice({ type: 'review', grade: 'good' }, day('2026-03-04'));
+    logPractice({ type: 'level', module: 'scenario' }, day('2026-03-05'));
+
+    expect(getStreaks(loadPracticeDays(), day('2026-03-05', 20))).toEqual({ current: 2, longest: 2, activeDays: 4 });
+    expect(getLevelsByModule()).toEqual({ article: 1, vocab: 0, scenario: 1 });
+    expect(getDailySummaries(3, loadPracticeDays(), day('2026-03-05')).map(d => [d.minutes, d.levels, d.reviews])).toEqual([
+      [1, 0, 0], // 30 seconds, rounded up, but not enough for the streak
+      [0, 0, 1],
+      [0, 1, 0],
+    ]);
+  });
+});
@@ -0,0 +1,237 @@
+import { CourseModule, PracticeActivity, PracticeDay, PracticeEvent } from "../types";
+
+const STORAGE_KEY = 'linguist-activity-log';
+const STORAGE_VERSION = 2;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_DAYS = 400; // A bit over a year, enough for yearly streaks
+const TICK_MS = 15 * 1000;
+const IDLE_MS = 2 * 60 * 1000; // No input for this long stops the clock
+const FLUSH_MS = 60 * 1000;
+
+// --- Persistence ---
+
+const MODULES: CourseModule[] = ['article', 'vocab', 'scenario'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const count = (value: unknown) => (typeof value === 'number' && value > 0 ? value : 0);
+
+const startOfDay = (timestamp: number) => new Date(timestamp).setHours(0, 0, 0, 0);
+
+const emptyDay = (date: number): PracticeDay => ({
+  date,
+  ms: 0,
+  levels: { article: 0, vocab: 0, scenario: 0 },
+  recordings: 0,
+  errors: 0,
+  reviews: 0,
+});
+
+const addEvent = (day: PracticeDay, event: PracticeEvent) => {
+  if (event.type === 'time') day.ms += event.ms;
+  else if (event.type === 'level') day.levels[event.module]++;
+  else if (event.type === 'recording') {
+    day.recordings++;
+    day.errors += event.errorCount;
+  } else if (event.type === 'review') day.reviews++;
+};
+
+const toDay = (value: unknown): PracticeDay | null => {
+  if (!isObject(value) || typeof value.date !== 'number') return null;
+  const levels = isObject(value.levels) ? value.levels : {};
+  return {
+    date: value.date,
+    ms: count(value.ms),
+    levels: { article: count(levels.article), vocab: count(levels.vocab), scenario: count(levels.scenario) },
+    recordings: count(value.recordings),
+    errors: count(value.errors),
+    reviews: count(value.reviews),
+  };
+};
+
+const isEvent = (value: unknown): value is PracticeEvent => {
+  if (!isObject(value) || typeof value.at !== 'number') return false;
+  const hasModule = MODULES.some(m => m === value.module);
+  switch (value.type) {
+    case 'level': return hasModule;
+    case 'recording': return hasModule && typeof value.errorCount === 'number';
+    case 'review': return true;
+    case 'time': return typeof value.ms === 'number';
+    default: return false;
+  }
+};
+
+// v2: one aggregate per day instead of every event, so logging does not rewrite an ever-growing list
+const fromEvents = (events: unknown[]): PracticeDay[] => {
+  const byDate = new Map<number, PracticeDay>();
+  events.filter(isEvent).forEach(event => {
+    const date = startOfDay(event.at);
+    const day = byDate.get(date) || emptyDay(date);
+    addEvent(day, event);
+    byDate.set(date, day);
+  });
+  return [...byDate.values()].sort((a, b) => a.date - b.date);
+};
+
+// Oldest day first; days without any activity are not stored
+export const loadPracticeDays = (): PracticeDay[] => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (!isObject(saved)) return [];
+    if (saved.version === 1 && Array.isArray(saved.events)) return fromEvents(saved.events);
+    if (saved.version !== STORAGE_VERSION || !Array.isArray(saved.days)) return [];
+    return saved.days.map(toDay).filter((day): day is PracticeDay => day !== null);
+  } catch {
+    return [];
+  }
+};
+
+const saveDays = (days: PracticeDay[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, days }));
+  } catch (error) {
+    // Quota exceeded: statistics are nice to have, practice must go on
+    console.warn("Could not save practice log:", error);
+  }
+};
+
+type NewEvent = PracticeEvent extends infer E ? (E extends PracticeEvent ? Omit<E, 'at'> : never) : never;
+
+// Adds the event to today's totals
+export const logPractice = (event: NewEvent, now: number = Date.now()) => {
+  const date = startOfDay(now);
+  const cutoff = now - RETENTION_DAYS * DAY_MS;
+  const days = loadPracticeDays().filter(day => day.date >= cutoff);
+  let today = days[days.length - 1];
+  if (!today || today.date !== date) {
+    today = emptyDay(date);
+    days.push(today);
+  }
+  addEvent(today, { ...event, at: now } as PracticeEvent);
+  saveDays(days);
+};
+
+export const clearPracticeLog = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
+
+/**
+ * Counts active time on a practice screen and logs it as 'time' events.
+ * Time only accrues while the tab is visible and the learner has interacted
+ * recently. Returns a stop function that logs whatever is left.
+ */
+export const startTimeTracking = (activity: PracticeActivity): (() => void) => {
+  let lastInput = Date.now();
+  let pending = 0;
+
+  const onInput = () => { lastInput = Date.now(); };
+  const flush = () => {
+    if (pending >= 1000) logPractice({ type: 'time', activity, ms: pending });
+    pending = 0;
+  };
+  const onHidden = () => {
+    if (document.visibilityState === 'hidden') flush();
+  };
+
+  const timer = setInterval(() => {
+    if (document.visibilityState !== 'visible' || Date.now() - lastInput > IDLE_MS) return;
+    pending += TICK_MS;
+    if (pending >= FLUSH_MS) flush();
+  }, TICK_MS);
+
+  window.addEventListener('pointerdown', onInput);
+  window.addEventListener('keydown', onInput);
+  document.addEventListener('visibilitychange', onHidden);
+
+  return () => {
+    clearInterval(timer);
+    window.removeEventListener('pointerdown', onInput);
+    window.removeEventListener('keydown', onInput);
+    document.removeEventListener('visibilitychange', onHidden);
+    flush();
+  };
+};
+
+// --- Summaries ---
+
+export interface DailySummary {
+  date: number; // Local midnight
+  minutes: number;
+  levels: number;
+  recordings: number;
+  errors: number; // Pronunciation errors across the day's recordings
+  reviews: number;
+}
+
+// Calendar days back from `now`, so DST changes do not skip or repeat a day
+const dayStarts = (days: number, now: number): number[] => {
+  const today = new Date(startOfDay(now));
+  return Array.from({ length: days }, (_, i) =>
+    new Date(today.getFullYear(), today.getMonth(), today.getDate() - (days - 1 - i)).getTime()
+  );
+};
+
+// Oldest day first, ending with today
+export const getDailySummaries = (days: number, log: PracticeDay[] = loadPracticeDays(), now: number = Date.now()): DailySummary[] => {
+  const byDate = new Map(log.map(day => [day.date, day]));
+  return dayStarts(days, now).map(date => {
+    const day = byDate.get(date) || emptyDay(date);
+    return {
+      date,
+      minutes: Math.round(day.ms / 60000),
+      levels: day.levels.article + day.levels.vocab + day.levels.scenario,
+      recordings: day.recordings,
+      errors: day.errors,
+      reviews: day.reviews,
+    };
+  });
+};
+
+export interface Streaks {
+  current: number; // Consecutive days up to today (or yesterday, if today has no practice yet)
+  longest: number;
+  activeDays: number;
+}
+
+const isPracticeDay = (day: PracticeDay) =>
+  day.levels.article + day.levels.vocab + day.levels.scenario + day.recordings + day.reviews > 0 || day.ms >= 60000;
+
+export const getStreaks = (log: PracticeDay[] = loadPracticeDays(), now: number = Date.now()): Streaks => {
+  const active = new Set(log.filter(isPracticeDay).map(day => day.date));
+
+  const previousDay = (day: number) => {
+    const date = new Date(day);
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate() - 1).getTime();
+  };
+
+  let longest = 0;
+  active.forEach(day => {
+    if (active.has(previousDay(day))) return; // Not the start of a run
+    let length = 1;
+    let next = new Date(day);
+    for (;;) {
+      next = new Date(next.getFullYear(), next.getMonth(), next.getDate() + 1);
+      if (!active.has(next.getTime())) break;
+      length++;
+    }
+    longest = Math.max(longest, length);
+  });
+
+  let current = 0;
+  let day = startOfDay(now);
+  if (!active.has(day)) day = previousDay(day); // Today still counts until midnight
+  while (active.has(day)) {
+    current++;
+    day = previousDay(day);
+  }
+
+  return { current, longest, activeDays: active.size };
+};
+
+export const getLevelsByModule = (log: PracticeDay[] = loadPracticeDays()): Record<CourseModule, number> => {
+  const counts: Record<CourseModule, number> = { article: 0, vocab: 0, scenario: 0 };
+  log.forEach(day => MODULES.forEach(module => { counts[module] += day.levels[module]; }));
+  return counts;
+};
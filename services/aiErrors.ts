@@ -0,0 +1,113 @@
+export type AIErrorKind =
+  | 'missing_key'
+  | 'quota'
+  | 'safety'
+  | 'malformed'
+  | 'timeout'
+  | 'offline'
+  | 'aborted'
+  | 'unknown';
+
+/**
+ * Every failure from the AI layer is surfaced as an AIError so the UI can
+ * pick a recovery message by `kind` instead of showing raw SDK errors.
+ */
+export class AIError extends Error {
+  kind: AIErrorKind;
+  retryable: boolean;
+  retryAfterMs?: number; // Server-suggested delay (quota errors)
+
+  constructor(kind: AIErrorKind, message: string, options: { cause?: unknown; retryAfterMs?: number } = {}) {
+    super(message);
+    this.name = 'AIError';
+    this.kind = kind;
+    this.retryable = kind === 'quota' || kind === 'timeout' || kind === 'offline' || kind === 'malformed' || kind === 'unknown';
+    this.retryAfterMs = options.retryAfterMs;
+    this.cause = options.cause;
+  }
+}
+
+// Finish/block reasons the Gemini API uses when content is filtered.
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+export const isSafetyReason = (reason?: string): boolean => !!reason && SAFETY_REASONS.includes(reason);
+
+// Status codes that will not get better by retrying.
+const isPermanentStatus = (status: number) => status === 400 || status === 401 || status === 403 || status === 404;
+
+const parseRetryDelay = (message: string): number | undefined => {
+  const match = message.match(/retry(?:Delay"?:\s*"| in )(\d+(?:\.\d+)?)s/i);
+  return match ? Math.ceil(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/**
+ * Maps anything thrown by the SDK, fetch or JSON.parse onto an AIError.
+ */
+export const toAIError = (error: unknown): AIError => {
+  if (error instanceof AIError) return error;
+
+  const message = error instanceof Error ? error.message : String(error);
+  const name = error instanceof Error ? error.name : '';
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : 0;
+
+  if (name === 'AbortError' || /aborted/i.test(message)) {
+    return new AIError('aborted', message, { cause: error });
+  }
+  if (/API Key is missing|API_KEY_INVALID|API key not valid/i.test(message)) {
+    return new AIError('missing_key', message, { cause: error });
+  }
+  if (status === 429 || /RESOURCE_EXHAUSTED|quota|rate limit|\b429\b/i.test(message)) {
+    return new AIError('quota', message, { cause: error, retryAfterMs: parseRetryDelay(message) });
+  }
+  if (error instanceof SyntaxError) {
+    return new AIError('malformed', message, { cause: error });
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) {
+    return new AIError('offline', message, { cause: error });
+  }
+  if (/Failed to fetch|NetworkError|network error|ERR_INTERNET_DISCONNECTED/i.test(message)) {
+    return new AIError('offline', message, { cause: error });
+  }
+
+  const unknown = new AIError('unknown', message, { cause: error });
+  if (isPermanentStatus(status)) unknown.retryable = false;
+  return unknown;
+};
+
+/**
+ * In-app recovery copy for each error kind.
+ */
+export const AI_ERROR_MESSAGES: Record<AIErrorKind, { title: string; hint: string }> = {
+  missing_key: {
+    title: '未配置 API Key',
+    hint: '请在 .env.local 中设置 GEMINI_API_KEY 后重启应用，或使用 AI_PROVIDER=fixture 离线体验。',
+  },
+  quota: {
+    title: '请求太频繁或额度已用完',
+    hint: '请稍等一分钟再试；如果持续出现，请检查 Gemini API 的用量配额。',
+  },
+  safety: {
+    title: '内容被安全策略拦截',
+    hint: '请换一段文本或调整措辞后重试。',
+  },
+  malformed: {
+    title: 'AI 返回的数据格式有误',
+    hint: '这通常是偶发问题，点击重试即可。',
+  },
+  timeout: {
+    title: '请求超时',
+    hint: '网络较慢或内容较长，请重试；长文章可以分段学习。',
+  },
+  offline: {
+    title: '网络连接已断开',
+    hint: '请检查网络连接，恢复后点击重试。',
+  },
+  aborted: {
+    title: '已取消',
+    hint: '操作已被取消。',
+  },
+  unknown: {
+    title: 'AI 服务暂时不可用',
+    hint: '请稍后重试。',
+  },
+};
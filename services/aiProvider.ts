@@ -0,0 +1,46 @@
+import { createGeminiProvider } from "./providers/geminiProvider";
+import { createFixtureProvider } from "./providers/fixtureProvider";
+import { createRecordingProvider } from "./providers/recordingProvider";
+import { AIProvider, ProviderName } from "./providers/types";
+
+export type { AIRequest, AIInlineData, AIPart, AIResponse, AIProvider, ProviderName } from "./providers/types";
+export { getRequestKey, hashString } from "./providers/types";
+
+const resolveProviderName = (): ProviderName => {
+  const configured = (process.env.AI_PROVIDER || '').toLowerCase();
+  if (configured === 'gemini' || configured === 'fixture' || configured === 'record') {
+    return configured;
+  }
+  // No explicit choice: use the real backend when a key is present, otherwise stay offline.
+  if (process.env.API_KEY) return 'gemini';
+  console.warn("No GEMINI_API_KEY configured, using the offline fixture provider.");
+  return 'fixture';
+};
+
+const createProvider = (name: ProviderName): AIProvider => {
+  switch (name) {
+    case 'gemini':
+      return createGeminiProvider(process.env.API_KEY || '');
+    case 'record':
+      return createRecordingProvider(createGeminiProvider(process.env.API_KEY || ''));
+    case 'fixture':
+    default:
+      return createFixtureProvider();
+  }
+};
+
+let activeProvider: AIProvider | null = null;
+
+export const getProvider = (): AIProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider(resolveProviderName());
+  }
+  return activeProvider;
+};
+
+/**
+ * Swap the backend at runtime (e.g. from tests or a debug toggle).
+ */
+export const setProvider = (provider: AIProvider) => {
+  activeProvider = provider;
+};
@@ -0,0 +1,63 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { AIProvider, AIResponse, setProvider } from './aiProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { requestJson, requestStream } from './aiRequest';
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const abort = () => reject(new DOMException('Aborted', 'AbortError'));
+    if (signal?.aborted) return abort();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      abort();
+    });
+  });
+
+const response = (text: string): AIResponse => ({ text, parts: [{ text }] });
+
+// Yields `chunks` with `gapMs` between them and answers single requests after `delayMs`
+const slowProvider = (chunks: string[], gapMs: number, delayMs = 0): AIProvider => ({
+  name: 'fixture',
+  generateContent: async request => {
+    await sleep(delayMs, request.config?.abortSignal );
+    return response('{"ok":true}');
+  },
+  async *generateContentStream(request) {
+    for (const chunk of chunks) {
+      await sleep(gapMs, request.config?.abortSignal );
+      yield response(chunk);
+    }
+  },
+});
+
+afterEach(() => setProvider(createFixtureProvider()));
+
+describe('requestStream', () => {
+  it('does not count time the caller spends on a chunk against the idle timeout', async () => {
+    setProvider(slowProvider(['a', 'b', 'c'], 50));
+    const received: string[] = [];
+    for await (const chunk of requestStream({ model: 'm', contents: '' }, { timeoutMs: 200, retries: 0 })) {
+      received.push(chunk.text);
+      await sleep(300); // e.g. regenerating a broken level
+    }
+    expect(received).toEqual(['a', 'b', 'c']);
+  });
+
+  it('times out when the model stalls between chunks', async () => {
+    setProvider(slowProvider(['a', 'b'], 300));
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const consume = async () => {
+      for await (const chunk of requestStream({ model: 'm', contents: '' }, { timeoutMs: 100, retries: 0 })) void chunk;
+    };
+    await expect(consume()).rejects.toMatchObject({ kind: 'timeout' });
+    warn.mockRestore();
+  });
+});
+
+describe('requestJson', () => {
+  it('parses the response body', async () => {
+    setProvider(slowProvider([], 0));
+    expect(await requestJson({ model: 'm', contents: '' })).toEqual({ ok: true });
+  });
+});
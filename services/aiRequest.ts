@@ -0,0 +1,175 @@
+import { AIRequest, AIResponse, getProvider } from "./aiProvider";
+import { AIError, isSafetyReason, toAIError } from "./aiErrors";
+
+export interface RequestOptions {
+  signal?: AbortSignal;
+  timeoutMs?: number; // Per attempt; for streams, the maximum gap between chunks
+  retries?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 60000;
+const DEFAULT_RETRIES = 3;
+const BASE_DELAY_MS = 800;
+const MAX_DELAY_MS = 20000;
+
+// Exponential backoff with full jitter: random delay in [0, base * 2^attempt].
+const backoffDelay = (attempt: number, error: AIError): number => {
+  if (error.retryAfterMs) return error.retryAfterMs;
+  const cap = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * cap;
+};
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new AIError('aborted', 'Request was cancelled'));
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new AIError('aborted', 'Request was cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * One attempt's abort controller: fires on caller cancellation or timeout,
+ * and remembers which of the two it was.
+ */
+const createAttemptController = (signal: AbortSignal | undefined, timeoutMs: number) => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  const pauseTimer = () => {
+    if (timer) clearTimeout(timer);
+    timer = null;
+  };
+  const resetTimer = () => {
+    pauseTimer();
+    timer = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+  };
+  resetTimer();
+
+  return {
+    signal: controller.signal,
+    pauseTimer,
+    resetTimer,
+    classify: (error: unknown): AIError => {
+      if (signal?.aborted) return new AIError('aborted', 'Request was cancelled', { cause: error });
+      if (timedOut) return new AIError('timeout', `No response within ${timeoutMs}ms`, { cause: error });
+      return toAIError(error);
+    },
+    dispose: () => {
+      if (timer) clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    },
+  };
+};
+
+const assertNotBlocked = (response: AIResponse) => {
+  if (isSafetyReason(response.blockReason) || isSafetyReason(response.finishReason)) {
+    throw new AIError('safety', `Response blocked: ${response.blockReason || response.finishReason}`);
+  }
+};
+
+/**
+ * Retries `attempt` on transient failures with exponential backoff and jitter.
+ */
+const withRetry = async <T>(
+  options: RequestOptions,
+  attempt: (signal: AbortSignal, resetTimer: () => void) => Promise<T>
+): Promise<T> => {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let i = 0; ; i++) {
+    const controller = createAttemptController(options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    try {
+      return await attempt(controller.signal, controller.resetTimer);
+    } catch (rawError) {
+      const error = controller.classify(rawError);
+      if (!error.retryable || i >= retries) throw error;
+      console.warn(`AI request failed (${error.kind}), retrying...`, error.message);
+      await sleep(backoffDelay(i, error), options.signal);
+    } finally {
+      controller.dispose();
+    }
+  }
+};
+
+/**
+ * Single request through the active provider, with timeout, retries and typed errors.
+ */
+export const requestContent = (request: AIRequest, options: RequestOptions = {}): Promise<AIResponse> =>
+  withRetry(options, async signal => {
+    const response = await getProvider().generateContent({
+      ...request,
+      config: { ...request.config, abortSignal: signal },
+    });
+    assertNotBlocked(response);
+    return response;
+  });
+
+/**
+ * Like requestContent, but parses the JSON body. Malformed JSON counts as a
+ * transient failure, so it is re-requested.
+ */
+export const requestJson = <T>(request: AIRequest, options: RequestOptions = {}): Promise<T> =>
+  withRetry(options, async signal => {
+    const response = await getProvider().generateContent({
+      ...request,
+      config: { ...request.config, abortSignal: signal },
+    });
+    assertNotBlocked(response);
+    if (!response.text) throw new AIError('malformed', 'Empty JSON response');
+    try {
+      return JSON.parse(response.text) as T;
+    } catch (error) {
+      throw new AIError('malformed', 'Response is not valid JSON', { cause: error });
+    }
+  });
+
+/**
+ * Streams a request. Retries only happen before the first chunk arrives, since
+ * chunks already handed to the caller cannot be taken back. The idle timeout
+ * only runs while waiting on the model, not while the caller handles a chunk.
+ */
+export async function* requestStream(request: AIRequest, options: RequestOptions = {}): AsyncGenerator<AIResponse> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let i = 0; ; i++) {
+    const controller = createAttemptController(options.signal, options.timeoutMs ?? DEFAULT_TIMEOUT_MS);
+    let received = false;
+    try {
+      const stream = getProvider().generateContentStream({
+        ...request,
+        config: { ...request.config, abortSignal: controller.signal },
+      });
+      for await (const chunk of stream) {
+        controller.pauseTimer();
+        assertNotBlocked(chunk);
+        received = true;
+        yield chunk;
+        controller.resetTimer();
+      }
+      return;
+    } catch (rawError) {
+      const error = controller.classify(rawError);
+      if (received || !error.retryable || i >= retries) throw error;
+      console.warn(`AI stream failed (${error.kind}), retrying...`, error.message);
+      await sleep(backoffDelay(i, error), options.signal);
+    } finally {
+      controller.dispose();
+    }
+  }
+}
@@ -0,0 +1,92 @@
+// Gemini TTS returns raw 16-bit mono PCM at 24kHz
+const TTS_SAMPLE_RATE = 24000;
+
+export function decodePCM(data: Uint8Array, ctx: AudioContext) {
+  const numChannels = 1;
+  const dataInt16 = new Int16Array(data.buffer, data.byteOffset, Math.floor(data.byteLength / 2));
+  const frameCount = dataInt16.length / numChannels;
+  const buffer = ctx.createBuffer(numChannels, frameCount, TTS_SAMPLE_RATE);
+  const channelData = buffer.getChannelData(0);
+  for (let i = 0; i < frameCount; i++) {
+      channelData[i] = dataInt16[i] / 32768.0;
+  }
+  return buffer;
+}
+
+/**
+ * Plays TTS bytes on `ctx`, resolving when playback ends.
+ */
+export const playPCM = async (data: Uint8Array, ctx: AudioContext): Promise<void> => {
+  if (ctx.state === 'suspended') await ctx.resume();
+  const source = ctx.createBufferSource();
+  source.buffer = decodePCM(data, ctx);
+  source.connect(ctx.destination);
+  await new Promise<void>(resolve => {
+    source.onended = () => resolve();
+    source.start();
+  });
+};
+
+/**
+ * Wraps 16-bit mono PCM in a WAV header, e.g. TTS bytes so they play outside the app (Anki).
+ */
+export const encodeWav = (data: Uint8Array, sampleRate: number = TTS_SAMPLE_RATE): Uint8Array => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) header.setUint8(offset + i, text.charCodeAt(i));
+  };
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + data.byteLength, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true); // PCM chunk size
+  header.setUint16(20, 1, true); // PCM format
+  header.setUint16(22, 1, true); // Mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true); // Byte rate
+  header.setUint16(32, 2, true); // Block align
+  header.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  header.setUint32(40, data.byteLength, true);
+
+  const wav = new Uint8Array(44 + data.byteLength);
+  wav.set(new Uint8Array(header.buffer), 0);
+  wav.set(data, 44);
+  return wav;
+};
+
+/**
+ * Object URL of TTS bytes as a WAV file, for playback through an <audio> element.
+ * Revoke it with URL.revokeObjectURL once it is no longer needed.
+ */
+export const pcmObjectUrl = (data: Uint8Array): string =>
+  URL.createObjectURL(new Blob([encodeWav(data) as BlobPart], { type: 'audio/wav' }));
+
+export interface Playback {
+  done: Promise<void>; // Resolves when playback ends or is stopped, rejects if it cannot play
+  stop: () => void;
+}
+
+/**
+ * Plays `url` at `rate` with the pitch preserved, so slowed-down speech does not
+ * drop in pitch the way AudioBufferSourceNode.playbackRate does.
+ */
+export const playAtRate = (url: string, rate: number): Playback => {
+  const audio = new Audio(url);
+  audio.playbackRate = rate;
+  audio.preservesPitch = true;
+  (audio as any).webkitPreservesPitch = true; // Older Safari
+  (audio as any).mozPreservesPitch = true; // Older Firefox
+
+  let stop = () => {};
+  const done = new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error("Audio playback failed"));
+    audio.play().catch(reject);
+    stop = () => {
+      audio.pause();
+      resolve();
+    };
+  });
+  return { done, stop };
+};
@@ -0,0 +1,101 @@
+import { encodeWav } from "./audio";
+
+// Speech models work at 16kHz; it also keeps a sentence recording well under inline request limits
+const RECORDING_SAMPLE_RATE = 16000;
+
+export interface RecordedAudio {
+  mimeType: string;
+  data: string; // base64
+}
+
+export interface AudioCapture {
+  stop: () => Promise<RecordedAudio | null>;
+  cancel: () => void;
+}
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+// Browsers record webm/ogg/mp4 depending on vendor; resampling to WAV gives the model one well-supported format
+const toWav = async (blob: Blob): Promise<RecordedAudio> => {
+  const AudioContext = window.AudioContext || (window as any).webkitAudioContext;
+  const decodeContext = new AudioContext();
+  try {
+    const decoded = await decodeContext.decodeAudioData(await blob.arrayBuffer());
+    const frames = Math.ceil(decoded.duration * RECORDING_SAMPLE_RATE);
+    const offline = new OfflineAudioContext(1, frames, RECORDING_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    const samples = (await offline.startRendering()).getChannelData(0);
+
+    const pcm = new Int16Array(samples.length);
+    for (let i = 0; i < samples.length; i++) {
+      pcm[i] = Math.max(-1, Math.min(1, samples[i])) * 0x7fff;
+    }
+    return { mimeType: 'audio/wav', data: bytesToBase64(encodeWav(new Uint8Array(pcm.buffer), RECORDING_SAMPLE_RATE)) };
+  } finally {
+    decodeContext.close();
+  }
+};
+
+/**
+ * Records the microphone alongside speech recognition, so pronunciation can be
+ * judged from the audio itself. Resolves to null where recording is unavailable
+ * (no MediaRecorder, permission denied); callers then fall back to the transcript.
+ */
+export const startAudioCapture = async (): Promise<AudioCapture | null> => {
+  if (typeof MediaRecorder === 'undefined' || !navigator.mediaDevices?.getUserMedia) return null;
+
+  let stream: MediaStream;
+  try {
+    // Echo cancellation keeps model audio out of shadowing recordings when there are no headphones
+    stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true } });
+  } catch (error) {
+    console.warn("Audio capture unavailable:", error);
+    return null;
+  }
+
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = event => {
+    if (event.data.size > 0) chunks.push(event.data);
+  };
+  const release = () => stream.getTracks().forEach(track => track.stop());
+  recorder.start();
+
+  return {
+    stop: () => new Promise(resolve => {
+      const finish = async () => {
+        release();
+        if (chunks.length === 0) {
+          resolve(null);
+          return;
+        }
+        try {
+          resolve(await toWav(new Blob(chunks, { type: recorder.mimeType })));
+        } catch (error) {
+          console.warn("Could not decode recording:", error);
+          resolve(null);
+        }
+      };
+      if (recorder.state === 'inactive') {
+        finish();
+      } else {
+        recorder.onstop = finish;
+        recorder.stop();
+      }
+    }),
+    cancel: () => {
+      recorder.onstop = null;
+      if (recorder.state !== 'inactive') recorder.stop();
+      release();
+    },
+  };
+};
@@ -0,0 +1,119 @@
+import { CheckpointQuestion, CheckpointResult, SentenceData } from "../types";
+import { comparableWord } from "./wordAlignment";
+import { shuffle } from "./shuffle";
+
+const STORAGE_KEY = 'linguist-checkpoint-pass-mark';
+
+export const PASS_MARK_OPTIONS = [60, 70, 80, 90, 100];
+export const DEFAULT_PASS_MARK = 80;
+
+// Stages shorter than this (only ever the last one) end without a checkpoint
+export const CHECKPOINT_MIN_LEVELS = 4;
+
+export const GRAMMAR_QUESTION_COUNT = 3;
+const LISTENING_QUESTION_COUNT = 2;
+const WORD_ORDER_QUESTION_COUNT = 2;
+const MATCHING_PAIRS = 4;
+const MAX_OPTIONS = 4;
+const WORD_ORDER_MAX_WORDS = 14;
+
+export const loadPassMark = (): number => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (PASS_MARK_OPTIONS.includes(stored)) return stored;
+  } catch (e) {
+    // Fall through to the default
+  }
+  return DEFAULT_PASS_MARK;
+};
+
+export const savePassMark = (mark: number) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mark));
+};
+
+const sentenceWords = (sentence: SentenceData) =>
+  sentence.words?.length ? sentence.words.map(w => w.text) : sentence.english.split(' ').filter(Boolean);
+
+const sameWords = (a: string[], b: string[]) =>
+  a.map(comparableWord).filter(Boolean).join(' ') === b.map(comparableWord).filter(Boolean).join(' ');
+
+// One matching question over vocabulary from across the stage
+const matchingQuestion = (levels: SentenceData[], random: () => number): CheckpointQuestion | null => {
+  const seenWords = new Set<string>();
+  const seenMeanings = new Set<string>();
+  const pairs: { word: string; meaning: string }[] = [];
+  for (const vocab of shuffle(levels.flatMap(level => level.vocabAnalysis || []), random)) {
+    const word = vocab.word.trim();
+    const meaning = vocab.meaning.trim();
+    if (!word || !meaning || seenWords.has(comparableWord(word)) || seenMeanings.has(meaning)) continue;
+    seenWords.add(comparableWord(word));
+    seenMeanings.add(meaning);
+    pairs.push({ word, meaning });
+    if (pairs.length >= MATCHING_PAIRS) break;
+  }
+  return pairs.length >= 2 ? { kind: 'matching', pairs } : null;
+};
+
+/**
+ * The questions built from the stage's own levels: meaning matching, listening
+ * identification and word order. Grammar questions come from the model, see
+ * generateCheckpointGrammar.
+ */
+export const buildCheckpointQuestions = (levels: SentenceData[], random: () => number = Math.random): CheckpointQuestion[] => {
+  const questions: CheckpointQuestion[] = [];
+  const matching = matchingQuestion(levels, random);
+  if (matching) questions.push(matching);
+
+  const distinct = levels.filter((level, i) => levels.findIndex(l => l.english === level.english) === i);
+  if (distinct.length >= 2) {
+    shuffle(distinct, random).slice(0, LISTENING_QUESTION_COUNT).forEach(level => {
+      const others = shuffle(distinct.filter(l => l !== level), random).slice(0, MAX_OPTIONS - 1);
+      questions.push({ kind: 'listening', text: level.english, options: shuffle([level, ...others].map(l => l.english), random) });
+    });
+  }
+
+  shuffle(distinct, random)
+    .filter(level => {
+      const count = sentenceWords(level).length;
+      return count >= 3 && count <= WORD_ORDER_MAX_WORDS;
+    })
+    .slice(0, WORD_ORDER_QUESTION_COUNT)
+    .forEach(level => {
+      const words = sentenceWords(level);
+      let shuffled = shuffle(words, random);
+      // Never hand out the sentence already in order
+      for (let tries = 0; tries < 5 && sameWords(shuffled, words); tries++) shuffled = shuffle(words, random);
+      questions.push({ kind: 'wordOrder', sentence: words.join(' '), words: shuffled });
+    });
+
+  return questions;
+};
+
+/**
+ * Credit for one answer, from 0 to 1. Matching earns a share per correct pair;
+ * everything else is right or wrong.
+ */
+export const gradeCheckpointAnswer = (question: CheckpointQuestion, answer: string[]): number => {
+  switch (question.kind) {
+    case 'matching':
+      return question.pairs.filter((pair, i) => answer[i] === pair.meaning).length / question.pairs.length;
+    case 'grammar':
+      return answer[0] === question.answer ? 1 : 0;
+    case 'listening':
+      return answer[0] === question.text ? 1 : 0;
+    case 'wordOrder':
+      return answer.length > 0 && sameWords(answer, question.sentence.split(/\s+/)) ? 1 : 0;
+  }
+};
+
+export const scoreCheckpoint = (credits: number[], passMark: number, now: number = Date.now()): CheckpointResult => {
+  const score = credits.length > 0 ? Math.round((credits.reduce((sum, c) => sum + c, 0) / credits.length) * 100) : 0;
+  return { score, passed: score >= passMark, attemptedAt: now };
+};
+
+// Keeps a pass once earned, otherwise the higher score
+export const betterCheckpointResult = (previous: CheckpointResult | undefined, next: CheckpointResult): CheckpointResult => {
+  if (!previous) return next;
+  if (previous.passed !== next.passed) return previous.passed ? previous : next;
+  return next.score > previous.score ? next : previous;
+};
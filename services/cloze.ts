@@ -0,0 +1,136 @@
+import { AlignedWord, ClozeItem, EvaluationResult, PronunciationError, SentenceData } from "../types";
+import { comparableWord } from "./wordAlignment";
+
+const MAX_BLANKS = 4;
+const MAX_GRAMMAR_BLANKS = 2;
+
+// Function words worth recalling: prepositions, auxiliaries and modals, conjunctions, relatives
+const GRAMMAR_WORDS = new Set([
+  'at', 'in', 'on', 'of', 'for', 'to', 'with', 'by', 'from', 'about', 'into', 'since', 'until', 'during', 'through',
+  'is', 'are', 'was', 'were', 'been', 'being', 'has', 'have', 'had', 'does', 'did',
+  'will', 'would', 'can', 'could', 'should', 'must', 'might', 'may',
+  'and', 'but', 'or', 'so', 'because', 'although', 'though', 'while', 'if', 'unless', 'when', 'than',
+  'which', 'who', 'whom', 'whose', 'that', 'where',
+]);
+
+const sentenceWords = (sentence: SentenceData) =>
+  sentence.words?.length ? sentence.words : sentence.english.split(' ').map(text => ({ text, ipa: '', chinese: '' }));
+
+// Display text of words[start..end] without surrounding punctuation
+const answerText = (words: { text: string }[], start: number, end: number) =>
+  words.slice(start, end + 1).map(w => w.text).join(' ').replace(/^[^A-Za-z0-9]+|[^A-Za-z0-9]+$/g, '');
+
+const INFLECTION_SUFFIXES = new Set(['s', 'es', 'd', 'ed', 'ing']);
+
+// Whether a sentence word is the base word or a regular inflection of it (looks, looked, making)
+const isFormOf = (word: string, base: string) => {
+  if (word === base) return true;
+  const stem = base.replace(/e$/, '');
+  if (base.length < 3 || !word.startsWith(stem)) return false;
+  let suffix = word.slice(stem.length);
+  // Doubled final consonant: stop → stopping
+  if (suffix.length > 1 && suffix[0] === stem[stem.length - 1]) suffix = suffix.slice(1);
+  return INFLECTION_SUFFIXES.has(suffix);
+};
+
+/**
+ * Blanks for a level: its vocabulary first (phrases included), then a couple of
+ * grammar words, in sentence order. Items carry no distractors yet.
+ */
+export const buildClozeItems = (sentence: SentenceData): ClozeItem[] => {
+  const words = sentenceWords(sentence);
+  const keys = words.map(w => comparableWord(w.text));
+  const taken = new Set<number>();
+  const items: ClozeItem[] = [];
+
+  // Vocabulary is listed in its base form, so "look forward to" also finds "looking forward to"
+  const findRun = (tokens: string[]) => keys.findIndex((_, start) =>
+    tokens.every((token, k) => start + k < keys.length && isFormOf(keys[start + k], token) && !taken.has(start + k)));
+
+  for (const vocab of sentence.vocabAnalysis || []) {
+    if (items.length >= MAX_BLANKS) break;
+    const tokens = vocab.word.split(/\s+/).map(comparableWord).filter(Boolean);
+    const start = tokens.length > 0 ? findRun(tokens) : -1;
+    if (start < 0) continue;
+    const end = start + tokens.length - 1;
+    for (let i = start; i <= end; i++) taken.add(i);
+    items.push({ start, end, answer: answerText(words, start, end), kind: 'vocab', meaning: vocab.meaning, distractors: [] });
+  }
+
+  let grammarBlanks = 0;
+  keys.forEach((key, index) => {
+    if (items.length >= MAX_BLANKS || grammarBlanks >= MAX_GRAMMAR_BLANKS) return;
+    if (!GRAMMAR_WORDS.has(key) || taken.has(index)) return;
+    taken.add(index);
+    grammarBlanks++;
+    items.push({ start: index, end: index, answer: answerText(words, index, index), kind: 'grammar', meaning: words[index].chinese, distractors: [] });
+  });
+
+  return items.sort((a, b) => a.start - b.start);
+};
+
+export const isClozeAnswerCorrect = (item: ClozeItem, answer: string) =>
+  answer.split(/\s+/).map(comparableWord).filter(Boolean).join(' ') ===
+  item.answer.split(/\s+/).map(comparableWord).filter(Boolean).join(' ');
+
+/**
+ * Grades filled-in blanks. Wrong and empty blanks become errors on the blanked
+ * words, so the level's history shows them the same way as other attempts.
+ */
+export const gradeCloze = (sentence: SentenceData, items: ClozeItem[], answers: string[], now: number = Date.now()): EvaluationResult => {
+  const words = sentenceWords(sentence);
+  const aligned: AlignedWord[] = [];
+  const errors: PronunciationError[] = [];
+  let correct = 0;
+
+  items.forEach((item, i) => {
+    const answer = (answers[i] || '').trim();
+    const isCorrect = isClozeAnswerCorrect(item, answer);
+    if (isCorrect) correct++;
+    for (let index = item.start; index <= item.end; index++) {
+      const word = words[index];
+      const op = isCorrect ? 'match' : answer ? 'substitution' : 'omission';
+      // The typed answer is shown once, under the first word of the blank
+      aligned.push({ op, target: word.text, ...(answer && index === item.start ? { spoken: answer } : {}), targetIndex: index });
+      if (isCorrect) continue;
+      errors.push({
+        word: comparableWord(word.text),
+        expectedPhoneme: word.ipa,
+        actualPhonemeLike: answer,
+        tip: answer ? `这里应填 "${item.answer}"，你填的是 "${answer}"。` : `这个空没有填，答案是 "${item.answer}"。`,
+        example: item.meaning ? `${item.answer} — ${item.meaning}` : item.answer,
+      });
+    }
+  });
+
+  const count = (op: AlignedWord['op']) => aligned.filter(w => w.op === op).length;
+  return {
+    mode: 'cloze',
+    transcript: answers.map(a => a.trim()).join(' / '),
+    errors,
+    feedback: correct === items.length ? '全部填对了！' : `填对 ${correct}/${items.length} 个空，红色单词可点开查看解析。`,
+    alignment: { words: aligned, matched: count('match'), substituted: count('substitution'), omitted: count('omission'), inserted: 0 },
+    cloze: { correct, total: items.length },
+    attemptedAt: now,
+  };
+};
+
+export interface ClozeSummary {
+  correct: number;
+  total: number;
+  levels: number; // Levels with at least one cloze attempt
+}
+
+// Best cloze attempt per level, added up over the course
+export const summarizeCloze = (history: Record<number, EvaluationResult[]>): ClozeSummary | null => {
+  const summary: ClozeSummary = { correct: 0, total: 0, levels: 0 };
+  Object.values(history).forEach(attempts => {
+    const tallies = attempts.map(a => a.cloze).filter((t): t is NonNullable<EvaluationResult['cloze']> => !!t && t.total > 0);
+    if (tallies.length === 0) return;
+    const best = tallies.reduce((a, b) => (b.correct / b.total > a.correct / a.total ? b : a));
+    summary.correct += best.correct;
+    summary.total += best.total;
+    summary.levels++;
+  });
+  return summary.levels > 0 ? summary : null;
+};
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { SentenceData } from '../types';
+import { collectVocab, exportFileName, toAnkiDeck, toCsv } from './courseExport';
+
+const level = (overrides: Partial<SentenceData> = {}): SentenceData => ({
+  id: 1,
+  english: 'She said "hi", then left.',
+  chinese: '她说了声"嗨"，然后走了。',
+  difficulty: 'Basic',
+  grammarAnalysis: ['直接引语', 'then 连接先后动作'],
+  grammarTags: [],
+  vocabAnalysis: [{ word: 'left', pos: 'v.', meaning: '离开', usage: 'leave 的过去式', isUserWord: true }],
+  phonetics: '/ʃi sɛd/',
+  tip: { content: '' },
+  words: [{ text: 'left.', ipa: 'lɛft', chinese: '离开' }],
+  ...overrides,
+});
+
+describe('toCsv', () => {
+  it('starts with a BOM and ends rows with CRLF', () => {
+    const csv = toCsv({ title: 'T', sentences: [level()] });
+    expect(csv.startsWith('﻿关卡,English,中文,难度,音标,语法要点,重点词汇\r\n')).toBe(true);
+    expect(csv.endsWith('\r\n')).toBe(true);
+  });
+
+  it('quotes cells with commas, quotes and line breaks', () => {
+    const [, row] = toCsv({ title: 'T', sentences: [level()] }).slice(1).split('\r\n');
+    expect(row).toBe('1,"She said ""hi"", then left.","她说了声""嗨""，然后走了。",Basic,/ʃi sɛd/,"直接引语\nthen 连接先后动作",left (v.) 离开');
+  });
+
+  it('keeps spreadsheets from reading cells as formulas', () => {
+    const [, row] = toCsv({ title: 'T', sentences: [level({ english: '=1+1', chinese: '-5, really' })] }).slice(1).split('\r\n');
+    expect(row.startsWith(`1,'=1+1,"'-5, really",`)).toBe(true);
+  });
+});
+
+describe('toAnkiDeck', () => {
+  it('writes the import header lines', () => {
+    const lines = toAnkiDeck({ title: 'Trip: Day 1', sentences: [level()] }).split('\n');
+    expect(lines.slice(0, 5)).toEqual([
+      '#separator:tab',
+      '#html:true',
+      '#notetype:Basic',
+      '#deck:Linguist AI::Trip Day 1',
+      '#tags column:3',
+    ]);
+  });
+
+  it('writes one single-line note per word with front, back and tags', () => {
+    const deck = toAnkiDeck({ title: 'T', sentences: [level({ vocabAnalysis: [{ word: 'left', pos: 'phrasal verb', meaning: '离开', usage: 'line one\nline two', isUserWord: true }] })] });
+    const notes = deck.trimEnd().split('\n').filter(line => !line.startsWith('#'));
+    expect(notes).toHaveLength(1);
+    const [front, back, tags] = notes[0].split('\t');
+    expect(front).toBe('<b>left</b><br>/lɛft/');
+    expect(back).toContain('<i>line one line two</i>');
+    expect(back).toContain('She said &quot;hi&quot;, then <b>left</b>.');
+    expect(tags).toBe('linguist level_1 my_word phrasal_verb');
+  });
+
+  it('references audio files when given', () => {
+    const deck = toAnkiDeck({ title: 'T', sentences: [level()] }, { left: 'word.wav' });
+    expect(deck).toContain('<b>left</b><br>/lɛft/ [sound:word.wav]');
+  });
+});
+
+describe('collectVocab', () => {
+  it('lists each word once, at the level it was first taught', () => {
+    const entries = collectVocab([level(), level({ id: 2, vocabAnalysis: [{ word: 'Left', pos: 'v.', meaning: '左', usage: '', isUserWord: false }] })]);
+    expect(entries.map(e => [e.word, e.level])).toEqual([['left', 1]]);
+  });
+});
+
+describe('exportFileName', () => {
+  it('replaces characters file systems reject', () => {
+    expect(exportFileName('  A/B: "C"  ', 'csv')).toBe('A-B-C.csv');
+    expect(exportFileName('???', 'txt')).toBe('linguist-course.txt');
+  });
+});
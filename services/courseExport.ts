@@ -0,0 +1,243 @@
+import { SentenceData } from "../types";
+import { normalizeToken } from "./curriculumValidator";
+import { hashString } from "./aiProvider";
+import { grammarTagLabel } from "./grammarTaxonomy";
+
+/**
+ * Exporters for taking a course offline. Everything here is a pure function of the
+ * course data; fetching audio and triggering downloads is left to the caller.
+ */
+
+export interface ExportCourse {
+  title: string;
+  sentences: SentenceData[];
+}
+
+export interface ExportVocabEntry {
+  word: string;
+  pos: string;
+  meaning: string;
+  usage: string;
+  ipa: string;
+  isUserWord: boolean;
+  level: number; // 1-based level the word was first taught in
+  context: { english: string; chinese: string };
+}
+
+const stripSlashes = (ipa: string) => ipa.trim().replace(/^\/|\/$/g, '');
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+export const exportFileName = (title: string, extension: string) => {
+  const base = title.replace(/[\\/:*?"<>|\s]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${base || 'linguist-course'}.${extension}`;
+};
+
+/**
+ * One entry per distinct vocabAnalysis word, in course order. IPA falls back to the
+ * word-by-word breakdown when the analysis left it out.
+ */
+export const collectVocab = (sentences: SentenceData[]): ExportVocabEntry[] => {
+  const seen = new Set<string>();
+  const entries: ExportVocabEntry[] = [];
+
+  sentences.forEach((sentence, index) => {
+    sentence.vocabAnalysis.forEach(item => {
+      const key = item.word.split(/\s+/).map(normalizeToken).filter(Boolean).join(' ');
+      if (!key || seen.has(key)) return;
+      seen.add(key);
+      const detail = sentence.words.find(w => normalizeToken(w.text) === key);
+      entries.push({
+        word: item.word,
+        pos: item.pos,
+        meaning: item.meaning,
+        usage: item.usage,
+        ipa: stripSlashes(item.ipa || detail?.ipa || ''),
+        isUserWord: item.isUserWord,
+        level: index + 1,
+        context: { english: sentence.english, chinese: sentence.chinese },
+      });
+    });
+  });
+
+  return entries;
+};
+
+// --- Anki ---
+
+export const audioFileName = (text: string) => `linguist-${hashString(text)}.wav`;
+
+// Texts worth recording for an Anki deck with audio: each word and its context sentence
+export const collectAudioTexts = (sentences: SentenceData[]): string[] => {
+  const texts = new Set<string>();
+  collectVocab(sentences).forEach(entry => {
+    texts.add(entry.word);
+    texts.add(entry.context.english);
+  });
+  return [...texts];
+};
+
+// Anki text import splits on tabs and newlines, so fields must be single-line HTML
+const ankiField = (html: string) => html.replace(/[\t\r\n]+/g, ' ');
+
+const ankiTag = (text: string) => text.trim().replace(/\s+/g, '_');
+
+/**
+ * Tab-separated notes for Anki's "Import File" (2.1.55+ header syntax).
+ * `audioFiles` maps spoken text to a media file name; when given, cards reference
+ * the files with [sound:] tags and the files must be copied into collection.media.
+ */
+export const toAnkiDeck = (course: ExportCourse, audioFiles: Record<string, string> = {}): string => {
+  const sound = (text: string) => (audioFiles[text] ? ` [sound:${audioFiles[text]}]` : '');
+  const lines = [
+    '#separator:tab',
+    '#html:true',
+    '#notetype:Basic',
+    `#deck:Linguist AI::${course.title.replace(/[\s:]+/g, ' ').trim()}`,
+    '#tags column:3',
+  ];
+
+  collectVocab(course.sentences).forEach(entry => {
+    const highlighted = escapeHtml(entry.context.english).replace(
+      new RegExp(`(${escapeRegExp(escapeHtml(entry.word))})`, 'i'),
+      '<b>$1</b>'
+    );
+    const front = `<b>${escapeHtml(entry.word)}</b>`
+      + (entry.ipa ? `<br>/${escapeHtml(entry.ipa)}/` : '')
+      + sound(entry.word);
+    const back = `${escapeHtml(entry.pos)} · ${escapeHtml(entry.meaning)}`
+      + (entry.usage ? `<br><i>${escapeHtml(entry.usage)}</i>` : '')
+      + `<hr>${highlighted}${sound(entry.context.english)}`
+      + `<br>${escapeHtml(entry.context.chinese)}`;
+    const tags = ['linguist', `level_${entry.level}`, ...(entry.isUserWord ? ['my_word'] : []), ankiTag(entry.pos)];
+    lines.push([front, back, tags.filter(Boolean).join(' ')].map(ankiField).join('\t'));
+  });
+
+  return lines.join('\n') + '\n';
+};
+
+// --- CSV ---
+
+const csvCell = (value: string | number) => {
+  let text = String(value);
+  // Keep spreadsheets from evaluating generated text as a formula
+  if (/^[=+\-@]/.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * One row per level. Starts with a BOM so Excel opens the Chinese columns as UTF-8.
+ */
+export const toCsv = (course: ExportCourse): string => {
+  const header = ['关卡', 'English', '中文', '难度', '音标', '语法要点', '重点词汇'];
+  const rows = course.sentences.map((sentence, index) => [
+    index + 1,
+    sentence.english,
+    sentence.chinese,
+    sentence.difficulty,
+    sentence.phonetics,
+    sentence.grammarAnalysis.join('\n'),
+    sentence.vocabAnalysis.map(v => `${v.word} (${v.pos}) ${v.meaning}`).join('\n'),
+  ]);
+  return '\uFEFF' + [header, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Markdown ---
+
+const markdownCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s*\n\s*/g, ' ');
+
+export const toMarkdown = (course: ExportCourse): string => {
+  const sections = course.sentences.map((sentence, index) => {
+    const lines = [
+      `## 第 ${index + 1} 关 · ${sentence.difficulty}`,
+      '',
+      `> ${sentence.english}`,
+      '',
+      `**翻译**：${sentence.chinese}`,
+    ];
+    if (sentence.phonetics) lines.push('', `**音标**：/${stripSlashes(sentence.phonetics)}/`);
+
+    lines.push('', '### 语法分析', '', ...sentence.grammarAnalysis.map((point, i) => {
+      const tagging = sentence.grammarTags[i];
+      return tagging ? `- **${grammarTagLabel(tagging.tag)}** ${point}` : `- ${point}`;
+    }));
+
+    if (sentence.vocabAnalysis.length > 0) {
+      lines.push('', '### 重点词汇', '', '| 单词 | 音标 | 词性 | 释义 | 用法 |', '| --- | --- | --- | --- | --- |');
+      sentence.vocabAnalysis.forEach(v => {
+        const ipa = v.ipa ? `/${stripSlashes(v.ipa)}/` : '';
+        lines.push(`| ${[v.word, ipa, v.pos, v.meaning, v.usage].map(markdownCell).join(' | ')} |`);
+      });
+    }
+
+    if (sentence.tip.content) lines.push('', `> 💡 ${sentence.tip.content.replace(/\n/g, '\n> ')}`);
+    return lines.join('\n');
+  });
+
+  return [`# ${course.title}`, '', `共 ${course.sentences.length} 关`, '', ...sections.map(s => `${s}\n`)].join('\n');
+};
+
+// --- Printable worksheet ---
+
+export interface WorksheetOptions {
+  hideTranslation?: boolean; // Leave lines to write the translation, with an answer key at the end
+}
+
+const WORKSHEET_STYLE = `
+  @page { size: A4; margin: 18mm 16mm; }
+  body { font-family: "Nunito", "PingFang SC", "Microsoft YaHei", sans-serif; color: #1e293b; line-height: 1.5; }
+  h1 { font-size: 20pt; margin: 0 0 4pt; }
+  .meta { color: #64748b; font-size: 10pt; margin-bottom: 16pt; }
+  .meta span { display: inline-block; margin-right: 24pt; }
+  .level { display: grid; grid-template-columns: 1fr 1fr; gap: 12pt; padding: 10pt 0; border-top: 1px solid #e2e8f0; break-inside: avoid; }
+  .num { grid-column: 1 / -1; font-size: 9pt; font-weight: bold; color: #94a3b8; }
+  .english { font-size: 12pt; font-weight: 600; }
+  .chinese { font-size: 11pt; color: #334155; }
+  .blank { border-bottom: 1px solid #94a3b8; height: 20pt; }
+  .vocab { grid-column: 1 / -1; font-size: 9pt; color: #475569; }
+  .answers { break-before: page; }
+  .answers li { font-size: 10pt; margin-bottom: 4pt; }
+  @media screen { body { max-width: 210mm; margin: 24px auto; } }
+`;
+
+/**
+ * A standalone HTML page laid out for A4 printing: English on the left, Chinese
+ * (or writing lines) on the right, with the level's key words underneath.
+ */
+export const toWorksheetHtml = (course: ExportCourse, options: WorksheetOptions = {}): string => {
+  const levels = course.sentences.map((sentence, index) => {
+    const vocab = sentence.vocabAnalysis.map(v => `<b>${escapeHtml(v.word)}</b> ${escapeHtml(v.meaning)}`).join('；');
+    const translation = options.hideTranslation
+      ? '<div class="blank"></div><div class="blank"></div>'
+      : `<div class="chinese">${escapeHtml(sentence.chinese)}</div>`;
+    return `<section class="level">
+  <div class="num">${index + 1}</div>
+  <div class="english">${escapeHtml(sentence.english)}</div>
+  <div>${translation}</div>
+  ${vocab ? `<div class="vocab">${vocab}</div>` : ''}
+</section>`;
+  });
+
+  const answers = options.hideTranslation
+    ? `<section class="answers"><h2>参考译文</h2><ol>${course.sentences.map(s => `<li>${escapeHtml(s.chinese)}</li>`).join('')}</ol></section>`
+    : '';
+
+  return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(course.title)}</title>
+<style>${WORKSHEET_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(course.title)}</h1>
+<div class="meta"><span>姓名：________________</span><span>日期：________________</span><span>共 ${course.sentences.length} 题</span></div>
+${levels.join('\n')}
+${answers}
+</body>
+</html>
+`;
+};
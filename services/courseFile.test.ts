@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { SavedSession } from '../types';
+import { COURSE_FILE_VERSION, CourseFileError, parseCourseFile, serializeCourse } from './courseFile';
+
+const rawLevel = (english: string) => ({
+  english,
+  chinese: '中文',
+  difficulty: 'Basic',
+  phonetics: '',
+  words: english.split(' ').map(text => ({ text, ipa: '', chinese: '' })),
+  grammarAnalysis: ['主谓结构'],
+  vocabAnalysis: [{ word: 'hello', pos: 'int.', meaning: '你好', usage: '' }],
+  tip: { content: '' },
+});
+
+const expectError = (text: string, message: string) => {
+  expect(() => parseCourseFile(text)).toThrow(CourseFileError);
+  expect(() => parseCourseFile(text)).toThrow(message);
+};
+
+describe('parseCourseFile', () => {
+  it('round-trips an exported course as a new, unstarted course', () => {
+    const original = parseCourseFile(JSON.stringify([rawLevel('Hello world.')]), 1);
+    const course: SavedSession = {
+      ...original,
+      title: 'Greetings',
+      progress: { currentIndex: 0, unlockedIndex: 0, history: { 0: [] }, checkpoints: {} },
+      generation: { provider: 'fixture', model: 'm', promptVersion: 'v', generatedAt: Date.UTC(2026, 0, 1) },
+    };
+    const imported = parseCourseFile(serializeCourse(course, 5), 9);
+    expect(imported).toMatchObject({ title: 'Greetings', module: 'article', sentences: course.sentences, generation: course.generation, startedAt: 9 });
+    expect(imported.courseId).not.toBe(course.courseId);
+    expect(imported.progress.history).toEqual({});
+  });
+
+  it('imports a bare level array as a version 0 article course', () => {
+    const course = parseCourseFile(JSON.stringify([rawLevel('Hello world.'), rawLevel('Good night.')]));
+    expect(course.module).toBe('article');
+    expect(course.sourceText).toBe('Hello world. Good night.');
+    expect(course.sentences.map(s => s.id)).toEqual([1, 2]);
+  });
+
+  it('rejects a version 0 file without levels', () => {
+    expectError('{"version":0}', '课程中没有关卡。');
+    expectError('{"version":0,"sentences":{}}', '课程中没有关卡。');
+  });
+
+  it('imports scenario dialogue and rejects it when incomplete', () => {
+    const line = { english: 'Welcome!', chinese: '欢迎！' };
+    const scenario = {
+      title: 'Hotel',
+      setting: '酒店前台',
+      learnerRole: { name: 'Guest', description: '客人' },
+      partnerRole: { name: 'Clerk' },
+      exchanges: [{ partnerLines: [line] }],
+      closingLines: [],
+    };
+    const file = (value: unknown) => JSON.stringify({
+      format: 'linguist-course',
+      version: 1,
+      course: { module: 'scenario', sentences: [rawLevel('A room please.')], scenario: value },
+    });
+
+    expect(parseCourseFile(file(scenario)).scenario).toEqual({
+      ...scenario,
+      partnerRole: { name: 'Clerk', description: '' },
+    });
+    expectError(file({ ...scenario, exchanges: [] }), '场景对话数据不完整');
+    expectError(file({ ...scenario, exchanges: [{ partnerLines: [{ english: 'Hi' }] }] }), '场景对话数据不完整');
+  });
+
+  it('rejects files it cannot use with a readable message', () => {
+    expectError('not json', '文件不是有效的 JSON。');
+    expectError('"text"', '无法识别的课程文件。');
+    expectError('{"format":"other","version":1}', '这不是 Linguist AI 课程文件。');
+    expectError(`{"format":"linguist-course","version":${COURSE_FILE_VERSION + 1}}`, '课程文件来自更新版本的应用');
+    expectError('{"format":"linguist-course","version":1,"course":{"module":"article","sentences":[{"english":"Hi"}]}}', '第 1 关的数据无效');
+  });
+});
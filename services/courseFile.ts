@@ -0,0 +1,154 @@
+import { CourseModule, GenerationInfo, SavedSession, Scenario, SentenceData } from "../types";
+import { validateLevel, validateScenario } from "./curriculumValidator";
+import { createCourseId, defaultCourseTitle } from "./sessionStore";
+import { CEFR_LEVELS } from "./proficiency";
+
+/**
+ * Shareable course files (*.linguist.json), documented in README.md.
+ *
+ *   {
+ *     "format": "linguist-course",
+ *     "version": 1,
+ *     "exportedAt": "2026-10-19T08:00:00.000Z",
+ *     "course": {
+ *       "title": "...", "module": "article" | "vocab" | "scenario", "sourceText": "...",
+ *       "sentences": SentenceData[], "scenario": Scenario | null,
+ *       "generation": { "provider", "model", "promptVersion", "generatedAt" (ISO date), "level"? } | null
+ *     }
+ *   }
+ *
+ * Files carry course content only; practice progress stays with whoever made them.
+ * Bump COURSE_FILE_VERSION when the layout changes and add a migration below.
+ */
+export const COURSE_FILE_FORMAT = 'linguist-course';
+export const COURSE_FILE_VERSION = 1;
+export const COURSE_FILE_EXTENSION = 'linguist.json';
+
+const MODULES: CourseModule[] = ['article', 'vocab', 'scenario'];
+
+// Messages are shown on the input screen as-is
+export class CourseFileError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CourseFileError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type Migration = (file: Record<string, unknown>) => Record<string, unknown>;
+
+// MIGRATIONS[n] upgrades a version n file to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v0: a bare SentenceData[] array, as hand-written or copied out of an older build
+  0: file => {
+    if (!Array.isArray(file.sentences)) throw new CourseFileError('课程中没有关卡。');
+    return {
+      format: COURSE_FILE_FORMAT,
+      version: 1,
+      course: {
+        module: 'article',
+        sourceText: file.sentences.map(s => (isObject(s) && typeof s.english === 'string' ? s.english : '')).join(' '),
+        sentences: file.sentences,
+        scenario: null,
+        generation: null,
+      },
+    };
+  },
+};
+
+export const serializeCourse = (course: SavedSession, exportedAt: number = Date.now()): string => {
+  const { generation } = course;
+  return JSON.stringify({
+    format: COURSE_FILE_FORMAT,
+    version: COURSE_FILE_VERSION,
+    exportedAt: new Date(exportedAt).toISOString(),
+    course: {
+      title: course.title,
+      module: course.module,
+      sourceText: course.sourceText,
+      sentences: course.sentences,
+      scenario: course.scenario,
+      generation: generation ? { ...generation, generatedAt: new Date(generation.generatedAt).toISOString() } : null,
+    },
+  }, null, 2);
+};
+
+const parseScenario = (raw: unknown, levelCount: number): Scenario => {
+  const scenario = validateScenario(raw, levelCount);
+  if (!scenario) throw new CourseFileError('场景对话数据不完整，无法导入。');
+  return scenario;
+};
+
+const parseGeneration = (raw: unknown): GenerationInfo | undefined => {
+  if (!isObject(raw)) return undefined;
+  const generatedAt = typeof raw.generatedAt === 'string' ? Date.parse(raw.generatedAt) : NaN;
+  return {
+    provider: String(raw.provider || 'unknown'),
+    model: String(raw.model || 'unknown'),
+    promptVersion: String(raw.promptVersion || 'unknown'),
+    generatedAt: Number.isNaN(generatedAt) ? 0 : generatedAt,
+    level: CEFR_LEVELS.find(level => level === raw.level),
+  };
+};
+
+/**
+ * Validates a course file (migrating older versions) and turns it into a new,
+ * unstarted course. Throws CourseFileError with a user-facing message.
+ */
+export const parseCourseFile = (text: string, now: number = Date.now()): SavedSession => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new CourseFileError('文件不是有效的 JSON。');
+  }
+  const initial = Array.isArray(parsed) ? { version: 0, sentences: parsed } : parsed;
+  if (!isObject(initial)) throw new CourseFileError('无法识别的课程文件。');
+  let file = initial;
+  if (file.version !== 0 && file.format !== COURSE_FILE_FORMAT) throw new CourseFileError('这不是 Linguist AI 课程文件。');
+
+  let version = file.version;
+  if (typeof version !== 'number') throw new CourseFileError('课程文件缺少版本号。');
+  if (version > COURSE_FILE_VERSION) throw new CourseFileError('课程文件来自更新版本的应用，请先更新后再导入。');
+  while (version < COURSE_FILE_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new CourseFileError(`不支持的课程文件版本 (v${version})。`);
+    file = migrate(file);
+    version++;
+  }
+
+  const course = file.course;
+  if (!isObject(course)) throw new CourseFileError('课程文件缺少课程内容。');
+  const module = MODULES.find(m => m === course.module);
+  if (!module) throw new CourseFileError('未知的课程类型。');
+  if (!Array.isArray(course.sentences) || course.sentences.length === 0) throw new CourseFileError('课程中没有关卡。');
+
+  const sentences: SentenceData[] = [];
+  for (const [index, raw] of course.sentences.entries()) {
+    const { sentence } = validateLevel(raw);
+    if (!sentence) throw new CourseFileError(`第 ${index + 1} 关的数据无效，无法导入。`);
+    sentences.push({ ...sentence, id: index + 1 });
+  }
+
+  const scenario = module === 'scenario' ? parseScenario(course.scenario, sentences.length) : null;
+  const sourceText = typeof course.sourceText === 'string' ? course.sourceText : '';
+  const title = typeof course.title === 'string' && course.title.trim()
+    ? course.title.trim()
+    : defaultCourseTitle(module, sourceText || sentences[0].english, scenario);
+
+  return {
+    courseId: createCourseId(),
+    title,
+    module,
+    sourceText,
+    sentences,
+    scenario,
+    progress: { currentIndex: 0, unlockedIndex: 0, history: {}, checkpoints: {} },
+    isPartial: false,
+    generation: parseGeneration(course.generation),
+    startedAt: now,
+    savedAt: now,
+  };
+};
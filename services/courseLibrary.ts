@@ -0,0 +1,158 @@
+import { SavedSession, SentenceData } from "../types";
+import { migrateSession, SESSION_VERSION, createCourseId, ProgressRecord, applyProgressRecord } from "./sessionStore";
+
+const DB_NAME = 'linguist-course-library';
+const DB_VERSION = 2;
+const COURSE_STORE = 'courses';
+const PROGRESS_STORE = 'progress'; // v2: progress is saved on every step, the course only when its content changes
+
+// Records use the same versioned wrapper as the active session, so migrations are shared
+interface CourseRecord {
+  courseId: string;
+  version: number;
+  session: SavedSession;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(COURSE_STORE)) db.createObjectStore(COURSE_STORE, { keyPath: 'courseId' });
+        if (!db.objectStoreNames.contains(PROGRESS_STORE)) db.createObjectStore(PROGRESS_STORE, { keyPath: 'courseId' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Course library unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+export const getCourseCompletion = (course: SavedSession) =>
+  Math.round((Object.keys(course.progress.history).length / course.sentences.length) * 100);
+
+// Most recently studied first
+export const listCourses = async (): Promise<SavedSession[]> => {
+  const db = await openDatabase();
+  if (!db) return [];
+  try {
+    const transaction = db.transaction([COURSE_STORE, PROGRESS_STORE], 'readonly');
+    const [records, progress] = await Promise.all([
+      promisify(transaction.objectStore(COURSE_STORE).getAll()) as Promise<CourseRecord[]>,
+      promisify(transaction.objectStore(PROGRESS_STORE).getAll()) as Promise<ProgressRecord[]>,
+    ]);
+    const progressById = new Map(progress.map(record => [record.courseId, record]));
+    return records
+      .map(record => migrateSession(record))
+      .filter((course): course is SavedSession => course !== null)
+      .map(course => applyProgressRecord(course, progressById.get(course.courseId)))
+      .sort((a, b) => b.savedAt - a.savedAt);
+  } catch (error) {
+    console.warn("Course library read failed:", error);
+    return [];
+  }
+};
+
+export const getCourse = async (courseId: string): Promise<SavedSession | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+  try {
+    const transaction = db.transaction([COURSE_STORE, PROGRESS_STORE], 'readonly');
+    const [record, progress] = await Promise.all([
+      promisify(transaction.objectStore(COURSE_STORE).get(courseId)),
+      promisify(transaction.objectStore(PROGRESS_STORE).get(courseId)),
+    ]);
+    const course = migrateSession(record);
+    return course && applyProgressRecord(course, progress);
+  } catch (error) {
+    console.warn("Course library read failed:", error);
+    return null;
+  }
+};
+
+export const putCourse = async (course: SavedSession) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    const record: CourseRecord = { courseId: course.courseId, version: SESSION_VERSION, session: course };
+    await promisify(db.transaction(COURSE_STORE, 'readwrite').objectStore(COURSE_STORE).put(record));
+  } catch (error) {
+    console.warn("Course library write failed:", error);
+  }
+};
+
+export const putCourseProgress = async (record: ProgressRecord) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    await promisify(db.transaction(PROGRESS_STORE, 'readwrite').objectStore(PROGRESS_STORE).put(record));
+  } catch (error) {
+    console.warn("Course library write failed:", error);
+  }
+};
+
+export const deleteCourse = async (courseId: string) => {
+  const db = await openDatabase();
+  if (!db) return;
+  const transaction = db.transaction([COURSE_STORE, PROGRESS_STORE], 'readwrite');
+  await Promise.all([
+    promisify(transaction.objectStore(COURSE_STORE).delete(courseId)),
+    promisify(transaction.objectStore(PROGRESS_STORE).delete(courseId)),
+  ]);
+};
+
+// --- Edits (each returns the updated course, or null if it no longer exists) ---
+
+const updateCourse = async (courseId: string, update: (course: SavedSession) => SavedSession): Promise<SavedSession | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+  const updated = update(course);
+  await putCourse(updated);
+  return updated;
+};
+
+export const renameCourse = (courseId: string, title: string) =>
+  updateCourse(courseId, course => ({ ...course, title: title.trim() || course.title }));
+
+/**
+ * Replaces one level's analysis, e.g. after regenerating it. The level's practice
+ * record is kept since the English sentence itself does not change.
+ */
+export const replaceCourseLevel = (courseId: string, index: number, level: SentenceData) =>
+  updateCourse(courseId, course => ({
+    ...course,
+    sentences: course.sentences.map((sentence, i) => (i === index ? { ...level, id: sentence.id } : sentence)),
+  }));
+
+// The copy starts from the first level, so the same material can be practiced again
+export const duplicateCourse = async (courseId: string): Promise<SavedSession | null> => {
+  const course = await getCourse(courseId);
+  if (!course) return null;
+  const now = Date.now();
+  const copy: SavedSession = {
+    ...course,
+    courseId: createCourseId(),
+    title: `${course.title}（副本）`,
+    progress: { currentIndex: 0, unlockedIndex: 0, history: {}, checkpoints: {} },
+    startedAt: now,
+    savedAt: now,
+  };
+  await putCourse(copy);
+  return copy;
+};
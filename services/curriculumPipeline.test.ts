@@ -0,0 +1,72 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { SentenceData } from '../types';
+import { generateArticleCurriculum } from './geminiService';
+import { createCurriculumJob, isJobComplete, runCurriculumJob } from './curriculumPipeline';
+import { createEmptyRepairReport } from './curriculumValidator';
+
+vi.mock('./geminiService', () => ({
+  generateArticleCurriculum: vi.fn(),
+  generateVocabCurriculum: vi.fn(),
+}));
+
+const generate = vi.mocked(generateArticleCurriculum);
+
+const level = (english: string): SentenceData => ({
+  id: 1,
+  english,
+  chinese: '中文',
+  difficulty: 'Basic',
+  grammarAnalysis: [],
+  grammarTags: [],
+  vocabAnalysis: [],
+  phonetics: '',
+  tip: { content: '' },
+  words: [],
+});
+
+// First run emits `delivered` and then fails; returns the source the retry asked for.
+const retrySource = async (text: string, delivered: string[]): Promise<string> => {
+  const job = createCurriculumJob('article', text);
+  generate.mockImplementationOnce(async (_source, onLevel) => {
+    delivered.forEach(english => onLevel?.(level(english)));
+    throw new Error('stream dropped');
+  });
+  await runCurriculumJob(job, () => {});
+
+  generate.mockImplementationOnce(async (_source, onLevel) => {
+    onLevel?.(level('Rest.'));
+    return { sentences: [], report: createEmptyRepairReport() };
+  });
+  await runCurriculumJob(job, () => {});
+  expect(isJobComplete(job)).toBe(true);
+  return generate.mock.calls[1][0];
+};
+
+beforeEach(() => {
+  generate.mockReset();
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+describe('runCurriculumJob retry', () => {
+  const text = 'I came home late, and then I slept for a long time. The rain stopped. We went out.';
+
+  it('resumes after a sentence the model split into two levels', async () => {
+    const source = await retrySource(text, ['I came home late,', 'and then I slept for a long time.']);
+    expect(source).toBe('The rain stopped. We went out.');
+  });
+
+  it('resumes after sentences the model merged into one level', async () => {
+    const source = await retrySource(text, ['I came home late, and then I slept for a long time. The rain stopped.']);
+    expect(source).toBe('We went out.');
+  });
+
+  it('ignores punctuation and case differences in the emitted text', async () => {
+    const source = await retrySource(text, ['I came home late and then I slept for a long time', 'the rain stopped!']);
+    expect(source).toBe('We went out.');
+  });
+
+  it('falls back to counting sentences when the level was reworded', async () => {
+    const source = await retrySource(text, ['I got home late and slept for ages.']);
+    expect(source).toBe('The rain stopped. We went out.');
+  });
+});
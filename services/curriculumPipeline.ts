@@ -0,0 +1,229 @@
+import { CefrLevel, CurriculumRepairReport, CurriculumResult, SentenceData } from "../types";
+import { generateArticleCurriculum, generateVocabCurriculum } from "./geminiService";
+import { createEmptyRepairReport } from "./curriculumValidator";
+import { chunkText, countWords, splitIntoSentences } from "./textChunker";
+import { comparableWord } from "./wordAlignment";
+import { AIErrorKind, toAIError } from "./aiErrors";
+
+export const ARTICLE_CHUNK_WORDS = 300;
+export const CHUNK_CONCURRENCY = 3;
+const RESUME_MATCH_WORDS = 6; // Words at the end of a level looked up in the chunk to find where it stopped
+
+export type CurriculumKind = 'article' | 'vocab';
+
+export type ChunkStatus = 'pending' | 'generating' | 'done' | 'failed' | 'skipped';
+
+export interface ChunkProgress {
+  index: number;
+  wordCount: number;
+  preview: string; // first words of the chunk, for the progress list
+  status: ChunkStatus;
+  levelCount: number;
+  errorKind?: AIErrorKind; // Why the last attempt failed
+}
+
+/**
+ * A curriculum generation run. Articles are split into chunks generated in
+ * parallel; a vocab list is a single chunk. Levels are kept per chunk as they
+ * stream in, so a failed chunk can be retried without redoing the others.
+ */
+export interface CurriculumJob {
+  kind: CurriculumKind;
+  level?: CefrLevel; // Learner's placement level, passed to every chunk's prompt
+  chunks: string[];
+  levels: SentenceData[][];
+  reports: CurriculumRepairReport[];
+  progress: ChunkProgress[];
+}
+
+export const createCurriculumJob = (kind: CurriculumKind, text: string, level?: CefrLevel): CurriculumJob => {
+  const chunks = kind === 'article' ? chunkText(text, ARTICLE_CHUNK_WORDS) : [text];
+  return {
+    kind,
+    level,
+    chunks,
+    levels: chunks.map(() => []),
+    reports: chunks.map(() => createEmptyRepairReport()),
+    progress: chunks.map((chunk, index) => ({
+      index,
+      wordCount: countWords(chunk),
+      preview: chunk.split(/\s+/).slice(0, 8).join(' '),
+      status: 'pending',
+      levelCount: 0,
+    })),
+  };
+};
+
+const splitVocabList = (input: string): string[] =>
+  (input.includes(',') || input.includes('，') || input.includes('\n')
+    ? input.split(/[,，;；\n]+/)
+    : input.split(/\s+/)
+  ).map(w => w.trim()).filter(Boolean);
+
+/**
+ * Where the delivered levels end in an article chunk: the word index right
+ * after the last level's closing words, found by matching each level's tail
+ * in order. Levels the model reworded are skipped; null if the last one was.
+ */
+const findResumeWord = (words: string[], delivered: SentenceData[]): number | null => {
+  const tokens = words.map((word, index) => ({ index, key: comparableWord(word) })).filter(t => t.key);
+  let cursor = 0;
+  let matched = false;
+
+  delivered.forEach(level => {
+    const tail = level.english.split(/\s+/).map(comparableWord).filter(Boolean).slice(-RESUME_MATCH_WORDS);
+    matched = false;
+    if (tail.length === 0) return;
+    for (let start = cursor; start + tail.length <= tokens.length; start++) {
+      if (tail.every((key, offset) => tokens[start + offset].key === key)) {
+        cursor = start + tail.length;
+        matched = true;
+        return;
+      }
+    }
+  });
+
+  if (!matched) return null;
+  return cursor < tokens.length ? tokens[cursor].index : words.length;
+};
+
+/**
+ * The part of a chunk not covered by levels already delivered for it. On a
+ * retry only this is requested again, so levels the learner may already be
+ * playing are never replaced.
+ */
+const remainingSource = (job: CurriculumJob, index: number): string => {
+  const delivered = job.levels[index];
+  if (delivered.length === 0) return job.chunks[index];
+
+  if (job.kind === 'article') {
+    // Levels need not map 1:1 to source sentences, so match on their text first
+    const words = job.chunks[index].split(/\s+/).filter(Boolean);
+    const resumeAt = findResumeWord(words, delivered);
+    if (resumeAt !== null) return words.slice(resumeAt).join(' ');
+
+    const covered = delivered.reduce((sum, level) => sum + splitIntoSentences(level.english).length, 0);
+    return splitIntoSentences(job.chunks[index]).slice(covered).join(' ');
+  }
+
+  const practiced = delivered.map(level => level.english.toLowerCase()).join(' ');
+  return splitVocabList(job.chunks[index]).filter(word => !practiced.includes(word.toLowerCase())).join(', ');
+};
+
+// Rough level count for a chunk, used to draw "generating" placeholders before levels arrive.
+const estimateChunkLevels = (job: CurriculumJob, index: number): number => {
+  if (job.kind === 'article') {
+    return Math.ceil(splitIntoSentences(job.chunks[index]).length / 2);
+  }
+  return Math.min(10, Math.max(5, splitVocabList(job.chunks[index]).length));
+};
+
+export const estimatePendingLevels = (job: CurriculumJob): number =>
+  job.progress.reduce((sum, p) => {
+    if (p.status === 'done' || p.status === 'skipped') return sum;
+    return sum + Math.max(1, estimateChunkLevels(job, p.index) - job.levels[p.index].length);
+  }, 0);
+
+/**
+ * Levels that are playable right now, in original order with contiguous ids.
+ * Levels of a chunk are only exposed once every earlier chunk has finished,
+ * because the earlier chunk's final level count decides their position.
+ */
+export const collectLevels = (job: CurriculumJob): SentenceData[] => {
+  const levels: SentenceData[] = [];
+  for (let i = 0; i < job.chunks.length; i++) {
+    job.levels[i].forEach(level => levels.push({ ...level, id: levels.length + 1 }));
+    const status = job.progress[i].status;
+    if (status !== 'done' && status !== 'skipped') break;
+  }
+  return levels;
+};
+
+/**
+ * Runs `worker` over `items` with at most `limit` in flight at once.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>
+): Promise<void> => {
+  const queue = [...items];
+  const runners = Array.from({ length: Math.min(limit, queue.length) }, async () => {
+    while (queue.length > 0) {
+      const item = queue.shift() as T;
+      await worker(item);
+    }
+  });
+  await Promise.all(runners);
+};
+
+const mergeReport = (target: CurriculumRepairReport, source: CurriculumRepairReport) => {
+  target.renumberedIds = target.renumberedIds || source.renumberedIds;
+  target.retokenized += source.retokenized;
+  target.filledVocab += source.filledVocab;
+  target.regenerated += source.regenerated;
+  target.dropped += source.dropped;
+};
+
+/**
+ * Generates every chunk that is not done yet (all of them on the first run,
+ * only the failed ones on a retry). `onUpdate` fires on every status change and
+ * every streamed level. Never throws; check `isJobComplete` afterwards.
+ */
+export const runCurriculumJob = async (
+  job: CurriculumJob,
+  onUpdate: (progress: ChunkProgress[], levels: SentenceData[]) => void,
+  signal?: AbortSignal
+): Promise<void> => {
+  const update = (index: number, patch: Partial<ChunkProgress>) => {
+    job.progress[index] = { ...job.progress[index], ...patch };
+    onUpdate([...job.progress], collectLevels(job));
+  };
+
+  const pending = job.progress.filter(p => p.status === 'pending' || p.status === 'failed').map(p => p.index);
+  pending.forEach(index => update(index, { status: 'pending', errorKind: undefined }));
+
+  const generate = job.kind === 'article' ? generateArticleCurriculum : generateVocabCurriculum;
+
+  await runWithConcurrency(pending, CHUNK_CONCURRENCY, async index => {
+    if (signal?.aborted) {
+      update(index, { status: 'failed', errorKind: 'aborted' });
+      return;
+    }
+    update(index, { status: 'generating' });
+    try {
+      const source = remainingSource(job, index);
+      if (source) {
+        const result = await generate(source, level => {
+          job.levels[index].push(level);
+          update(index, { levelCount: job.levels[index].length });
+        }, { signal, level: job.level });
+        mergeReport(job.reports[index], result.report);
+      }
+      if (job.levels[index].length === 0) throw new Error("Chunk produced no levels");
+      update(index, { status: 'done' });
+    } catch (error) {
+      console.error(`Error generating chunk ${index + 1}:`, error);
+      update(index, { status: 'failed', errorKind: toAIError(error).kind });
+    }
+  });
+};
+
+export const isJobComplete = (job: CurriculumJob): boolean =>
+  job.progress.every(p => p.status === 'done' || p.status === 'skipped');
+
+/**
+ * Gives up on failed chunks so the levels after them become playable.
+ */
+export const skipFailedChunks = (job: CurriculumJob) => {
+  job.progress = job.progress.map(p => (p.status === 'failed' ? { ...p, status: 'skipped' } : p));
+};
+
+/**
+ * Final course: all delivered levels plus the combined repair report.
+ */
+export const summarizeJob = (job: CurriculumJob): CurriculumResult => {
+  const report = createEmptyRepairReport();
+  job.reports.forEach(r => mergeReport(report, r));
+  return { sentences: collectLevels(job), report };
+};
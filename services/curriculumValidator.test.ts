@@ -0,0 +1,109 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createEmptyRepairReport, repairLevel, validateLevel } from './curriculumValidator';
+
+const rawLevel = (overrides: Record<string, unknown> = {}) => ({
+  id: 1,
+  english: 'The book that I read was good.',
+  chinese: '我读的那本书很好。',
+  difficulty: 'Basic',
+  phonetics: 'ðə bʊk',
+  words: ['The', 'book', 'that', 'I', 'read', 'was', 'good.'].map(text => ({ text, ipa: 'x', chinese: '词' })),
+  grammarAnalysis: [
+    { point: 'that I read 是定语从句', tag: 'relative-clause', span: 'that I read' },
+    { point: 'was 是一般过去时', tag: 'past-simple', span: 'was' },
+  ],
+  vocabAnalysis: [{ word: 'read', pos: 'v.', meaning: '读', usage: '' }],
+  tip: { content: '小贴士' },
+  ...overrides,
+});
+
+describe('validateLevel', () => {
+  it('accepts a complete level without issues', () => {
+    const { sentence, issues } = validateLevel(rawLevel());
+    expect(issues).toEqual([]);
+    expect(sentence).toMatchObject({ english: 'The book that I read was good.', difficulty: 'Basic', tip: { content: '小贴士' } });
+  });
+
+  it('rejects levels missing the sentence, translation or grammar notes', () => {
+    expect(validateLevel(null).sentence).toBeNull();
+    expect(validateLevel(rawLevel({ chinese: ' ' }))).toMatchObject({ sentence: null, english: 'The book that I read was good.' });
+    expect(validateLevel(rawLevel({ grammarAnalysis: [] })).sentence).toBeNull();
+  });
+
+  it('re-splits words that do not match the sentence, keeping known glosses', () => {
+    const { sentence, issues } = validateLevel(rawLevel({ words: [{ text: 'book', ipa: 'bʊk', chinese: '书' }] }));
+    expect(issues).toContain('retokenized');
+    expect(sentence!.words.map(w => w.text)).toEqual(['The', 'book', 'that', 'I', 'read', 'was', 'good.']);
+    expect(sentence!.words[1]).toEqual({ text: 'book', ipa: 'bʊk', chinese: '书' });
+  });
+
+  it('fills vocabulary from word glosses when none was given', () => {
+    const { sentence, issues } = validateLevel(rawLevel({ vocabAnalysis: [] }));
+    expect(issues).toContain('filledVocab');
+    expect(sentence!.vocabAnalysis.length).toBeGreaterThan(0);
+  });
+
+  it('tags grammar points and finds the words they refer to', () => {
+    const { sentence } = validateLevel(rawLevel());
+    expect(sentence!.grammarTags).toEqual([
+      { tag: 'relative-clause', span: { start: 2, end: 4 } },
+      { tag: 'past-simple', span: { start: 5, end: 5 } },
+    ]);
+  });
+
+  it('keeps plain-text grammar points from older generations untagged', () => {
+    const { sentence } = validateLevel(rawLevel({ grammarAnalysis: ['定语从句', '  '] }));
+    expect(sentence!.grammarAnalysis).toEqual(['定语从句']);
+    expect(sentence!.grammarTags).toEqual([]);
+  });
+
+  it('keeps the tags of a saved level whose points are plain strings', () => {
+    const saved = JSON.parse(JSON.stringify(validateLevel(rawLevel()).sentence));
+    expect(validateLevel(saved).sentence!.grammarTags).toEqual(saved.grammarTags);
+  });
+
+  it('drops saved tags that are invalid or no longer line up with the points', () => {
+    const saved = validateLevel(rawLevel()).sentence!;
+    const revalidate = (overrides: Record<string, unknown>) => validateLevel({ ...saved, ...overrides }).sentence!.grammarTags;
+    expect(revalidate({ grammarTags: saved.grammarTags.slice(1) })).toEqual([]);
+    expect(revalidate({ grammarTags: [saved.grammarTags[0], { tag: 'made-up', span: null }] })).toEqual([]);
+    expect(revalidate({ grammarTags: [saved.grammarTags[0], { tag: 'past-simple', span: { start: 5, end: 9 } }] })).toEqual([]);
+    expect(revalidate({ grammarAnalysis: [saved.grammarAnalysis[0], ' ', saved.grammarAnalysis[1]] })).toEqual([]);
+  });
+});
+
+describe('repairLevel', () => {
+  it('counts local repairs in the report', async () => {
+    const report = createEmptyRepairReport();
+    const regenerate = vi.fn();
+    expect(await repairLevel(rawLevel({ vocabAnalysis: [] }), regenerate, report)).not.toBeNull();
+    expect(regenerate).not.toHaveBeenCalled();
+    expect(report).toMatchObject({ filledVocab: 1, regenerated: 0, dropped: 0 });
+  });
+
+  it('regenerates a broken level from its sentence', async () => {
+    const report = createEmptyRepairReport();
+    const regenerate = vi.fn(async () => rawLevel());
+    const sentence = await repairLevel(rawLevel({ chinese: '' }), regenerate, report);
+    expect(regenerate).toHaveBeenCalledWith('The book that I read was good.');
+    expect(sentence?.chinese).toBe('我读的那本书很好。');
+    expect(report).toMatchObject({ regenerated: 1, dropped: 0 });
+  });
+
+  it('drops a level that cannot be regenerated', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const report = createEmptyRepairReport();
+    const sentence = await repairLevel(rawLevel({ chinese: '' }), async () => { throw new Error('offline'); }, report);
+    expect(sentence).toBeNull();
+    expect(report).toMatchObject({ regenerated: 0, dropped: 1 });
+    error.mockRestore();
+  });
+
+  it('drops a level with no sentence without asking for a new one', async () => {
+    const report = createEmptyRepairReport();
+    const regenerate = vi.fn();
+    expect(await repairLevel({ chinese: '你好' }, regenerate, report)).toBeNull();
+    expect(regenerate).not.toHaveBeenCalled();
+    expect(report.dropped).toBe(1);
+  });
+});
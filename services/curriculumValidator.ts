@@ -0,0 +1,285 @@
+import {
+  SentenceData, WordAnalysis, WordDetail, CurriculumRepairReport, GrammarTagging, WordRange, DialogueLine, Scenario, ScenarioRole
+} from "../types";
+import { isGrammarTag } from "./grammarTaxonomy";
+
+const DIFFICULTIES: SentenceData['difficulty'][] = ['Basic', 'Intermediate', 'Advanced'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asString = (value: unknown): string => (typeof value === 'string' ? value.trim() : '');
+
+/**
+ * Token form used to compare `words` against `english`: lowercase, no punctuation.
+ */
+export const normalizeToken = (token: string): string =>
+  token.toLowerCase().replace(/[’‘]/g, "'").replace(/[^a-z0-9'-]/g, '');
+
+const tokensOf = (text: string): string[] => text.split(/\s+/).map(normalizeToken).filter(Boolean);
+
+const toWordDetail = (value: unknown): WordDetail | null => {
+  if (!isObject(value)) return null;
+  const text = asString(value.text);
+  if (!text) return null;
+  return { text, ipa: asString(value.ipa), chinese: asString(value.chinese) };
+};
+
+const toWordAnalysis = (value: unknown): WordAnalysis | null => {
+  if (!isObject(value)) return null;
+  const word = asString(value.word);
+  if (!word) return null;
+  return {
+    word,
+    pos: asString(value.pos),
+    meaning: asString(value.meaning),
+    usage: asString(value.usage),
+    isUserWord: value.isUserWord === true,
+    ipa: asString(value.ipa) || undefined,
+  };
+};
+
+/**
+ * Re-split `english` on whitespace, carrying over IPA/meaning from the
+ * model's words wherever the normalized text still matches.
+ */
+const retokenize = (english: string, previous: WordDetail[]): WordDetail[] => {
+  const pool = [...previous];
+  return english.split(/\s+/).filter(Boolean).map(text => {
+    const key = normalizeToken(text);
+    const matchIndex = pool.findIndex(w => normalizeToken(w.text) === key);
+    const match = matchIndex >= 0 ? pool.splice(matchIndex, 1)[0] : null;
+    return { text, ipa: match?.ipa || '', chinese: match?.chinese || '' };
+  });
+};
+
+// Fallback vocabulary: the longest distinct words of the level, using their per-word glosses.
+const vocabFromWords = (words: WordDetail[]): WordAnalysis[] => {
+  const seen = new Set<string>();
+  return [...words]
+    .filter(w => w.chinese)
+    .sort((a, b) => normalizeToken(b.text).length - normalizeToken(a.text).length)
+    .filter(w => {
+      const key = normalizeToken(w.text);
+      if (key.length < 4 || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .slice(0, 3)
+    .map(w => ({ word: normalizeToken(w.text), pos: '', meaning: w.chinese, usage: '', isUserWord: false, ipa: w.ipa || undefined }));
+};
+
+// Words covered by `excerpt`, found by normalized tokens; the first match wins
+const findSpan = (words: WordDetail[], excerpt: string): WordRange | null => {
+  const target = tokensOf(excerpt);
+  if (target.length === 0) return null;
+  const keys = words.map(w => normalizeToken(w.text));
+  for (let start = 0; start + target.length <= keys.length; start++) {
+    if (!keys[start]) continue;
+    // Tokens that normalize to nothing (a lone dash) are skipped on both sides
+    let k = start;
+    let matched = 0;
+    while (k < keys.length && matched < target.length) {
+      if (keys[k]) {
+        if (keys[k] !== target[matched]) break;
+        matched++;
+      }
+      k++;
+    }
+    if (matched === target.length) return { start, end: k - 1 };
+  }
+  return null;
+};
+
+const isWordIndex = (value: unknown, words: WordDetail[]): value is number =>
+  Number.isInteger(value) && (value as number) >= 0 && (value as number) < words.length;
+
+const toGrammarTagging = (value: unknown, words: WordDetail[]): GrammarTagging | null => {
+  if (!isObject(value) || !isGrammarTag(value.tag)) return null;
+  if (value.span === null) return { tag: value.tag, span: null };
+  const span = value.span;
+  if (!isObject(span) || !isWordIndex(span.start, words) || !isWordIndex(span.end, words) || span.start > span.end) return null;
+  return { tag: value.tag, span: { start: span.start, end: span.end } };
+};
+
+// Tags saved alongside plain-string points, kept only if every one is valid and they still line up
+const toStoredTags = (value: unknown, pointCount: number, words: WordDetail[]): GrammarTagging[] => {
+  if (!Array.isArray(value) || value.length !== pointCount) return [];
+  const tags = value.map(tag => toGrammarTagging(tag, words));
+  return tags.every((tag): tag is GrammarTagging => tag !== null) ? tags : [];
+};
+
+/**
+ * Grammar points are tagged objects in newer generations and plain strings in
+ * older ones and in saved levels, which keep their tags in `storedTags`. Tags
+ * are all or nothing, so grammarTags is either empty or parallel to grammarAnalysis.
+ */
+const toGrammarPoints = (
+  value: unknown,
+  storedTags: unknown,
+  words: WordDetail[]
+): { grammarAnalysis: string[]; grammarTags: GrammarTagging[] } => {
+  const items: unknown[] = Array.isArray(value) ? value : [];
+  const points = items
+    .map(item => (isObject(item)
+      ? { text: asString(item.point), tag: isGrammarTag(item.tag) ? item.tag : 'other' as const, span: asString(item.span), tagged: true }
+      : { text: asString(item), tag: 'other' as const, span: '', tagged: false }))
+    .filter(point => point.text);
+  const grammarAnalysis = points.map(point => point.text);
+  if (points.some(point => point.tagged)) {
+    return { grammarAnalysis, grammarTags: points.map(point => ({ tag: point.tag, span: findSpan(words, point.span) })) };
+  }
+  // A dropped blank point would shift every stored tag after it
+  return { grammarAnalysis, grammarTags: points.length === items.length ? toStoredTags(storedTags, points.length, words) : [] };
+};
+
+export type LevelIssue = 'retokenized' | 'filledVocab';
+
+export interface LevelValidation {
+  sentence: SentenceData | null; // null = unrecoverable, needs a fresh request
+  english: string; // whatever sentence text could be salvaged
+  issues: LevelIssue[];
+}
+
+/**
+ * Validates and normalizes a single generated level.
+ * Levels without an English sentence, translation or grammar notes cannot be repaired locally.
+ */
+export const validateLevel = (raw: unknown): LevelValidation => {
+  if (!isObject(raw)) return { sentence: null, english: '', issues: [] };
+
+  const english = asString(raw.english).replace(/\s+/g, ' ');
+  const chinese = asString(raw.chinese);
+  const hasGrammar = Array.isArray(raw.grammarAnalysis) &&
+    raw.grammarAnalysis.some(item => (isObject(item) ? asString(item.point) : asString(item)));
+
+  if (!english || !chinese || !hasGrammar) {
+    return { sentence: null, english, issues: [] };
+  }
+
+  const issues: LevelIssue[] = [];
+
+  let words = Array.isArray(raw.words)
+    ? raw.words.map(toWordDetail).filter((w): w is WordDetail => w !== null)
+    : [];
+  const wordTokens = words.flatMap(w => tokensOf(w.text));
+  if (wordTokens.join(' ') !== tokensOf(english).join(' ')) {
+    words = retokenize(english, words);
+    issues.push('retokenized');
+  }
+
+  const { grammarAnalysis, grammarTags } = toGrammarPoints(raw.grammarAnalysis, raw.grammarTags, words);
+
+  let vocabAnalysis = Array.isArray(raw.vocabAnalysis)
+    ? raw.vocabAnalysis.map(toWordAnalysis).filter((v): v is WordAnalysis => v !== null)
+    : [];
+  if (vocabAnalysis.length === 0) {
+    vocabAnalysis = vocabFromWords(words);
+    issues.push('filledVocab');
+  }
+
+  const difficulty = DIFFICULTIES.includes(raw.difficulty as SentenceData['difficulty'])
+    ? (raw.difficulty as SentenceData['difficulty'])
+    : 'Intermediate';
+
+  const sentence: SentenceData = {
+    id: 0, // assigned by the caller once the level's position is known
+    english,
+    chinese,
+    difficulty,
+    grammarAnalysis,
+    grammarTags,
+    vocabAnalysis,
+    phonetics: asString(raw.phonetics),
+    tip: { content: isObject(raw.tip) ? asString(raw.tip.content) : '' },
+    words,
+  };
+
+  return { sentence, english, issues };
+};
+
+const isLine = (value: unknown): value is DialogueLine =>
+  isObject(value) && typeof value.english === 'string' && typeof value.chinese === 'string';
+
+// null unless every entry is a dialogue line
+const toLines = (value: unknown): DialogueLine[] | null =>
+  Array.isArray(value) && value.every(isLine) ? value.map(({ english, chinese }) => ({ english, chinese })) : null;
+
+const toRole = (value: Record<string, unknown>): ScenarioRole => ({
+  name: asString(value.name),
+  description: asString(value.description),
+});
+
+/**
+ * Validates a stored or imported scenario against the course's levels: one
+ * exchange per level, every line complete. Returns null when it does not fit.
+ */
+export const validateScenario = (raw: unknown, levelCount: number): Scenario | null => {
+  if (!isObject(raw) || typeof raw.title !== 'string' || !isObject(raw.learnerRole) || !isObject(raw.partnerRole)) return null;
+  const rawExchanges: unknown[] = Array.isArray(raw.exchanges) ? raw.exchanges : [];
+  const exchanges = rawExchanges
+    .map(e => (isObject(e) ? toLines(e.partnerLines) : null))
+    .filter((lines): lines is DialogueLine[] => lines !== null);
+  const closingLines = toLines(raw.closingLines);
+  if (rawExchanges.length !== levelCount || exchanges.length !== levelCount || !closingLines) return null;
+  return {
+    title: raw.title,
+    setting: asString(raw.setting),
+    learnerRole: toRole(raw.learnerRole),
+    partnerRole: toRole(raw.partnerRole),
+    exchanges: exchanges.map(partnerLines => ({ partnerLines })),
+    closingLines,
+  };
+};
+
+export const createEmptyRepairReport = (): CurriculumRepairReport => ({
+  renumberedIds: false,
+  retokenized: 0,
+  filledVocab: 0,
+  regenerated: 0,
+  dropped: 0,
+});
+
+/**
+ * Validates one level, re-requesting it when it cannot be repaired locally.
+ * Updates `report` in place; returns null when the level has to be dropped.
+ * The returned level's id is left for the caller to assign.
+ */
+export const repairLevel = async (
+  raw: unknown,
+  regenerateLevel: (english: string) => Promise<unknown>,
+  report: CurriculumRepairReport
+): Promise<SentenceData | null> => {
+  let result = validateLevel(raw);
+
+  if (!result.sentence && result.english) {
+    try {
+      result = validateLevel(await regenerateLevel(result.english));
+      if (result.sentence) report.regenerated++;
+    } catch (error) {
+      console.error("Level regeneration failed:", error);
+    }
+  }
+
+  if (!result.sentence) {
+    report.dropped++;
+    return null;
+  }
+
+  if (result.issues.includes('retokenized')) report.retokenized++;
+  if (result.issues.includes('filledVocab')) report.filledVocab++;
+  return result.sentence;
+};
+
+/**
+ * Short, user-facing summary of what was repaired. Empty when nothing was changed.
+ */
+export const summarizeRepairs = (report: CurriculumRepairReport): string[] => {
+  const lines: string[] = [];
+  if (report.retokenized > 0) lines.push(`修正了 ${report.retokenized} 个关卡的逐词拆分`);
+  if (report.filledVocab > 0) lines.push(`为 ${report.filledVocab} 个关卡补全了重点词汇`);
+  if (report.regenerated > 0) lines.push(`重新生成了 ${report.regenerated} 个异常关卡`);
+  if (report.dropped > 0) lines.push(`跳过了 ${report.dropped} 个无法修复的关卡`);
+  if (report.renumberedIds) lines.push('已重新整理关卡编号');
+  return lines;
+};
@@ -0,0 +1,93 @@
+import { EvaluationResult, PronunciationError, SentenceData } from "../types";
+import { normalizeToken } from "./curriculumValidator";
+import { alignWords } from "./wordAlignment";
+
+const IRREGULAR_CONTRACTIONS: Record<string, string[]> = {
+  "won't": ['will not'],
+  "can't": ['can not', 'cannot'],
+  "cannot": ['can not'],
+  "shan't": ['shall not'],
+  "let's": ['let us'],
+};
+
+const CONTRACTION_SUFFIXES: [string, string[]][] = [
+  ["n't", ['not']],
+  ["'re", ['are']],
+  ["'ve", ['have']],
+  ["'ll", ['will']],
+  ["'m", ['am']],
+  ["'d", ['would', 'had']],
+  ["'s", ['is', 'has']],
+];
+
+// Other ways to write a (normalized) word: "don't" → [["do", "not"]]
+const expansions = (word: string): string[][] => {
+  if (IRREGULAR_CONTRACTIONS[word]) return IRREGULAR_CONTRACTIONS[word].map(e => e.split(' '));
+  const rule = CONTRACTION_SUFFIXES.find(([suffix]) => word.endsWith(suffix) && word.length > suffix.length);
+  return rule ? rule[1].map(full => [word.slice(0, -rule[0].length), full]) : [];
+};
+
+const startsAt = (tokens: string[], index: number, parts: string[]) =>
+  parts.every((part, k) => tokens[index + k] === part);
+
+/**
+ * Rewrites the answer's contractions to match how the target writes them, so
+ * "do not" for "don't" (or the other way round) is not marked wrong.
+ */
+const reconcileContractions = (target: string[], answer: string[]): string[] => {
+  const result: string[] = [];
+  for (let i = 0; i < answer.length;) {
+    // Written out in the answer, contracted in the target
+    const contracted = target
+      .map(word => ({ word, parts: expansions(word).find(parts => startsAt(answer, i, parts)) }))
+      .find(c => c.parts);
+    if (contracted) {
+      result.push(contracted.word);
+      i += contracted.parts!.length;
+      continue;
+    }
+    // Contracted in the answer, written out in the target
+    const expanded = expansions(answer[i]).find(parts => target.some((_, j) => startsAt(target, j, parts)));
+    result.push(...(expanded || [answer[i]]));
+    i++;
+  }
+  return result;
+};
+
+/**
+ * Grades a typed dictation word by word against the level's sentence. Case,
+ * punctuation and contractions are ignored; misspelled and missed words come
+ * back as errors carrying the word's IPA, so they show up like pronunciation
+ * errors in the level's history.
+ */
+export const gradeDictation = (sentence: SentenceData, answer: string, now: number = Date.now()): EvaluationResult => {
+  const words = sentence.words?.length ? sentence.words : sentence.english.split(' ').map(text => ({ text, ipa: '', chinese: '' }));
+  const target = words.map(w => normalizeToken(w.text)).filter(Boolean);
+  const typed = answer.split(/\s+/).map(normalizeToken).filter(Boolean);
+  const alignment = alignWords(words.map(w => w.text), reconcileContractions(target, typed).join(' '));
+
+  const errors: PronunciationError[] = alignment.words
+    .filter(w => w.op === 'substitution' || w.op === 'omission')
+    .map(w => {
+      const word = words[w.targetIndex];
+      return {
+        word: normalizeToken(word.text),
+        expectedPhoneme: word.ipa,
+        actualPhonemeLike: w.spoken || '',
+        tip: w.op === 'omission' ? '听写时漏掉了这个词，再听一遍注意它的位置。' : `听写时写成了 "${w.spoken}"。`,
+        example: word.chinese ? `${word.text} — ${word.chinese}` : word.text,
+      };
+    });
+
+  const total = alignment.matched + alignment.substituted + alignment.omitted;
+  return {
+    mode: 'dictation',
+    transcript: answer.trim(),
+    errors,
+    feedback: errors.length === 0 && alignment.inserted === 0
+      ? '全部听写正确！'
+      : `听写正确 ${alignment.matched}/${total} 个单词，红色单词可点开查看音标。`,
+    alignment,
+    attemptedAt: now,
+  };
+};
@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AIProvider, setProvider } from './aiProvider';
+import { createFixtureProvider } from './providers/fixtureProvider';
+import { evaluatePronunciation } from './geminiService';
+
+// Answers every request with `body`
+const providerAnswering = (body: object): AIProvider => ({
+  name: 'fixture',
+  generateContent: async () => {
+    const text = JSON.stringify(body);
+    return { text, parts: [{ text }] };
+  },
+  async *generateContentStream() {},
+});
+
+const audio = { mimeType: 'audio/webm', data: 'AAAA' };
+
+afterEach(() => setProvider(createFixtureProvider()));
+
+describe('evaluatePronunciation', () => {
+  it('treats missing errors from the audio evaluation as none', async () => {
+    setProvider(providerAnswering({ accuracy: 90, fluency: 80, feedback: 'Nice' }));
+    const result = await evaluatePronunciation('The cat sat.', 'the cat sat', { audio });
+    expect(result).toMatchObject({ assessedFrom: 'audio', errors: [] });
+  });
+
+  it('drops malformed error entries and fills missing fields', async () => {
+    setProvider(providerAnswering({ accuracy: 60, fluency: 80, errors: [null, 'cat', { tip: '舌尖' }, { word: 'sat', tip: '张嘴' }] }));
+    const result = await evaluatePronunciation('The cat sat.', 'the cat set', { audio });
+    expect(result.errors).toEqual([{ word: 'sat', expectedPhoneme: '', actualPhonemeLike: '', tip: '张嘴', example: '' }]);
+  });
+});
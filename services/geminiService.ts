@@ -1,13 +1,41 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { SentenceData, EvaluationResult } from "../types";
-
-const apiKey = process.env.API_KEY || '';
-const ai = new GoogleGenAI({ apiKey });
+import { Type, Modality } from "@google/genai";
+import {
+  SentenceData, EvaluationResult, CurriculumResult, DialogueLine, ScenarioExchange, ScenarioResult,
+  CefrLevel, PlacementItem, PlacementSkill, GenerationInfo, WordAlignment, ClozeItem,
+  TranslationGrade, TranslationSegment, CheckpointQuestion, GrammarTag, PronunciationError
+} from "../types";
+import { requestContent, requestJson, requestStream, RequestOptions } from "./aiRequest";
+import { getProvider } from "./aiProvider";
+import { AIError, AIErrorKind, toAIError } from "./aiErrors";
+import { RecordedAudio } from "./audioRecorder";
+import { alignWords, comparableWord, describeAlignment } from "./wordAlignment";
+import { toScores, overallScore, clampScore } from "./pronunciationScores";
+import { createEmptyRepairReport, repairLevel, validateLevel } from "./curriculumValidator";
+import { createJsonArrayParser } from "./jsonStream";
+import { CEFR_DESCRIPTIONS } from "./proficiency";
+import { shuffle } from "./shuffle";
+import { GRAMMAR_TAGS, grammarTagLabel } from "./grammarTaxonomy";
 
 const MODEL_NAME = 'gemini-2.5-flash';
-const IMAGE_MODEL_NAME = 'gemini-2.5-flash-image';
-const SPEECH_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+export const IMAGE_MODEL_NAME = 'gemini-2.5-flash-image';
+export const SPEECH_MODEL_NAME = 'gemini-2.5-flash-preview-tts';
+export const SPEECH_VOICE = 'Kore'; // 'Kore' is a good, soothing female voice
+// Bump when the illustration prompt changes so cached images are not reused
+export const IMAGE_STYLE = 'cartoon-v1';
+// Bump when curriculum prompts or schemas change; recorded with every course
+export const PROMPT_VERSION = 'curriculum-v2';
+
+export const getGenerationInfo = (level?: CefrLevel): GenerationInfo => ({
+  provider: getProvider().name,
+  model: MODEL_NAME,
+  promptVersion: PROMPT_VERSION,
+  generatedAt: Date.now(),
+  level,
+});
+
+// How each grammarAnalysis entry is filled in; shared by every prompt that generates levels
+const GRAMMAR_POINT_RULES = `每条语法点的讲解写在 point 中；tag 从以下分类中选最贴切的一项：${GRAMMAR_TAGS.map(t => `${t.tag}（${t.label}）`).join('、')}；span 原样照抄该语法点在 english 中对应的片段。`;
 
 // Schema for sentence generation
 const sentenceGenerationSchema = {
@@ -35,8 +63,16 @@ const sentenceGenerationSchema = {
       },
       grammarAnalysis: {
         type: Type.ARRAY,
-        items: { type: Type.STRING },
-        description: "Key grammatical points and structural analysis in Simplified Chinese."
+        items: {
+          type: Type.OBJECT,
+          properties: {
+            point: { type: Type.STRING, description: "The grammar point and its analysis in Simplified Chinese." },
+            tag: { type: Type.STRING, enum: GRAMMAR_TAGS.map(t => t.tag), description: "Closest category from the fixed taxonomy." },
+            span: { type: Type.STRING, description: "The exact excerpt of `english` the point refers to." }
+          },
+          required: ["point", "tag", "span"]
+        },
+        description: "Key grammatical points and structural analysis."
       },
       vocabAnalysis: {
         type: Type.ARRAY,
@@ -65,12 +101,114 @@ const sentenceGenerationSchema = {
   }
 };
 
+// Schema for scenario role-play dialogues
+const dialogueLineSchema = {
+  type: Type.OBJECT,
+  properties: {
+    english: { type: Type.STRING },
+    chinese: { type: Type.STRING, description: "Natural Simplified Chinese translation" }
+  },
+  required: ["english", "chinese"]
+};
+
+const scenarioRoleSchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING, description: "Short English role name, e.g. Receptionist" },
+    description: { type: Type.STRING, description: "Who this person is, in Simplified Chinese" }
+  },
+  required: ["name", "description"]
+};
+
+const scenarioSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING, description: "Short scenario title in Simplified Chinese" },
+    setting: { type: Type.STRING, description: "One or two sentences describing the situation, in Simplified Chinese" },
+    learnerRole: scenarioRoleSchema,
+    partnerRole: scenarioRoleSchema,
+    exchanges: {
+      type: Type.ARRAY,
+      description: "The dialogue in order. Each exchange is what the partner says, followed by the learner's reply.",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          partnerLines: { type: Type.ARRAY, items: dialogueLineSchema },
+          learnerLine: sentenceGenerationSchema.items
+        },
+        required: ["partnerLines", "learnerLine"]
+      }
+    },
+    closingLines: { type: Type.ARRAY, items: dialogueLineSchema }
+  },
+  required: ["title", "setting", "learnerRole", "partnerRole", "exchanges", "closingLines"]
+};
+
+// Schema for placement test items
+const placementSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      skill: { type: Type.STRING, enum: ['vocab', 'grammar', 'listening', 'speaking'] },
+      question: { type: Type.STRING, description: "Question in Simplified Chinese, including the English stem for vocab and grammar items" },
+      audioText: { type: Type.STRING, description: "English sentence to play (listening) or read aloud (speaking); empty otherwise" },
+      options: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Exactly 4 options; empty for speaking" },
+      answerIndex: { type: Type.INTEGER, description: "Index of the correct option; -1 for speaking" },
+      explanation: { type: Type.STRING, description: "Short explanation in Simplified Chinese" }
+    },
+    required: ["skill", "question", "audioText", "options", "answerIndex", "explanation"]
+  }
+};
+
+// Schema for grammar multiple-choice questions; options are assembled locally so the answer is always among them
+const grammarQuestionSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      question: { type: Type.STRING, description: "Question in Simplified Chinese, with an English sentence using ___ for the gap" },
+      answer: { type: Type.STRING },
+      distractors: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3 wrong options" },
+      explanation: { type: Type.STRING, description: "Short explanation in Simplified Chinese" }
+    },
+    required: ["question", "answer", "distractors", "explanation"]
+  }
+};
+
+// Schema for cloze distractors, one entry per blank in order
+const clozeDistractorSchema = {
+  type: Type.ARRAY,
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      answer: { type: Type.STRING },
+      distractors: { type: Type.ARRAY, items: { type: Type.STRING }, description: "3 wrong options" }
+    },
+    required: ["answer", "distractors"]
+  }
+};
+
 // Schema for pronunciation evaluation
 const evaluationSchema = {
   type: Type.OBJECT,
   properties: {
     transcript: { type: Type.STRING },
     feedback: { type: Type.STRING, description: "Encouraging feedback in Simplified Chinese" },
+    accuracy: { type: Type.INTEGER, description: "0-100, how accurately the sounds were pronounced" },
+    fluency: { type: Type.INTEGER, description: "0-100, how natural the pace, pauses and linking were" },
+    wordConfidence: {
+      type: Type.ARRAY,
+      description: "One entry per word of the target sentence, in order",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          word: { type: Type.STRING },
+          confidence: { type: Type.NUMBER, description: "0-1, how sure you are the word was pronounced correctly" }
+        },
+        required: ["word", "confidence"]
+      }
+    },
     errors: {
       type: Type.ARRAY,
       items: {
@@ -86,7 +224,95 @@ const evaluationSchema = {
       }
     }
   },
-  required: ["transcript", "feedback", "errors"]
+  required: ["transcript", "feedback", "accuracy", "fluency", "wordConfidence", "errors"]
+};
+
+// Schema for grading a learner's English translation of a level's Chinese
+const translationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    feedback: { type: Type.STRING, description: "Encouraging feedback in Simplified Chinese" },
+    meaning: { type: Type.INTEGER, description: "0-100, how fully and faithfully the Chinese meaning is conveyed" },
+    grammar: { type: Type.INTEGER, description: "0-100, grammatical correctness" },
+    naturalness: { type: Type.INTEGER, description: "0-100, how idiomatic it sounds to a native speaker" },
+    segments: {
+      type: Type.ARRAY,
+      description: "The learner's answer split into consecutive pieces, in order, covering all of it",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "Exact text from the learner's answer" },
+          status: { type: Type.STRING, enum: ['match', 'alternative', 'error'] },
+          reference: { type: Type.STRING, description: "The reference wording this piece stands for" },
+          correction: { type: Type.STRING, description: "For errors: what to write instead" },
+          note: { type: Type.STRING, description: "Short explanation in Simplified Chinese" }
+        },
+        required: ["text", "status"]
+      }
+    },
+    missing: {
+      type: Type.ARRAY,
+      description: "Parts of the reference meaning the answer leaves out",
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          text: { type: Type.STRING, description: "The reference wording" },
+          note: { type: Type.STRING, description: "Short explanation in Simplified Chinese" }
+        },
+        required: ["text", "note"]
+      }
+    },
+    improved: { type: Type.STRING, description: "The learner's answer with its errors fixed, otherwise unchanged" }
+  },
+  required: ["feedback", "meaning", "grammar", "naturalness", "segments", "missing", "improved"]
+};
+
+interface RawEvaluation {
+  feedback?: string;
+  accuracy?: number;
+  fluency?: number;
+  wordConfidence?: EvaluationResult['wordConfidence'];
+  errors?: unknown; // Checked by toPronunciationErrors, the model may leave it out or malform it
+}
+
+const textField = (value: unknown) => (typeof value === 'string' ? value : '');
+
+// Entries without a word cannot be shown or matched, so they are dropped
+const toPronunciationErrors = (value: unknown): PronunciationError[] =>
+  (Array.isArray(value) ? value : []).flatMap(entry => {
+    if (typeof entry !== 'object' || entry === null) return [];
+    const word = textField(entry.word).trim();
+    if (!word) return [];
+    return [{
+      word,
+      expectedPhoneme: textField(entry.expectedPhoneme),
+      actualPhonemeLike: textField(entry.actualPhonemeLike),
+      tip: textField(entry.tip),
+      example: textField(entry.example),
+    }];
+  });
+
+const toEvaluationResult = (
+  result: RawEvaluation,
+  errors: EvaluationResult['errors'],
+  transcript: string,
+  alignment: WordAlignment,
+  assessedFrom: EvaluationResult['assessedFrom']
+): EvaluationResult => {
+  const scores = toScores(result.accuracy, result.fluency, alignment);
+  return {
+    score: overallScore(scores),
+    scores,
+    wordConfidence: (result.wordConfidence || [])
+      .filter(w => typeof w?.word === 'string')
+      .map(w => ({ word: w.word, confidence: Math.min(1, Math.max(0, Number(w.confidence) || 0)) })),
+    transcript,
+    feedback: result.feedback || "Good job!",
+    errors,
+    assessedFrom,
+    alignment,
+    attemptedAt: Date.now()
+  };
 };
 
 /**
@@ -96,13 +322,19 @@ const evaluationSchema = {
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  interrupted?: boolean; // Reply was stopped before it finished
 }
 
-export const sendChatMessage = async (history: ChatMessage[], newMessage: string): Promise<string> => {
-  if (!apiKey) throw new Error("API Key is missing");
+const CHAT_SYSTEM_INSTRUCTION = "你是一位友好的英语学习助教。你的任务是帮助用户解答关于英语学习的问题，比如单词用法、语法解释、或者陪练简单的英语对话。请用简洁、鼓励性的语气回答。如果用户用中文提问，请用中文回答；如果用户用英文提问，你可以用英文回答但适当提供中文辅助（除非用户要求全英文）。";
 
+export interface ChatRequestOptions extends RequestOptions {
+  context?: string; // What the learner is currently practicing, see formatTutorContext
+}
+
+const buildChatRequest = (history: ChatMessage[], newMessage: string, context?: string) => ({
+  model: MODEL_NAME, // Basic free model (Flash)
   // Construct the conversation history including the new message
-  const contents = [
+  contents: [
     ...history.map(msg => ({
       role: msg.role,
       parts: [{ text: msg.text }]
@@ -111,32 +343,91 @@ export const sendChatMessage = async (history: ChatMessage[], newMessage: string
       role: 'user',
       parts: [{ text: newMessage }]
     }
-  ];
+  ],
+  config: {
+    systemInstruction: context
+      ? `${CHAT_SYSTEM_INSTRUCTION}\n\n以下是学员当前练习的内容。当学员提到“这句话”“这个词”“这里”时，指的就是它：\n${context}`
+      : CHAT_SYSTEM_INSTRUCTION,
+    temperature: 0.7,
+  }
+});
 
-  try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME, // Basic free model (Flash)
-      contents: contents,
-      config: {
-        systemInstruction: "你是一位友好的英语学习助教。你的任务是帮助用户解答关于英语学习的问题，比如单词用法、语法解释、或者陪练简单的英语对话。请用简洁、鼓励性的语气回答。如果用户用中文提问，请用中文回答；如果用户用英文提问，你可以用英文回答但适当提供中文辅助（除非用户要求全英文）。",
-        temperature: 0.7,
-      }
-    });
+export const sendChatMessage = async (
+  history: ChatMessage[],
+  newMessage: string,
+  options: ChatRequestOptions = {}
+): Promise<string> => {
+  const response = await requestContent(buildChatRequest(history, newMessage, options.context), options);
+  return response.text || "Sorry, I couldn't generate a response.";
+};
 
-    return response.text || "Sorry, I couldn't generate a response.";
-  } catch (error) {
-    console.error("Chat error:", error);
-    return "网络连接似乎有点问题，请稍后再试。";
+/**
+ * Streaming variant of sendChatMessage: yields text deltas as they arrive.
+ * Abort `options.signal` to stop; the caller keeps whatever it has received.
+ */
+export async function* streamChatMessage(
+  history: ChatMessage[],
+  newMessage: string,
+  options: ChatRequestOptions = {}
+): AsyncGenerator<string> {
+  for await (const chunk of requestStream(buildChatRequest(history, newMessage, options.context), options)) {
+    if (chunk.text) yield chunk.text;
+  }
+}
+
+export interface CurriculumOptions extends RequestOptions {
+  level?: CefrLevel; // Learner's placement level; tunes sentence difficulty and explanation depth
+}
+
+/**
+ * Streams a curriculum JSON array, validating each level as soon as it is complete.
+ * `onLevel` receives levels in order with contiguous ids starting at 1.
+ */
+const streamCurriculum = async (
+  prompt: string,
+  temperature: number,
+  onLevel: ((level: SentenceData) => void) | undefined,
+  options: RequestOptions
+): Promise<CurriculumResult> => {
+  const parser = createJsonArrayParser();
+  const report = createEmptyRepairReport();
+  const sentences: SentenceData[] = [];
+
+  const stream = requestStream({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: sentenceGenerationSchema,
+      temperature
+    }
+  }, options);
+
+  for await (const chunk of stream) {
+    for (const item of parser.push(chunk.text)) {
+      const sentence = await repairLevel(item, english => regenerateLevel(english, options), report);
+      if (!sentence) continue;
+
+      const id = sentences.length + 1;
+      if ((item as { id?: unknown })?.id !== id) report.renumberedIds = true;
+      const level = { ...sentence, id };
+      sentences.push(level);
+      onLevel?.(level);
+    }
   }
+
+  return { sentences, report };
 };
 
 /**
  * Mode 1: Article Study
  * Splits a long text into sequential learning segments.
  */
-export const generateArticleCurriculum = async (text: string): Promise<SentenceData[]> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
+export const generateArticleCurriculum = async (
+  text: string,
+  onLevel?: (level: SentenceData) => void,
+  options: CurriculumOptions = {}
+): Promise<CurriculumResult> => {
   const prompt = `
     你是一位资深的语言学家和英语教师。
     用户提供了一段英语文本。
@@ -153,29 +444,17 @@ export const generateArticleCurriculum = async (text: string): Promise<SentenceD
     2. **分析内容（所有解释必须使用简体中文）**：
        - **words 数组**：必须将该片段切分为独立的单词对象，并为**每个单词**提供 IPA 音标和**简短的中文释义**。
        - 翻译：提供地道的简体中文意译。
-       - 语法分析：解析关键语法结构（必须使用中文）。
+       - 语法分析：解析关键语法结构（必须使用中文）。${GRAMMAR_POINT_RULES}
        - 重点词汇（vocabAnalysis）：选出 2-4 个重点单词进行详细解析（释义和用法说明必须使用中文）。
        - 难度评级：Basic/Intermediate/Advanced。
-       - **【轻松一下】**：关于这段话的背景知识、修辞手法或学习技巧（40字以内，必须使用中文）。
+       - **【轻松一下】**：关于这段话的背景知识、修辞手法或学习技巧（40字以内，必须使用中文）。${options.level ? `
+       - **学员水平**：${options.level}（${CEFR_DESCRIPTIONS[options.level]}）。语法分析和词汇讲解的深浅要与之匹配：水平较低时多解释基础结构，水平较高时侧重高级用法和细微差别；重点词汇优先选择略高于该水平的词。` : ''}
     3. **输出格式**：
        - 严格的 JSON 数组。
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: MODEL_NAME,
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: sentenceGenerationSchema,
-        temperature: 0.7
-      }
-    });
-
-    if (response.text) {
-      return JSON.parse(response.text) as SentenceData[];
-    }
-    return [];
+    return await streamCurriculum(prompt, 0.7, onLevel, options);
   } catch (error) {
     console.error("Error generating article curriculum:", error);
     throw error;
@@ -186,9 +465,11 @@ export const generateArticleCurriculum = async (text: string): Promise<SentenceD
  * Mode 2: Vocabulary Study
  * Generates sentences based on a list of words.
  */
-export const generateVocabCurriculum = async (wordsInput: string): Promise<SentenceData[]> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
+export const generateVocabCurriculum = async (
+  wordsInput: string,
+  onLevel?: (level: SentenceData) => void,
+  options: CurriculumOptions = {}
+): Promise<CurriculumResult> => {
   const prompt = `
     你是一位资深的英语教师。
     用户提供了一组单词：${wordsInput}。
@@ -198,11 +479,13 @@ export const generateVocabCurriculum = async (wordsInput: string): Promise<Sente
     1. **造句**：为每个主要单词造一个生动、地道、语境丰富的英语句子。
        - 如果单词较多，可以将 2-3 个相关单词融合到一个连贯的句子中。
        - 确保句子逻辑通顺，不仅仅是单词的堆砌。
-    2. **难度**：B2-C1 高级水平。
+    2. **难度**：${options.level
+      ? `${options.level} 水平（${CEFR_DESCRIPTIONS[options.level]}）。除目标单词外，句子其余部分的词汇和语法不要超出该水平。`
+      : 'B2-C1 高级水平。'}
     3. **分析内容（所有解释必须使用简体中文）**：
        - **words 数组**：必须将句子切分为独立的单词对象，并为**每个单词**提供 IPA 音标和**简短的中文释义**。
        - 翻译：提供地道的简体中文意译。
-       - 语法分析：解析关键语法结构（必须使用中文）。
+       - 语法分析：解析关键语法结构（必须使用中文）。${GRAMMAR_POINT_RULES}
        - 重点词汇（vocabAnalysis）：必须包含用户提供的单词，并进行详细解析（释义和用法说明必须使用中文）。
        - **【轻松一下】**：提供关于该词汇的记忆技巧、词源故事或文化背景（40字以内，必须使用中文）。
     4. **输出格式**：
@@ -210,112 +493,603 @@ export const generateVocabCurriculum = async (wordsInput: string): Promise<Sente
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    return await streamCurriculum(prompt, 0.8, onLevel, options);
+  } catch (error) {
+    console.error("Error generating vocab curriculum:", error);
+    throw error;
+  }
+};
+
+/**
+ * Mode 3: Scenario Role-play
+ * Generates a multi-turn dialogue. The learner's lines become practice levels;
+ * the partner's lines are only read aloud.
+ */
+export const generateScenario = async (
+  situation: string,
+  options: RequestOptions = {}
+): Promise<ScenarioResult> => {
+  const prompt = `
+    你是一位经验丰富的英语口语教练。
+    请根据用户描述的情境，编写一段用于角色扮演练习的英语对话。
+
+    情境: """${situation}"""
+
+    要求：
+    1. **角色**：对话有两个角色。learnerRole 是学员扮演的角色（例如求职者、酒店客人、病人），partnerRole 是对方（例如面试官、前台、医生）。
+    2. **对话结构**：
+       - 共 6-10 轮 exchanges，按时间顺序排列，内容真实、连贯、实用。
+       - 每轮先是 partnerLines（对方说的 0-2 句话，如果由学员开场则第一轮可以为空），然后是学员的一句回应 learnerLine。
+       - learnerLine 的 english 控制在 1-2 个句子，适合跟读练习。
+       - 学员说完最后一句后，对方的收尾话语放在 closingLines（可以为空）。
+    3. **learnerLine 分析内容（所有解释必须使用简体中文）**：
+       - **words 数组**：必须将句子切分为独立的单词对象，并为**每个单词**提供 IPA 音标和**简短的中文释义**。
+       - 翻译：提供地道的简体中文意译。
+       - 语法分析：解析关键语法结构和这个场景下的常用表达（必须使用中文）。${GRAMMAR_POINT_RULES}
+       - 重点词汇（vocabAnalysis）：选出 2-4 个该场景的高频词或短语进行详细解析（必须使用中文）。
+       - 难度评级：Basic/Intermediate/Advanced。
+       - **【轻松一下】**：这句话在该场景中的使用技巧或文化礼仪（40字以内，必须使用中文）。
+    4. **输出格式**：
+       - 严格的 JSON 对象。
+  `;
+
+  try {
+    const raw = await requestJson<{
+      title?: string;
+      setting?: string;
+      learnerRole?: { name?: string; description?: string };
+      partnerRole?: { name?: string; description?: string };
+      exchanges?: { partnerLines?: DialogueLine[]; learnerLine?: unknown }[];
+      closingLines?: DialogueLine[];
+    }>({
       model: MODEL_NAME,
       contents: prompt,
       config: {
         responseMimeType: "application/json",
-        responseSchema: sentenceGenerationSchema,
+        responseSchema: scenarioSchema,
         temperature: 0.8
       }
-    });
+    }, options);
+
+    const report = createEmptyRepairReport();
+    const sentences: SentenceData[] = [];
+    const exchanges: ScenarioExchange[] = [];
+    const isLine = (line: DialogueLine) => !!line?.english?.trim();
+    // Partner lines of a dropped exchange carry over to the next one so the dialogue stays coherent
+    let carriedLines: DialogueLine[] = [];
 
-    if (response.text) {
-      return JSON.parse(response.text) as SentenceData[];
+    for (const exchange of raw.exchanges || []) {
+      const partnerLines = [...carriedLines, ...(exchange.partnerLines || []).filter(isLine)];
+      const sentence = await repairLevel(exchange.learnerLine, english => regenerateLevel(english, options), report);
+      if (!sentence) {
+        carriedLines = partnerLines;
+        continue;
+      }
+      carriedLines = [];
+      sentences.push({ ...sentence, id: sentences.length + 1 });
+      exchanges.push({ partnerLines });
     }
-    return [];
+
+    if (sentences.length === 0) {
+      throw new AIError('malformed', 'Scenario has no usable learner lines');
+    }
+
+    return {
+      sentences,
+      report,
+      scenario: {
+        title: raw.title || situation,
+        setting: raw.setting || '',
+        learnerRole: { name: raw.learnerRole?.name || 'You', description: raw.learnerRole?.description || '' },
+        partnerRole: { name: raw.partnerRole?.name || 'Partner', description: raw.partnerRole?.description || '' },
+        exchanges,
+        closingLines: [...carriedLines, ...(raw.closingLines || []).filter(isLine)],
+      },
+    };
   } catch (error) {
-    console.error("Error generating vocab curriculum:", error);
+    console.error("Error generating scenario:", error);
     throw error;
   }
 };
 
+/**
+ * Placement test: a batch of items at one CEFR level, covering every skill.
+ * Malformed items are dropped rather than shown to the learner.
+ */
+export const generatePlacementItems = async (
+  level: CefrLevel,
+  options: RequestOptions = {}
+): Promise<PlacementItem[]> => {
+  const prompt = `
+    你是一位经验丰富的英语测评专家，正在为中国学员编写 CEFR 分级测试题。
+    请编写 7 道严格符合 ${level} 水平（${CEFR_DESCRIPTIONS[level]}）的题目：
+    - 2 道 vocab：给出一个英语单词或短语，question 写成“xxx 的意思是？”，4 个中文选项。
+    - 2 道 grammar：question 包含一个用 ___ 表示空格的英语句子，4 个英文选项。
+    - 2 道 listening：audioText 是一句会被朗读出来的英语句子（不要出现在 question 中），question 用中文提问（例如“说话人的意思是？”），4 个中文选项。
+    - 1 道 speaking：audioText 是一句让学员朗读的英语句子，question 为“请朗读下面的句子”，options 为空数组，answerIndex 为 -1。
+
+    要求：
+    1. 干扰项要有迷惑性但明确错误，正确答案的位置要随机分布。
+    2. explanation 用一句简体中文说明正确答案的理由。
+    3. 输出严格的 JSON 数组。
+  `;
+
+  try {
+    const raw = await requestJson<Partial<PlacementItem>[]>({
+      model: MODEL_NAME,
+      contents: prompt,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: placementSchema,
+        temperature: 0.9
+      }
+    }, options);
+
+    const skills: PlacementSkill[] = ['vocab', 'grammar', 'listening', 'speaking'];
+    const items = (Array.isArray(raw) ? raw : []).filter((item): item is PlacementItem => {
+      if (!item || !skills.includes(item.skill as PlacementSkill) || !item.question) return false;
+      if (item.skill === 'speaking') return !!item.audioText?.trim();
+      if (item.skill === 'listening' && !item.audioText?.trim()) return false;
+      return Array.isArray(item.options) && item.options.length >= 2 &&
+        Number.isInteger(item.answerIndex) && item.answerIndex! >= 0 && item.answerIndex! < item.options.length;
+    }).map(item => ({
+      ...item,
+      level,
+      audioText: item.audioText || '',
+      options: item.skill === 'speaking' ? [] : item.options,
+      answerIndex: item.skill === 'speaking' ? -1 : item.answerIndex,
+      explanation: item.explanation || '',
+    }));
+
+    if (items.length === 0) throw new AIError('malformed', 'Placement batch has no usable items');
+    return items;
+  } catch (error) {
+    console.error("Error generating placement items:", error);
+    throw error;
+  }
+};
+
+/**
+ * Re-requests a single level whose generated data could not be repaired locally.
+ * The English sentence is kept verbatim; only the analysis is regenerated.
+ */
+const regenerateLevel = async (english: string, options: RequestOptions): Promise<unknown> => {
+  const prompt = `
+    你是一位资深的语言学家和英语教师。
+    请为下面这个英语句子（或片段）生成一个学习关卡（Level）的完整分析。
+
+    句子: """${english}"""
+
+    要求：
+    1. **english 字段必须与上面的句子完全一致**，不要改写。
+    2. **words 数组**：按原句顺序切分为独立的单词对象，拼接后必须还原原句，并为每个单词提供 IPA 音标和简短的中文释义。
+    3. 翻译、语法分析、重点词汇（2-4 个）、【轻松一下】均必须使用简体中文。
+    4. 语法分析：${GRAMMAR_POINT_RULES}
+    5. 输出单个 JSON 对象。
+  `;
+
+  return requestJson<unknown>({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: sentenceGenerationSchema.items,
+      temperature: 0.4
+    }
+  }, options);
+};
+
+/**
+ * Regenerates one level of a saved course from its English sentence, e.g. when the
+ * learner finds the analysis unhelpful. The caller assigns the level's id.
+ */
+export const regenerateSentence = async (english: string, options: RequestOptions = {}): Promise<SentenceData> => {
+  const { sentence } = validateLevel(await regenerateLevel(english, options));
+  if (!sentence) {
+    throw new AIError('malformed', 'Regenerated level failed validation');
+  }
+  return sentence;
+};
+
+const CLOZE_DISTRACTOR_COUNT = 3;
+
+/**
+ * Wrong options for a level's cloze blanks, returned in the order of `items`.
+ * Options that match the answer or repeat are dropped, so a blank may get fewer than three.
+ */
+export const generateClozeDistractors = async (
+  english: string,
+  items: ClozeItem[],
+  options: RequestOptions = {}
+): Promise<string[][]> => {
+  const prompt = `
+    你是一位英语教师，正在为中国学员编写完形填空选择题。
+    句子: "${english}"
+    需要挖空的词（按顺序）: ${items.map(item => `"${item.answer}"`).join(', ')}
+
+    任务：为每个空各写 ${CLOZE_DISTRACTOR_COUNT} 个干扰项。
+    1. 干扰项与答案词性相同、形式相近（如同词根的其他词形、易混淆的近义词或介词），但放进句子后明显错误。
+    2. 干扰项不能是答案本身，也不能是同样正确的答案。
+    3. 短语答案的干扰项也写成短语。
+    4. 按顺序输出 JSON 数组，answer 原样填写挖空的词。
+  `;
+
+  const raw = await requestJson<{ answer?: string; distractors?: unknown[] }[]>({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: clozeDistractorSchema,
+      temperature: 0.7
+    }
+  }, options);
+
+  const entries = Array.isArray(raw) ? raw : [];
+  return items.map((item, index) => {
+    // Prefer the entry for this answer, in case the model skipped or reordered one
+    const entry = entries.find(e => typeof e?.answer === 'string' && comparableWord(e.answer) === comparableWord(item.answer)) || entries[index];
+    const seen = new Set([comparableWord(item.answer)]);
+    return (Array.isArray(entry?.distractors) ? entry!.distractors : [])
+      .filter((d): d is string => typeof d === 'string' && !!d.trim())
+      .map(d => d.trim())
+      .filter(d => {
+        const key = comparableWord(d);
+        if (!key || seen.has(key)) return false;
+        seen.add(key);
+        return true;
+      })
+      .slice(0, CLOZE_DISTRACTOR_COUNT);
+  });
+};
+
+interface RawTranslationGrade {
+  feedback?: string;
+  meaning?: number;
+  grammar?: number;
+  naturalness?: number;
+  segments?: Partial<TranslationSegment>[];
+  missing?: { text?: string; note?: string }[];
+  improved?: string;
+}
+
+const SEGMENT_STATUSES: TranslationSegment['status'][] = ['match', 'alternative', 'error'];
+
+const sameWords = (a: string, b: string) =>
+  a.split(/\s+/).map(comparableWord).filter(Boolean).join(' ') === b.split(/\s+/).map(comparableWord).filter(Boolean).join(' ');
+
+const toTranslationGrade = (raw: RawTranslationGrade, answer: string): TranslationGrade => {
+  const segments = (Array.isArray(raw.segments) ? raw.segments : [])
+    .filter(s => typeof s?.text === 'string' && s.text.trim())
+    .map(s => {
+      const segment: TranslationSegment = { text: s.text!.trim(), status: SEGMENT_STATUSES.includes(s.status!) ? s.status! : 'error' };
+      if (s.reference?.trim()) segment.reference = s.reference.trim();
+      if (s.correction?.trim()) segment.correction = s.correction.trim();
+      if (s.note?.trim()) segment.note = s.note.trim();
+      // A "correction" that changes nothing is not an error
+      if (segment.status === 'error' && segment.correction && sameWords(segment.correction, segment.text)) segment.status = 'match';
+      return segment;
+    });
+  return {
+    meaning: clampScore(raw.meaning),
+    grammar: clampScore(raw.grammar),
+    naturalness: clampScore(raw.naturalness),
+    segments,
+    missing: (Array.isArray(raw.missing) ? raw.missing : [])
+      .filter(m => typeof m?.text === 'string' && m.text.trim())
+      .map(m => ({ text: m.text!.trim(), note: typeof m.note === 'string' ? m.note.trim() : '' })),
+    improved: typeof raw.improved === 'string' && raw.improved.trim() ? raw.improved.trim() : answer,
+  };
+};
+
+/**
+ * Grades a learner's English translation of a level's Chinese on meaning, grammar
+ * and naturalness. The answer comes back as segments annotated against the reference
+ * sentence; wording that differs from the reference but is correct is credited as an
+ * alternative rather than marked wrong.
+ */
+export const evaluateTranslation = async (
+  sentence: SentenceData,
+  answer: string,
+  options: RequestOptions = {}
+): Promise<EvaluationResult> => {
+  const prompt = `
+    你是一位英语写作老师，正在批改中国学员的汉译英练习。
+    中文原句: "${sentence.chinese}"
+    参考译文: "${sentence.english}"
+    学员译文: "${answer}"
+
+    任务：
+    1. 把学员译文按顺序切分成连续的片段 (segments)，所有片段拼起来必须正好是学员译文，text 原样照抄。
+    2. 每个片段标注 status：
+       - match：与参考译文的用词一致；
+       - alternative：与参考译文说法不同，但意思正确、语法无误、表达地道，**必须算对**，reference 填写参考译文中对应的说法；
+       - error：意思错误、语法错误或表达不自然，correction 填写改正后的写法，note 用简体中文简要说明原因。
+    3. 不要因为和参考译文不同就判错；只要是母语者会接受的说法都算 alternative。
+    4. missing 列出参考译文中有、学员译文里没有表达出来的意思；没有则为空数组。
+    5. 打分（0-100 的整数）：meaning 为意思是否完整准确，grammar 为语法是否正确，naturalness 为表达是否地道。
+    6. improved：在学员译文的基础上只改正错误，尽量保留学员自己的说法。
+    7. 给出鼓励性的中文反馈 (feedback)。
+
+    输出格式为JSON。
+  `;
+
+  const raw = await requestJson<RawTranslationGrade>({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: translationSchema,
+      temperature: 0.4
+    }
+  }, options);
+
+  return {
+    mode: 'translation',
+    transcript: answer.trim(),
+    translation: toTranslationGrade(raw || {}, answer.trim()),
+    errors: [],
+    feedback: raw?.feedback || "Good job!",
+    attemptedAt: Date.now()
+  };
+};
+
+/**
+ * Grammar multiple-choice questions for a stage checkpoint, written from the
+ * grammar points of the stage's levels.
+ */
+export const generateCheckpointGrammar = async (
+  levels: SentenceData[],
+  count: number,
+  options: RequestOptions = {}
+): Promise<CheckpointQuestion[]> => {
+  const material = levels
+    .filter(level => level.grammarAnalysis.length > 0)
+    .map(level => `- ${level.english}\n  ${level.grammarAnalysis.join('；')}`)
+    .join('\n');
+  const prompt = `
+    你是一位英语教师，正在为中国学员编写阶段测验的语法选择题。
+    学员在这一阶段练习过以下句子及其语法要点：
+    ${material}
+
+    任务：围绕上面的语法要点编写 ${count} 道选择题。
+    1. question 用中文提问，包含一个用 ___ 表示空格的英语句子；句子要换成新的内容，不要照抄上面的原句。
+    2. answer 为正确选项，distractors 为 3 个明确错误但有迷惑性的选项。
+    3. 每道题考查不同的语法要点。
+    4. explanation 用一句简体中文说明正确答案的理由。
+    5. 输出严格的 JSON 数组。
+  `;
+
+  return requestGrammarQuestions(prompt, count, options);
+};
+
+type GrammarQuestion = Extract<CheckpointQuestion, { kind: 'grammar' }>;
+
+// Questions without a usable answer or any wrong option are dropped
+const requestGrammarQuestions = async (prompt: string, count: number, options: RequestOptions): Promise<GrammarQuestion[]> => {
+  const raw = await requestJson<{ question?: string; answer?: string; distractors?: unknown[]; explanation?: string }[]>({
+    model: MODEL_NAME,
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: grammarQuestionSchema,
+      temperature: 0.8
+    }
+  }, options);
+
+  const questions: GrammarQuestion[] = [];
+  for (const item of Array.isArray(raw) ? raw : []) {
+    const answer = typeof item?.answer === 'string' ? item.answer.trim() : '';
+    if (!answer || typeof item.question !== 'string' || !item.question.trim()) continue;
+    const wrong = (Array.isArray(item.distractors) ? item.distractors : [])
+      .filter((d): d is string => typeof d === 'string' && !!d.trim())
+      .map(d => d.trim())
+      .filter((d, i, all) => d !== answer && all.indexOf(d) === i)
+      .slice(0, 3);
+    if (wrong.length === 0) continue;
+    questions.push({
+      kind: 'grammar',
+      question: item.question.trim(),
+      options: shuffle([answer, ...wrong]),
+      answer,
+      explanation: typeof item.explanation === 'string' ? item.explanation.trim() : ''
+    });
+  }
+  if (questions.length === 0) throw new AIError('malformed', 'Grammar question batch has no usable questions');
+  return questions.slice(0, count);
+};
+
+/**
+ * A targeted drill on one grammar tag, modelled on sentences the learner has
+ * already met with that tag.
+ */
+export const generateGrammarDrill = async (
+  tag: GrammarTag,
+  examples: string[],
+  count: number,
+  options: RequestOptions = {}
+): Promise<GrammarQuestion[]> => {
+  const prompt = `
+    你是一位英语教师，正在为中国学员编写语法专项练习。
+    练习的语法点：${grammarTagLabel(tag)}
+    ${examples.length > 0 ? `学员在课程中见过的例句：\n${examples.map(e => `    - ${e}`).join('\n')}` : ''}
+
+    任务：只围绕"${grammarTagLabel(tag)}"编写 ${count} 道选择题。
+    1. question 用中文提问，包含一个用 ___ 表示空格的英语句子；句子要换成新的内容，难度与例句相当，不要照抄例句。
+    2. answer 为正确选项，distractors 为 3 个明确错误但有迷惑性的选项，错误要体现这个语法点的常见误用。
+    3. 题目之间考查这个语法点的不同方面。
+    4. explanation 用一句简体中文说明正确答案的理由。
+    5. 输出严格的 JSON 数组。
+  `;
+  return requestGrammarQuestions(prompt, count, options);
+};
+
 /**
  * Generates natural speech audio using Gemini TTS.
  * Returns a base64 string of the raw PCM audio data.
  */
-export const generateSpeech = async (text: string): Promise<string | null> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
+export const generateSpeech = async (text: string, options: RequestOptions = {}): Promise<string | null> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await requestContent({
       model: SPEECH_MODEL_NAME,
       contents: [{ parts: [{ text: text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: {
             voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: 'Kore' }, // 'Kore' is a good, soothing female voice
+              prebuiltVoiceConfig: { voiceName: SPEECH_VOICE },
             },
         },
       },
-    });
+    }, { timeoutMs: 30000, ...options });
 
-    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    const base64Audio = response.parts[0]?.inlineData?.data;
     return base64Audio || null;
   } catch (error) {
     console.error("Error generating speech:", error);
-    return null;
+    throw error;
   }
 }
 
 /**
  * Generates a 2D Cartoon/Manga style image for the sentence.
  */
-export const generateSentenceImage = async (sentence: string): Promise<string | null> => {
-  if (!apiKey) throw new Error("API Key is missing");
-
+export const generateSentenceImage = async (sentence: string, options: RequestOptions = {}): Promise<string | null> => {
   const prompt = `Generate a cute, vibrant, 2D cartoon or manga style illustration that depicts the following scene: "${sentence}". The style should be suitable for an educational language learning app. Flat colors, clean lines, clear composition.`;
 
   try {
-    const response = await ai.models.generateContent({
+    const response = await requestContent({
       model: IMAGE_MODEL_NAME,
       contents: {
         parts: [
           { text: prompt }
         ]
       },
-    });
+    }, options);
 
-    if (response.candidates?.[0]?.content?.parts) {
-      for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData && part.inlineData.data) {
-          const base64String = part.inlineData.data;
-          const mimeType = part.inlineData.mimeType || 'image/png';
-          return `data:${mimeType};base64,${base64String}`;
-        }
+    for (const part of response.parts) {
+      if (part.inlineData && part.inlineData.data) {
+        const base64String = part.inlineData.data;
+        const mimeType = part.inlineData.mimeType || 'image/png';
+        return `data:${mimeType};base64,${base64String}`;
       }
     }
     
     return null;
   } catch (error) {
     console.error("Error generating image:", error);
-    return null;
+    throw error;
   }
 };
 
-export const evaluatePronunciation = async (targetSentence: string, userTranscript: string): Promise<EvaluationResult> => {
-  if (!apiKey) throw new Error("API Key is missing");
+export interface EvaluationOptions extends RequestOptions {
+  audio?: RecordedAudio | null; // The learner's recording; without it only the transcript is compared
+  alignment?: WordAlignment; // Computed from the target and transcript when not given
+  overlapping?: boolean; // Shadowing: the recording also picks up the model audio played alongside
+}
+
+// Failures where the transcript-only evaluation is still worth trying
+const AUDIO_FALLBACK_KINDS: AIErrorKind[] = ['malformed', 'safety', 'timeout', 'unknown'];
+
+/**
+ * Pronunciation feedback for one attempt. With a recording, errors are judged from
+ * the audio itself, which catches words the speech recognizer silently autocorrected;
+ * the transcript-only comparison is the fallback when there is no usable recording.
+ */
+export const evaluatePronunciation = async (
+  targetSentence: string,
+  userTranscript: string,
+  options: EvaluationOptions = {}
+): Promise<EvaluationResult> => {
+  const { audio, alignment = alignWords(targetSentence.split(/\s+/), userTranscript), overlapping = false, ...requestOptions } = options;
+  if (audio) {
+    try {
+      return await evaluateRecording(targetSentence, userTranscript, alignment, audio, overlapping, requestOptions);
+    } catch (error) {
+      const aiError = toAIError(error);
+      if (!AUDIO_FALLBACK_KINDS.includes(aiError.kind)) throw aiError;
+      console.warn("Audio evaluation failed, comparing the transcript instead:", aiError);
+    }
+  }
+  return evaluateTranscript(targetSentence, userTranscript, alignment, requestOptions);
+};
 
+const evaluateRecording = async (
+  targetSentence: string,
+  userTranscript: string,
+  alignment: WordAlignment,
+  audio: RecordedAudio,
+  overlapping: boolean,
+  options: RequestOptions
+): Promise<EvaluationResult> => {
+  const prompt = `
+    作为一名专业的英语语音纠正教练，请听用户朗读标准句子的录音，根据录音中实际听到的发音进行评估。
+    ${overlapping ? '这是影子跟读练习：用户一边听标准音一边同步跟读，录音中可能混有播放的标准音。请只评估用户本人的声音，fluency 还要考虑是否跟上了标准音的节奏。' : ''}
+
+    标准句子: "${targetSentence}"
+    语音识别转录（仅供参考，识别器常把读错的词自动纠正为正确的词）: "${userTranscript || '（无）'}"
+    转录与标准句子的逐词对齐（程序计算）:
+    ${describeAlignment(alignment)}
+
+    任务：
+    1. 逐词对照标准句子，**只报告在录音中确实听到问题的单词**。不要根据"常见错误"推测，没听到问题的单词一律不报告。
+    2. actualPhonemeLike 描述录音中实际听到的发音。
+    3. 漏读的单词也算错误。
+    4. transcript 填写你在录音中实际听到的内容。
+    5. 打分（0-100 的整数）：accuracy 为音素发音的准确程度，fluency 为语速、停顿和连读是否自然。
+    6. wordConfidence：按标准句子的顺序，为每个单词给出 0-1 的把握度，表示你有多确定这个词读对了。
+    7. 给出鼓励性的中文反馈 (feedback)。
+    8. 针对每个错误单词，提供具体的口腔动作指导（必须使用简体中文）。
+
+    输出格式为JSON。
+  `;
+
+  const result = await requestJson<RawEvaluation>({
+    model: MODEL_NAME,
+    contents: {
+      parts: [
+        { inlineData: { mimeType: audio.mimeType, data: audio.data } },
+        { text: prompt }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: evaluationSchema,
+      temperature: 0.2
+    }
+  }, options);
+
+  return toEvaluationResult(result, toPronunciationErrors(result.errors), userTranscript, alignment, 'audio');
+};
+
+const evaluateTranscript = async (
+  targetSentence: string,
+  userTranscript: string,
+  alignment: WordAlignment,
+  options: RequestOptions
+): Promise<EvaluationResult> => {
   const prompt = `
     作为一名专业的英语语音纠正教练，请对比标准句子和用户录音转录文本。
     
     标准句子: "${targetSentence}"
     用户录音转录: "${userTranscript}"
+    转录与标准句子的逐词对齐（程序计算，已忽略大小写和标点）:
+    ${describeAlignment(alignment)}
 
     任务：
-    1. 即使转录完全匹配，也请检查标准句子中容易发错音的单词（如 th, v/w, l/r）。
-    2. 如果转录有差异，找出对应的单词。
+    1. "读对"中的单词已被正确识别，**不要**把它们列为错误。
+    2. 针对"读成别的词"和"漏读"的单词，分析可能的发音原因并给出纠正。
     3. 重点关注发音准确性，忽略标点符号差异。
     4. **只返回真正需要纠正的单词**（如果有）。
-    5. 不要给分数，而是给出鼓励性的中文反馈 (feedback)。
-    6. 针对每个错误单词，提供具体的口腔动作指导（必须使用简体中文）。
+    5. 打分（0-100 的整数）：accuracy 为发音的准确程度，fluency 为朗读是否流畅。只有转录可参考，fluency 根据多读、重复和漏读来估计。
+    6. wordConfidence：按标准句子的顺序，为每个单词给出 0-1 的把握度，表示你有多确定这个词读对了；"读对"的单词把握度应较高。
+    7. 给出鼓励性的中文反馈 (feedback)。
+    8. 针对每个错误单词，提供具体的口腔动作指导（必须使用简体中文）。
 
     输出格式为JSON。
   `;
 
   try {
-    const response = await ai.models.generateContent({
+    const result = await requestJson<RawEvaluation>({
       model: MODEL_NAME,
       contents: prompt,
       config: {
@@ -323,32 +1097,16 @@ export const evaluatePronunciation = async (targetSentence: string, userTranscri
         responseSchema: evaluationSchema,
         temperature: 0.4
       }
-    });
+    }, options);
 
-    if (response.text) {
-      const result = JSON.parse(response.text);
-      return {
-        score: 0, 
-        transcript: userTranscript,
-        feedback: result.feedback || "Good job!",
-        errors: result.errors || []
-      };
-    }
-    
-    return {
-        score: 0,
-        transcript: userTranscript,
-        feedback: "无法分析，请重试",
-        errors: []
-    };
+    // Without audio there is no evidence against a correctly recognized word
+    const matched = new Set(alignment.words.filter(w => w.op === 'match').map(w => comparableWord(w.target!)));
+    const flagged = new Set(alignment.words.filter(w => w.op !== 'match' && w.target).map(w => comparableWord(w.target!)));
+    const errors = toPronunciationErrors(result.errors).filter(e => flagged.has(comparableWord(e.word)) || !matched.has(comparableWord(e.word)));
 
+    return toEvaluationResult(result, errors, userTranscript, alignment, 'transcript');
   } catch (error) {
     console.error("Evaluation error:", error);
-    return {
-        score: 0,
-        transcript: userTranscript,
-        feedback: "网络错误",
-        errors: []
-    };
+    throw error;
   }
 };
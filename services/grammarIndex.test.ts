@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { SavedSession } from '../types';
+import { validateLevel } from './curriculumValidator';
+import { buildGrammarIndex } from './grammarIndex';
+import { migrateSession, SESSION_VERSION } from './sessionStore';
+
+const generated = validateLevel({
+  english: 'I have finished my homework.',
+  chinese: '我已经完成了作业。',
+  difficulty: 'Basic',
+  words: ['I', 'have', 'finished', 'my', 'homework.'].map(text => ({ text, ipa: '', chinese: '词' })),
+  grammarAnalysis: [{ point: 'have finished 是现在完成时', tag: 'present-perfect', span: 'have finished' }],
+  vocabAnalysis: [{ word: 'homework', pos: 'n.', meaning: '作业', usage: '' }],
+  tip: { content: '' },
+}).sentence!;
+
+const course: SavedSession = {
+  courseId: 'c1',
+  title: 'Homework',
+  module: 'article',
+  sourceText: generated.english,
+  sentences: [{ ...generated, id: 1 }],
+  scenario: null,
+  progress: { currentIndex: 0, unlockedIndex: 0, history: {}, checkpoints: {} },
+  isPartial: false,
+  startedAt: 1,
+  savedAt: 1,
+};
+
+describe('buildGrammarIndex', () => {
+  it('finds grammar points in a course that was saved and loaded again', () => {
+    const reloaded = migrateSession(JSON.parse(JSON.stringify({ version: SESSION_VERSION, session: course })))!;
+    expect(reloaded.sentences[0].grammarTags).toEqual([{ tag: 'present-perfect', span: { start: 1, end: 2 } }]);
+    expect(buildGrammarIndex([reloaded])).toEqual({
+      'present-perfect': [{
+        courseId: 'c1',
+        courseTitle: 'Homework',
+        levelIndex: 0,
+        english: 'I have finished my homework.',
+        words: ['I', 'have', 'finished', 'my', 'homework.'],
+        note: 'have finished 是现在完成时',
+        span: { start: 1, end: 2 },
+      }],
+    });
+  });
+});
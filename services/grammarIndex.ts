@@ -0,0 +1,94 @@
+import { GrammarTag, SavedSession, WordRange } from "../types";
+import { GRAMMAR_TAGS } from "./grammarTaxonomy";
+
+const STORAGE_KEY = 'linguist-grammar-drills';
+const STORAGE_VERSION = 1;
+
+export const WEAK_TAG_COUNT = 3;
+export const DRILL_LENGTH = 5;
+
+// A level where the learner met a grammar point
+export interface GrammarOccurrence {
+  courseId: string;
+  courseTitle: string;
+  levelIndex: number;
+  english: string;
+  words: string[];
+  note: string; // The level's explanation of the point
+  span: WordRange | null;
+}
+
+export interface DrillStats {
+  correct: number;
+  total: number;
+}
+
+// --- Persistence ---
+
+export const loadDrillStats = (): Partial<Record<GrammarTag, DrillStats>> => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.version !== STORAGE_VERSION || !saved.stats || typeof saved.stats !== 'object') return {};
+    return saved.stats;
+  } catch {
+    return {};
+  }
+};
+
+export const recordDrillResult = (tag: GrammarTag, correct: number, total: number) => {
+  const stats = loadDrillStats();
+  const previous = stats[tag] || { correct: 0, total: 0 };
+  stats[tag] = { correct: previous.correct + correct, total: previous.total + total };
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, stats }));
+};
+
+// --- Index ---
+
+/**
+ * Every tagged grammar point the learner has met across the given courses,
+ * grouped by tag in taxonomy order. Only unlocked levels count, and a
+ * sentence met in several courses is listed once per tag. Levels generated
+ * before tagging are left out.
+ */
+export const buildGrammarIndex = (courses: SavedSession[]): Partial<Record<GrammarTag, GrammarOccurrence[]>> => {
+  const index: Partial<Record<GrammarTag, GrammarOccurrence[]>> = {};
+  const seen = new Set<string>();
+  courses.forEach(course => {
+    course.sentences.forEach((sentence, levelIndex) => {
+      if (levelIndex > course.progress.unlockedIndex) return;
+      (sentence.grammarTags || []).forEach(({ tag, span }, i) => {
+        const key = `${tag}\n${sentence.english}`;
+        if (seen.has(key)) return;
+        seen.add(key);
+        (index[tag] = index[tag] || []).push({
+          courseId: course.courseId,
+          courseTitle: course.title,
+          levelIndex,
+          english: sentence.english,
+          words: sentence.words.map(w => w.text),
+          note: sentence.grammarAnalysis[i] || '',
+          span,
+        });
+      });
+    });
+  });
+  return Object.fromEntries(GRAMMAR_TAGS.filter(({ tag }) => index[tag]).map(({ tag }) => [tag, index[tag]]));
+};
+
+// Drill accuracy with one right and one wrong answer assumed, so untried tags sit in the middle
+const drillAccuracy = (stats: DrillStats | undefined) =>
+  ((stats?.correct || 0) + 1) / ((stats?.total || 0) + 2);
+
+/**
+ * The tags the learner is weakest at: lowest drill accuracy first, and among
+ * equals the tags met most often. 'other' is never suggested.
+ */
+export const weakestTags = (
+  index: Partial<Record<GrammarTag, GrammarOccurrence[]>>,
+  stats: Partial<Record<GrammarTag, DrillStats>>,
+  count: number = WEAK_TAG_COUNT
+): GrammarTag[] =>
+  (Object.keys(index) as GrammarTag[])
+    .filter(tag => tag !== 'other')
+    .sort((a, b) => drillAccuracy(stats[a]) - drillAccuracy(stats[b]) || index[b]!.length - index[a]!.length)
+    .slice(0, count);
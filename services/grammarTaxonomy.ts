@@ -0,0 +1,40 @@
+import { GrammarTag } from "../types";
+
+export const GRAMMAR_TAGS: { tag: GrammarTag; label: string }[] = [
+  { tag: 'present-simple', label: '一般现在时' },
+  { tag: 'present-continuous', label: '现在进行时' },
+  { tag: 'present-perfect', label: '现在完成时' },
+  { tag: 'past-simple', label: '一般过去时' },
+  { tag: 'past-continuous', label: '过去进行时' },
+  { tag: 'past-perfect', label: '过去完成时' },
+  { tag: 'future', label: '将来时' },
+  { tag: 'passive', label: '被动语态' },
+  { tag: 'modal', label: '情态动词' },
+  { tag: 'conditional', label: '条件句' },
+  { tag: 'subjunctive', label: '虚拟语气' },
+  { tag: 'relative-clause', label: '定语从句' },
+  { tag: 'noun-clause', label: '名词性从句' },
+  { tag: 'adverbial-clause', label: '状语从句' },
+  { tag: 'infinitive', label: '不定式' },
+  { tag: 'gerund', label: '动名词' },
+  { tag: 'participle', label: '分词' },
+  { tag: 'comparison', label: '比较级与最高级' },
+  { tag: 'article', label: '冠词' },
+  { tag: 'preposition', label: '介词' },
+  { tag: 'phrasal-verb', label: '短语动词' },
+  { tag: 'conjunction', label: '连词与并列句' },
+  { tag: 'pronoun', label: '代词' },
+  { tag: 'question', label: '疑问句' },
+  { tag: 'negation', label: '否定' },
+  { tag: 'there-be', label: 'There be 句型' },
+  { tag: 'inversion', label: '倒装' },
+  { tag: 'emphasis', label: '强调句' },
+  { tag: 'other', label: '其他' },
+];
+
+const LABELS = Object.fromEntries(GRAMMAR_TAGS.map(({ tag, label }) => [tag, label])) as Record<GrammarTag, string>;
+
+export const isGrammarTag = (value: unknown): value is GrammarTag =>
+  GRAMMAR_TAGS.some(({ tag }) => tag === value);
+
+export const grammarTagLabel = (tag: GrammarTag) => LABELS[tag];
@@ -0,0 +1,29 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createJsonArrayParser } from './jsonStream';
+
+const feed = (chunks: string[]) => {
+  const parser = createJsonArrayParser();
+  return chunks.map(chunk => parser.push(chunk));
+};
+
+describe('createJsonArrayParser', () => {
+  it('returns each element as soon as it is complete', () => {
+    expect(feed(['[{"a":', '1}, {"b"', ':2}', ']'])).toEqual([[], [{ a: 1 }], [{ b: 2 }], []]);
+  });
+
+  it('is not confused by brackets, braces and escaped quotes inside strings', () => {
+    const [elements] = feed(['[{"text":"a ] } [ { \\"quoted\\" \\\\"}, {"list":[1,[2]]}]']);
+    expect(elements).toEqual([{ text: 'a ] } [ { "quoted" \\' }, { list: [1, [2]] }]);
+  });
+
+  it('ignores anything before the array starts', () => {
+    expect(feed(['```json\n', '[{"id":1}]'])).toEqual([[], [{ id: 1 }]]);
+  });
+
+  it('skips a malformed element and keeps going', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    expect(feed(['[{"a":1,}, {"b":2}]'])).toEqual([[{ b: 2 }]]);
+    expect(warn).toHaveBeenCalledOnce();
+    warn.mockRestore();
+  });
+});
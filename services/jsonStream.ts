@@ -0,0 +1,60 @@
+/**
+ * Incremental parser for a streamed top-level JSON array of objects.
+ * Feed it text as it arrives; it returns every element that has been fully received.
+ */
+export const createJsonArrayParser = () => {
+  let buffer = '';
+  let scanned = 0; // position in buffer up to which characters were processed
+  let arrayStarted = false;
+  let depth = 0; // nesting depth relative to the top-level array's contents
+  let inString = false;
+  let escaped = false;
+  let elementStart = -1;
+
+  const push = (text: string): unknown[] => {
+    const completed: unknown[] = [];
+    buffer += text;
+
+    for (; scanned < buffer.length; scanned++) {
+      const char = buffer[scanned];
+
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (!arrayStarted) {
+        if (char === '[') arrayStarted = true;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === '{' || char === '[') {
+        if (depth === 0) elementStart = scanned;
+        depth++;
+      } else if (char === '}' || char === ']') {
+        if (depth === 0) continue; // closing bracket of the top-level array
+        depth--;
+        if (depth === 0 && elementStart >= 0) {
+          const raw = buffer.slice(elementStart, scanned + 1);
+          try {
+            completed.push(JSON.parse(raw));
+          } catch (error) {
+            console.warn("Skipping malformed streamed element:", error);
+          }
+          // Drop everything already consumed to keep the buffer small
+          buffer = buffer.slice(scanned + 1);
+          scanned = -1;
+          elementStart = -1;
+        }
+      }
+    }
+
+    return completed;
+  };
+
+  return { push };
+};
@@ -0,0 +1,212 @@
+import { generateSpeech, generateSentenceImage, SPEECH_MODEL_NAME, SPEECH_VOICE, IMAGE_MODEL_NAME, IMAGE_STYLE } from "./geminiService";
+import { getProvider, hashString } from "./aiProvider";
+import { RequestOptions } from "./aiRequest";
+
+const DB_NAME = 'linguist-media-cache';
+const DB_VERSION = 1;
+// Payloads and bookkeeping live in separate stores so eviction and stats never load media data.
+const DATA_STORE = 'data';
+const META_STORE = 'meta';
+const STATS_KEY = 'linguist-media-cache-stats';
+
+export type MediaKind = 'audio' | 'image';
+
+// Per-kind size budgets; least recently used entries are evicted beyond these.
+export const CACHE_LIMITS: Record<MediaKind, number> = {
+  audio: 60 * 1024 * 1024,
+  image: 40 * 1024 * 1024,
+};
+
+interface CacheMeta {
+  key: string;
+  kind: MediaKind;
+  size: number;
+  lastAccess: number;
+}
+
+interface CacheData {
+  key: string;
+  data: ArrayBuffer | string; // raw PCM for audio, data URL for images
+}
+
+export interface MediaCacheStats {
+  hits: number;
+  misses: number;
+  entries: number;
+  bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(DATA_STORE, { keyPath: 'key' });
+        const meta = request.result.createObjectStore(META_STORE, { keyPath: 'key' });
+        meta.createIndex('lastAccess', 'lastAccess');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn("Media cache unavailable:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// --- Hit statistics (persisted so they survive reloads) ---
+
+const loadCounters = (): { hits: number; misses: number } => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STATS_KEY) || '{}');
+    return { hits: Number(saved.hits) || 0, misses: Number(saved.misses) || 0 };
+  } catch {
+    return { hits: 0, misses: 0 };
+  }
+};
+
+const recordLookup = (hit: boolean) => {
+  const counters = loadCounters();
+  if (hit) counters.hits++;
+  else counters.misses++;
+  localStorage.setItem(STATS_KEY, JSON.stringify(counters));
+};
+
+/**
+ * Content address for a media item: SHA-256 of everything that affects the output.
+ */
+export const createCacheKey = async (kind: MediaKind, parts: string[]): Promise<string> => {
+  // Offline placeholders must never be served once a real backend is configured
+  const source = getProvider().name === 'fixture' ? 'fixture' : 'live';
+  const input = [kind, source, ...parts].join('\u0000');
+  if (typeof crypto !== 'undefined' && crypto.subtle) {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(input));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+  }
+  // crypto.subtle is missing on insecure origins (e.g. LAN dev server over http)
+  return hashString(input);
+};
+
+const readEntry = async (key: string): Promise<ArrayBuffer | string | null> => {
+  const db = await openDatabase();
+  if (!db) return null;
+  try {
+    const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+    const entry = (await promisify(tx.objectStore(DATA_STORE).get(key))) as CacheData | undefined;
+    if (!entry) return null;
+    const meta = (await promisify(tx.objectStore(META_STORE).get(key))) as CacheMeta | undefined;
+    if (meta) tx.objectStore(META_STORE).put({ ...meta, lastAccess: Date.now() });
+    return entry.data;
+  } catch (error) {
+    console.warn("Media cache read failed:", error);
+    return null;
+  }
+};
+
+const evict = async (db: IDBDatabase, kind: MediaKind) => {
+  const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+  // Index order is oldest access first
+  const metas = (await promisify(tx.objectStore(META_STORE).index('lastAccess').getAll())) as CacheMeta[];
+  let total = metas.filter(m => m.kind === kind).reduce((sum, m) => sum + m.size, 0);
+  for (const meta of metas) {
+    if (total <= CACHE_LIMITS[kind]) break;
+    if (meta.kind !== kind) continue;
+    tx.objectStore(DATA_STORE).delete(meta.key);
+    tx.objectStore(META_STORE).delete(meta.key);
+    total -= meta.size;
+  }
+};
+
+const writeEntry = async (key: string, kind: MediaKind, data: ArrayBuffer | string, size: number) => {
+  const db = await openDatabase();
+  if (!db) return;
+  try {
+    const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+    tx.objectStore(DATA_STORE).put({ key, data });
+    await promisify(tx.objectStore(META_STORE).put({ key, kind, size, lastAccess: Date.now() }));
+    await evict(db, kind);
+  } catch (error) {
+    console.warn("Media cache write failed:", error);
+  }
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binaryString = atob(base64);
+  const bytes = new Uint8Array(binaryString.length);
+  for (let i = 0; i < binaryString.length; i++) {
+    bytes[i] = binaryString.charCodeAt(i);
+  }
+  return bytes;
+};
+
+/**
+ * TTS audio as raw 24kHz 16-bit PCM, from the cache when possible.
+ */
+export const getCachedSpeech = async (text: string, options: RequestOptions = {}): Promise<Uint8Array | null> => {
+  const key = await createCacheKey('audio', [SPEECH_MODEL_NAME, SPEECH_VOICE, text]);
+  const cached = await readEntry(key);
+  recordLookup(cached instanceof ArrayBuffer);
+  if (cached instanceof ArrayBuffer) {
+    return new Uint8Array(cached);
+  }
+
+  const base64Data = await generateSpeech(text, options);
+  if (!base64Data) return null;
+
+  const bytes = base64ToBytes(base64Data);
+  await writeEntry(key, 'audio', bytes.buffer as ArrayBuffer, bytes.byteLength);
+  return bytes;
+};
+
+/**
+ * Illustration for a sentence as a data URL, from the cache when possible.
+ */
+export const getCachedSentenceImage = async (sentence: string, options: RequestOptions = {}): Promise<string | null> => {
+  const key = await createCacheKey('image', [IMAGE_MODEL_NAME, IMAGE_STYLE, sentence]);
+  const cached = await readEntry(key);
+  recordLookup(typeof cached === 'string');
+  if (typeof cached === 'string') {
+    return cached;
+  }
+
+  const imageUrl = await generateSentenceImage(sentence, options);
+  if (!imageUrl) return null;
+
+  await writeEntry(key, 'image', imageUrl, imageUrl.length);
+  return imageUrl;
+};
+
+export const getMediaCacheStats = async (): Promise<MediaCacheStats> => {
+  const counters = loadCounters();
+  const db = await openDatabase();
+  if (!db) return { ...counters, entries: 0, bytes: 0 };
+
+  const metas = (await promisify(db.transaction(META_STORE, 'readonly').objectStore(META_STORE).getAll())) as CacheMeta[];
+  return {
+    ...counters,
+    entries: metas.length,
+    bytes: metas.reduce((sum, m) => sum + m.size, 0),
+  };
+};
+
+export const clearMediaCache = async () => {
+  localStorage.removeItem(STATS_KEY);
+  const db = await openDatabase();
+  if (!db) return;
+  const tx = db.transaction([DATA_STORE, META_STORE], 'readwrite');
+  tx.objectStore(DATA_STORE).clear();
+  await promisify(tx.objectStore(META_STORE).clear());
+};
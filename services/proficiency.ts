@@ -0,0 +1,128 @@
+import { CefrLevel, PlacementItem, PlacementSkill, ProficiencyResult } from "../types";
+
+export const CEFR_LEVELS: CefrLevel[] = ['A1', 'A2', 'B1', 'B2', 'C1', 'C2'];
+
+export const CEFR_DESCRIPTIONS: Record<CefrLevel, string> = {
+  A1: '入门级：能理解并使用日常生活中最基础的词句',
+  A2: '基础级：能就熟悉的日常话题进行简单交流',
+  B1: '进阶级：能应对旅行、工作中的大部分常见情境',
+  B2: '中高级：能较流利地讨论抽象话题，理解复杂文章的要点',
+  C1: '高级：能灵活有效地运用语言，理解隐含意义',
+  C2: '精通级：能轻松理解几乎所有内容，表达精准细腻',
+};
+
+export const SKILL_LABELS: Record<PlacementSkill, string> = {
+  vocab: '词汇',
+  grammar: '语法',
+  listening: '听力',
+  speaking: '朗读',
+};
+
+export const PLACEMENT_LENGTH = 12;
+// Skill of the n-th question; every skill is covered at least twice
+const SKILL_ROTATION: PlacementSkill[] = ['vocab', 'grammar', 'listening', 'vocab', 'grammar', 'speaking'];
+const START_LEVEL = 2; // B1
+const INITIAL_STEP = 1;
+const MIN_STEP = 0.5;
+const STEP_DECAY = 0.7;
+
+export interface PlacementAnswer {
+  item: PlacementItem;
+  correct: boolean;
+}
+
+export interface PlacementState {
+  ability: number; // Continuous estimate on the CEFR_LEVELS index scale (0 = A1, 5 = C2)
+  step: number;
+  answers: PlacementAnswer[];
+}
+
+export const createPlacementState = (): PlacementState => ({
+  ability: START_LEVEL,
+  step: INITIAL_STEP,
+  answers: [],
+});
+
+const clampLevelIndex = (value: number) => Math.min(CEFR_LEVELS.length - 1, Math.max(0, value));
+
+export const nextSkill = (state: PlacementState): PlacementSkill =>
+  SKILL_ROTATION[state.answers.length % SKILL_ROTATION.length];
+
+export const nextLevel = (state: PlacementState): CefrLevel =>
+  CEFR_LEVELS[clampLevelIndex(Math.round(state.ability))];
+
+export const isPlacementDone = (state: PlacementState) => state.answers.length >= PLACEMENT_LENGTH;
+
+/**
+ * Staircase update: a correct answer moves the estimate above the item's level,
+ * a wrong one below it. Steps shrink as evidence accumulates, so early answers
+ * move quickly towards the learner's range and later ones fine-tune it.
+ */
+export const recordAnswer = (state: PlacementState, item: PlacementItem, correct: boolean): PlacementState => {
+  const itemIndex = CEFR_LEVELS.indexOf(item.level);
+  const ability = correct
+    ? Math.max(state.ability, itemIndex) + state.step
+    : Math.min(state.ability, itemIndex) - state.step;
+
+  return {
+    ability: clampLevelIndex(ability),
+    step: Math.max(MIN_STEP, state.step * STEP_DECAY),
+    answers: [...state.answers, { item, correct }],
+  };
+};
+
+/**
+ * Final level: the staircase estimate, capped at the highest level where the
+ * learner answered at least half of the items correctly. Without the cap, a
+ * learner oscillating between C1 and C2 could round up to a level they never passed.
+ */
+export const estimateLevel = (state: PlacementState): CefrLevel => {
+  let highestPassed = 0;
+  CEFR_LEVELS.forEach((level, index) => {
+    const answers = state.answers.filter(a => a.item.level === level);
+    const correct = answers.filter(a => a.correct).length;
+    if (answers.length > 0 && correct * 2 >= answers.length) highestPassed = index;
+  });
+  return CEFR_LEVELS[Math.min(highestPassed, clampLevelIndex(Math.round(state.ability)))];
+};
+
+export const summarizePlacement = (state: PlacementState): ProficiencyResult => {
+  const skills = {} as ProficiencyResult['skills'];
+  (Object.keys(SKILL_LABELS) as PlacementSkill[]).forEach(skill => {
+    const answers = state.answers.filter(a => a.item.skill === skill);
+    skills[skill] = { correct: answers.filter(a => a.correct).length, total: answers.length };
+  });
+
+  return {
+    level: estimateLevel(state),
+    testedAt: Date.now(),
+    skills,
+  };
+};
+
+// Read-aloud passes with at most one mispronounced word per eight words
+export const isReadAloudPass = (target: string, errorCount: number) =>
+  errorCount <= Math.max(1, Math.floor(target.split(/\s+/).filter(Boolean).length / 8));
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'linguist-proficiency';
+const STORAGE_VERSION = 1;
+
+export const loadProficiency = (): ProficiencyResult | null => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.version !== STORAGE_VERSION || !CEFR_LEVELS.includes(saved.result?.level)) return null;
+    return saved.result as ProficiencyResult;
+  } catch {
+    return null;
+  }
+};
+
+export const saveProficiency = (result: ProficiencyResult) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, result }));
+};
+
+export const clearProficiency = () => {
+  localStorage.removeItem(STORAGE_KEY);
+};
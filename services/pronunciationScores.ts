@@ -0,0 +1,76 @@
+import { EvaluationResult, PronunciationScores, WordAlignment, WordConfidence } from "../types";
+import { comparableWord } from "./wordAlignment";
+
+// Oldest attempts beyond this are dropped, except the level's best
+export const MAX_ATTEMPTS_PER_LEVEL = 20;
+
+export const clampScore = (value: unknown): number => {
+  const n = Number(value);
+  return Number.isFinite(n) ? Math.round(Math.min(100, Math.max(0, n))) : 0;
+};
+
+// Share of target words that were read at all, misread or not
+export const completenessScore = (alignment: WordAlignment): number => {
+  const targetWords = alignment.matched + alignment.substituted + alignment.omitted;
+  return targetWords > 0 ? clampScore(((alignment.matched + alignment.substituted) / targetWords) * 100) : 0;
+};
+
+/**
+ * Combines the model's accuracy and fluency ratings with completeness, which is
+ * counted locally from the word alignment rather than estimated by the model.
+ */
+export const toScores = (accuracy: unknown, fluency: unknown, alignment: WordAlignment): PronunciationScores => ({
+  accuracy: clampScore(accuracy),
+  completeness: completenessScore(alignment),
+  fluency: clampScore(fluency),
+});
+
+export const overallScore = (scores: PronunciationScores): number =>
+  Math.round((scores.accuracy + scores.completeness + scores.fluency) / 3);
+
+// Attempts saved before scoring existed carry no score
+const isScored = (attempt: EvaluationResult): attempt is EvaluationResult & { score: number } =>
+  typeof attempt.score === 'number';
+
+// Typed attempts (dictation, cloze, translation) share the level's history but have no pronunciation scores
+export const readingAttempts = (attempts: EvaluationResult[] | undefined): EvaluationResult[] =>
+  (attempts || []).filter(a => !a.mode || a.mode === 'reading' || a.mode === 'shadowing');
+
+export const latestAttempt = (attempts: EvaluationResult[] | undefined): EvaluationResult | null =>
+  attempts?.length ? attempts[attempts.length - 1] : null;
+
+export const bestAttempt = (attempts: EvaluationResult[] | undefined): EvaluationResult | null =>
+  (attempts || []).filter(isScored).reduce<EvaluationResult | null>((best, a) => (!best || a.score > best.score! ? a : best), null);
+
+export const addAttempt = (attempts: EvaluationResult[] | undefined, result: EvaluationResult): EvaluationResult[] => {
+  const next = [...(attempts || []), result];
+  const best = bestAttempt(next);
+  while (next.length > MAX_ATTEMPTS_PER_LEVEL) {
+    next.splice(next[0] === best ? 1 : 0, 1);
+  }
+  return next;
+};
+
+// Mean of each level's best score, over the levels that have one
+export const courseAverageScore = (history: Record<number, EvaluationResult[]>): number | null => {
+  const bests = Object.values(history)
+    .map(attempts => bestAttempt(attempts)?.score)
+    .filter((score): score is number => typeof score === 'number');
+  return bests.length > 0 ? Math.round(bests.reduce((sum, s) => sum + s, 0) / bests.length) : null;
+};
+
+/**
+ * Maps the model's per-word confidence onto the sentence's display words, matching
+ * in order so repeated words keep their own values. Unmatched words get undefined.
+ */
+export const confidenceByWord = (words: string[], wordConfidence: WordConfidence[] | undefined): (number | undefined)[] => {
+  let next = 0;
+  return words.map(word => {
+    const key = comparableWord(word);
+    if (!key || !wordConfidence) return undefined;
+    const found = wordConfidence.findIndex((w, i) => i >= next && comparableWord(w.word) === key);
+    if (found < 0) return undefined;
+    next = found + 1;
+    return wordConfidence[found].confidence;
+  });
+};
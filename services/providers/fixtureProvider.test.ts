@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { Modality, Type } from '@google/genai';
+import { createFixtureProvider } from './fixtureProvider';
+import { AIRequest } from './types';
+import { getProvider } from '../aiProvider';
+import { generateArticleCurriculum, generateScenario, sendChatMessage } from '../geminiService';
+
+const jsonRequest = (contents: string): AIRequest => ({
+  model: 'gemini-2.5-flash',
+  contents,
+  config: {
+    responseMimeType: 'application/json',
+    responseSchema: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          id: { type: Type.INTEGER },
+          english: { type: Type.STRING },
+          difficulty: { type: Type.STRING, enum: ['Basic', 'Advanced'] },
+          words: { type: Type.ARRAY, items: { type: Type.OBJECT, properties: { text: { type: Type.STRING } } } },
+          errors: { type: Type.ARRAY, items: { type: Type.STRING } },
+        },
+      },
+    },
+  },
+});
+
+describe('fixture provider', () => {
+  const provider = createFixtureProvider();
+
+  it('is the backend used without an API key', () => {
+    expect(getProvider().name).toBe('fixture');
+  });
+
+  it('answers the same request the same way', async () => {
+    const request = jsonRequest('文本: """The cat sat. The dog ran."""');
+    expect(await provider.generateContent(request)).toEqual(await provider.generateContent(request));
+  });
+
+  it('fills JSON schemas from the quoted source text', async () => {
+    const response = await provider.generateContent(jsonRequest('文本: """The cat sat. The dog ran."""'));
+    const levels = JSON.parse(response.text);
+    expect(levels.map((l: { id: number; english: string }) => [l.id, l.english])).toEqual([[1, 'The cat sat.'], [2, 'The dog ran.']]);
+    expect(levels[0].words.map((w: { text: string }) => w.text)).toEqual(['The', 'cat', 'sat.']);
+    expect(['Basic', 'Advanced']).toContain(levels[0].difficulty);
+    expect(levels[0].errors).toEqual([]);
+  });
+
+  it('streams the same text it would return at once', async () => {
+    const request = jsonRequest('文本: """The cat sat. The dog ran."""');
+    let streamed = '';
+    for await (const chunk of provider.generateContentStream(request)) streamed += chunk.text;
+    expect(streamed).toBe((await provider.generateContent(request)).text);
+  });
+
+  it('returns placeholder audio and plain-text replies', async () => {
+    const audio = await provider.generateContent({ model: 'tts', contents: 'Hi', config: { responseModalities: [Modality.AUDIO] } });
+    expect(audio.parts[0].inlineData?.mimeType).toBe('audio/pcm;rate=24000');
+    const text = await provider.generateContent({ model: 'gemini-2.5-flash', contents: 'Hi' });
+    expect(text.text).toContain('离线模式');
+  });
+});
+
+describe('offline generation', () => {
+  it('builds a playable article course', async () => {
+    const text = 'Serendipity is a happy accident. It often comes when you least expect it. Stay curious.';
+    const streamed: number[] = [];
+    const { sentences, report } = await generateArticleCurriculum(text, level => streamed.push(level.id));
+    expect(sentences.map(s => s.english)).toEqual(['Serendipity is a happy accident.', 'It often comes when you least expect it.', 'Stay curious.']);
+    expect(streamed).toEqual([1, 2, 3]);
+    expect(report.dropped).toBe(0);
+    sentences.forEach(sentence => {
+      expect(sentence.words.map(w => w.text).join(' ')).toBe(sentence.english);
+      expect(sentence.grammarTags).toHaveLength(sentence.grammarAnalysis.length);
+    });
+  });
+
+  it('builds a scenario with one exchange per level', async () => {
+    const { sentences, scenario } = await generateScenario('Checking in at a hotel');
+    expect(sentences.length).toBeGreaterThan(0);
+    expect(scenario.exchanges).toHaveLength(sentences.length);
+  });
+
+  it('answers chat messages', async () => {
+    expect(await sendChatMessage([], 'What does "serendipity" mean?')).toContain('离线模式');
+  });
+});
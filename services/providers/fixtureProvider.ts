@@ -0,0 +1,218 @@
+import { Modality, Schema, Type } from "@google/genai";
+import { AIProvider, AIRequest, AIResponse, getRequestKey, hashString } from "./types";
+
+/**
+ * Shape of a recorded fixture file in /fixtures (written by the record provider).
+ */
+export interface FixtureFile {
+  key: string;
+  model: string;
+  recordedAt: string;
+  response: AIResponse;
+}
+
+const recordedFixtures: Record<string, AIResponse> = (() => {
+  const byKey: Record<string, AIResponse> = {};
+  try {
+    const modules = import.meta.glob<FixtureFile>('/fixtures/*.json', { eager: true, import: 'default' });
+    Object.values(modules).forEach(fixture => {
+      if (fixture?.key && fixture.response) byKey[fixture.key] = fixture.response;
+    });
+  } catch (error) {
+    // import.meta.glob only exists under Vite; other runtimes fall back to synthesized output.
+  }
+  return byKey;
+})();
+
+const STREAM_SLICE_CHARS = 48;
+const STREAM_SLICE_DELAY_MS = 20;
+
+// --- Deterministic helpers ---
+
+// Small seeded PRNG (mulberry32) so the same request always produces the same fake output.
+const createRandom = (seedHex: string) => {
+  let seed = parseInt(seedHex.slice(0, 8), 16) || 1;
+  return () => {
+    seed |= 0;
+    seed = (seed + 0x6d2b79f5) | 0;
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const MAX_FAKE_LEVELS = 10;
+
+const SAMPLE_SENTENCES = [
+  "Learning a language is like planting a garden.",
+  "Every small step you take today builds tomorrow's confidence.",
+  "Curiosity opens doors that effort alone cannot.",
+  "She practiced a little every morning and improved quickly.",
+];
+
+const promptText = (contents: AIRequest['contents']): string => {
+  if (typeof contents === 'string') return contents;
+  return JSON.stringify(contents);
+};
+
+// Reuse the learner's own text (quoted with """ in our prompts) so offline levels look realistic.
+const extractSourceSentences = (prompt: string): string[] => {
+  const quoted = prompt.match(/"""([\s\S]*?)"""/);
+  if (!quoted) return SAMPLE_SENTENCES;
+  const sentences = quoted[1].match(/[^.!?]+[.!?]+["')\]]*/g)?.map(s => s.trim()).filter(Boolean);
+  if (!sentences || sentences.length === 0) return [quoted[1].trim()];
+  // Group into at most MAX_FAKE_LEVELS levels so the whole source text is covered.
+  const perLevel = Math.ceil(sentences.length / MAX_FAKE_LEVELS);
+  const levels: string[] = [];
+  for (let i = 0; i < sentences.length; i += perLevel) {
+    levels.push(sentences.slice(i, i + perLevel).join(' '));
+  }
+  return levels;
+};
+
+const tokenize = (sentence: string) => sentence.split(/\s+/).filter(Boolean);
+
+interface FakeContext {
+  random: () => number;
+  sentences: string[];
+  sentenceCursor: number;
+  currentTokens: string[];
+}
+
+// Arrays the offline provider leaves empty, e.g. no pronunciation errors = "perfect" attempt.
+const EMPTY_ARRAY_FIELDS = ['errors'];
+
+const fakeString = (field: string, ctx: FakeContext): string => {
+  switch (field) {
+    case 'english': {
+      const sentence = ctx.sentences[ctx.sentenceCursor++ % ctx.sentences.length];
+      ctx.currentTokens = tokenize(sentence).map(t => t.replace(/[^A-Za-z'-]/g, '')).filter(Boolean);
+      return sentence;
+    }
+    case 'word':
+      return ctx.currentTokens.length > 0
+        ? ctx.currentTokens[Math.floor(ctx.random() * ctx.currentTokens.length)]
+        : 'sample';
+    case 'chinese':
+    case 'meaning':
+      return '（离线示例）中文释义';
+    case 'ipa':
+    case 'phonetics':
+    case 'expectedPhoneme':
+    case 'actualPhonemeLike':
+      return 'ˈsæmpəl';
+    case 'pos':
+      return 'n.';
+    default:
+      return `（离线示例）${field}`;
+  }
+};
+
+const fakeFromSchema = (schema: Schema, field: string, ctx: FakeContext, index: number): unknown => {
+  if (schema.enum && schema.enum.length > 0) {
+    return schema.enum[Math.floor(ctx.random() * schema.enum.length)];
+  }
+
+  switch (schema.type) {
+    case Type.ARRAY: {
+      // Top-level arrays of sentences follow the source text; nested arrays stay short.
+      if (EMPTY_ARRAY_FIELDS.includes(field)) return [];
+      const length = field === '' ? Math.min(ctx.sentences.length, MAX_FAKE_LEVELS) : 2 + Math.floor(ctx.random() * 2);
+      return Array.from({ length }, (_, i) => fakeFromSchema(schema.items || { type: Type.STRING }, field, ctx, i));
+    }
+    case Type.OBJECT: {
+      const result: Record<string, unknown> = {};
+      Object.entries(schema.properties || {}).forEach(([key, propSchema]) => {
+        result[key] = fakeFromSchema(propSchema, key, ctx, index);
+      });
+      // Keep word breakdowns consistent with the sentence they describe.
+      if (typeof result.english === 'string' && Array.isArray(result.words)) {
+        result.words = tokenize(result.english).map(text => ({ text, ipa: 'ˈwɜːd', chinese: '词' }));
+      }
+      return result;
+    }
+    case Type.INTEGER:
+      if (field === 'id') return index + 1;
+      if (field === 'answerIndex') return 0; // Must point into the (short) faked options array
+      return Math.floor(ctx.random() * 100);
+    case Type.NUMBER:
+      return Math.round(ctx.random() * 100) / 100;
+    case Type.BOOLEAN:
+      return ctx.random() > 0.5;
+    case Type.STRING:
+    default:
+      return fakeString(field, ctx);
+  }
+};
+
+// 0.6s, 440Hz tone as 24kHz 16-bit mono PCM, matching the Gemini TTS output format.
+const fakeSpeechPCM = (): string => {
+  const sampleRate = 24000;
+  const samples = new Int16Array(Math.floor(sampleRate * 0.6));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / 600, (samples.length - i) / 600);
+    samples[i] = Math.round(Math.sin((2 * Math.PI * 440 * i) / sampleRate) * 6000 * fade);
+  }
+  const bytes = new Uint8Array(samples.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const fakeImageSVG = (seed: string): string => {
+  const hue = parseInt(seed.slice(0, 4), 16) % 360;
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="400" height="300"><rect width="400" height="300" fill="hsl(${hue},70%,85%)"/><circle cx="200" cy="150" r="70" fill="hsl(${hue},60%,60%)"/><text x="200" y="270" font-family="sans-serif" font-size="18" text-anchor="middle" fill="#334155">Offline preview</text></svg>`;
+  return btoa(svg);
+};
+
+/**
+ * Offline backend: replays recorded fixtures when available and otherwise
+ * synthesizes deterministic placeholder output from the request itself.
+ */
+export const createFixtureProvider = (): AIProvider => {
+  const generateContent = async (request: AIRequest): Promise<AIResponse> => {
+    const key = getRequestKey(request);
+    if (recordedFixtures[key]) {
+      return recordedFixtures[key];
+    }
+
+    const config = request.config || {};
+
+    if (config.responseModalities?.includes(Modality.AUDIO)) {
+      return { text: '', parts: [{ inlineData: { data: fakeSpeechPCM(), mimeType: 'audio/pcm;rate=24000' } }] };
+    }
+
+    if (request.model.includes('image')) {
+      return { text: '', parts: [{ inlineData: { data: fakeImageSVG(key), mimeType: 'image/svg+xml' } }] };
+    }
+
+    if (config.responseMimeType === 'application/json' && config.responseSchema) {
+      const ctx: FakeContext = {
+        random: createRandom(key),
+        sentences: extractSourceSentences(promptText(request.contents)),
+        sentenceCursor: 0,
+        currentTokens: [],
+      };
+      const text = JSON.stringify(fakeFromSchema(config.responseSchema as Schema, '', ctx, 0));
+      return { text, parts: [{ text }] };
+    }
+
+    const text = `（离线模式）这是一条示例回复 #${hashString(promptText(request.contents)).slice(0, 4)}。配置 GEMINI_API_KEY 后即可获得真实的 AI 回答。`;
+    return { text, parts: [{ text }] };
+  };
+
+  // Re-emits the full response in small slices so streaming UIs behave as they would online.
+  async function* generateContentStream(request: AIRequest): AsyncGenerator<AIResponse> {
+    const response = await generateContent(request);
+    for (let i = 0; i < response.text.length; i += STREAM_SLICE_CHARS) {
+      await new Promise(resolve => setTimeout(resolve, STREAM_SLICE_DELAY_MS));
+      if (request.config?.abortSignal?.aborted) {
+        throw new DOMException('The operation was aborted.', 'AbortError');
+      }
+      const text = response.text.slice(i, i + STREAM_SLICE_CHARS);
+      yield { text, parts: [{ text }] };
+    }
+  }
+
+  return { name: 'fixture', generateContent, generateContentStream };
+};
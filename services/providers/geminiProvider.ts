@@ -0,0 +1,54 @@
+import { GoogleGenAI, GenerateContentResponse } from "@google/genai";
+import { AIProvider, AIRequest, AIResponse, AIPart } from "./types";
+
+/**
+ * Real backend: forwards requests to the Gemini API.
+ */
+export const createGeminiProvider = (apiKey: string): AIProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  const toAIResponse = (response: GenerateContentResponse): AIResponse => {
+    const rawParts = response.candidates?.[0]?.content?.parts || [];
+    const parts: AIPart[] = rawParts.map(part => ({
+      text: part.thought ? undefined : part.text,
+      inlineData: part.inlineData?.data
+        ? { data: part.inlineData.data, mimeType: part.inlineData.mimeType || '' }
+        : undefined,
+    }));
+
+    // Same as response.text, without the SDK warning on audio/image parts
+    const text = parts.map(part => part.text || '').join('');
+    return {
+      text,
+      parts,
+      finishReason: response.candidates?.[0]?.finishReason,
+      blockReason: response.promptFeedback?.blockReason,
+    };
+  };
+
+  const generateContent = async (request: AIRequest): Promise<AIResponse> => {
+    if (!apiKey) throw new Error("API Key is missing");
+
+    const response = await ai.models.generateContent({
+      model: request.model,
+      contents: request.contents,
+      config: request.config,
+    });
+    return toAIResponse(response);
+  };
+
+  async function* generateContentStream(request: AIRequest): AsyncGenerator<AIResponse> {
+    if (!apiKey) throw new Error("API Key is missing");
+
+    const stream = await ai.models.generateContentStream({
+      model: request.model,
+      contents: request.contents,
+      config: request.config,
+    });
+    for await (const chunk of stream) {
+      yield toAIResponse(chunk);
+    }
+  }
+
+  return { name: 'gemini', generateContent, generateContentStream };
+};
@@ -0,0 +1,51 @@
+import { AIProvider, AIRequest, AIResponse, getRequestKey } from "./types";
+import { FixtureFile } from "./fixtureProvider";
+
+// Served by the fixtures plugin in vite.config.ts (dev server only).
+const FIXTURE_ENDPOINT = '/__fixtures';
+
+const saveFixture = async (fixture: FixtureFile) => {
+  try {
+    await fetch(FIXTURE_ENDPOINT, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(fixture),
+    });
+  } catch (error) {
+    console.warn("Failed to record fixture:", error);
+  }
+};
+
+/**
+ * Record mode: delegates to a real provider and writes every response
+ * to /fixtures so the fixture provider can replay it later.
+ */
+export const createRecordingProvider = (inner: AIProvider): AIProvider => {
+  const generateContent = async (request: AIRequest): Promise<AIResponse> => {
+    const response = await inner.generateContent(request);
+    saveFixture({
+      key: getRequestKey(request),
+      model: request.model,
+      recordedAt: new Date().toISOString(),
+      response,
+    });
+    return response;
+  };
+
+  // Streams are saved as one combined response; the fixture provider re-streams it on replay.
+  async function* generateContentStream(request: AIRequest): AsyncGenerator<AIResponse> {
+    let text = '';
+    for await (const chunk of inner.generateContentStream(request)) {
+      text += chunk.text;
+      yield chunk;
+    }
+    saveFixture({
+      key: getRequestKey(request),
+      model: request.model,
+      recordedAt: new Date().toISOString(),
+      response: { text, parts: [{ text }] },
+    });
+  }
+
+  return { name: 'record', generateContent, generateContentStream };
+};
@@ -0,0 +1,66 @@
+import { ContentListUnion, GenerateContentConfig } from "@google/genai";
+
+/**
+ * A single generation request. Mirrors the subset of the Gemini
+ * `generateContent` parameters the app uses, so every backend speaks the same shape.
+ */
+export interface AIRequest {
+  model: string;
+  contents: ContentListUnion;
+  config?: GenerateContentConfig;
+}
+
+export interface AIInlineData {
+  data: string; // base64
+  mimeType: string;
+}
+
+export interface AIPart {
+  text?: string;
+  inlineData?: AIInlineData;
+}
+
+/**
+ * Plain, JSON-serializable response so it can be recorded to disk and replayed.
+ */
+export interface AIResponse {
+  text: string;
+  parts: AIPart[];
+  finishReason?: string;
+  blockReason?: string; // Set when the prompt itself was blocked
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  generateContent: (request: AIRequest) => Promise<AIResponse>;
+  // Yields partial responses (text deltas) as they are generated.
+  generateContentStream: (request: AIRequest) => AsyncGenerator<AIResponse>;
+}
+
+export type ProviderName = 'gemini' | 'fixture' | 'record';
+
+/**
+ * Stable key for a request, used to name recorded fixtures.
+ * Non-serializable config entries (abort signals, etc.) are skipped.
+ */
+export const getRequestKey = (request: AIRequest): string => {
+  const serialized = JSON.stringify(
+    { model: request.model, contents: request.contents, config: request.config },
+    (key, value) => (key === 'abortSignal' || key === 'httpOptions' ? undefined : value)
+  );
+  return hashString(serialized);
+};
+
+/**
+ * FNV-1a 64-bit hash (as two 32-bit halves), hex encoded.
+ */
+export const hashString = (input: string): string => {
+  let h1 = 0x811c9dc5;
+  let h2 = 0xcbf29ce4;
+  for (let i = 0; i < input.length; i++) {
+    const c = input.charCodeAt(i);
+    h1 = Math.imul(h1 ^ c, 0x01000193);
+    h2 = Math.imul(h2 ^ c, 0x01000193) ^ (h1 >>> 7);
+  }
+  return (h1 >>> 0).toString(16).padStart(8, '0') + (h2 >>> 0).toString(16).padStart(8, '0');
+};
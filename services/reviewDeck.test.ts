@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { ReviewCard } from '../types';
+import { getDueCards, scheduleCard } from './reviewDeck';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const NOW = Date.UTC(2026, 0, 1);
+
+const newCard = (overrides: Partial<ReviewCard> = {}): ReviewCard => ({
+  id: 'serendipity',
+  word: 'serendipity',
+  pos: 'n.',
+  meaning: '意外发现',
+  usage: '',
+  isUserWord: false,
+  context: { english: 'It was pure serendipity.', chinese: '纯属巧合。' },
+  addedAt: NOW,
+  due: NOW,
+  interval: 0,
+  ease: 2.5,
+  repetitions: 0,
+  lapses: 0,
+  ...overrides,
+});
+
+describe('scheduleCard (SM-2)', () => {
+  it('grows the interval 1 → 6 → interval × ease on good recalls', () => {
+    const first = scheduleCard(newCard(), 'good', NOW);
+    expect(first).toMatchObject({ interval: 1, repetitions: 1, ease: 2.5, due: NOW + DAY_MS, lastReviewedAt: NOW });
+    const second = scheduleCard(first, 'good', NOW);
+    expect(second).toMatchObject({ interval: 6, repetitions: 2 });
+    expect(scheduleCard(second, 'good', NOW).interval).toBe(15);
+  });
+
+  it('adjusts ease by how hard the recall was', () => {
+    expect(scheduleCard(newCard(), 'hard', NOW).ease).toBeCloseTo(2.36);
+    expect(scheduleCard(newCard(), 'easy', NOW)).toMatchObject({ ease: 2.6, interval: 4 });
+  });
+
+  it('grows hard recalls slowly but always by at least a day', () => {
+    const card = newCard({ interval: 2, repetitions: 3 });
+    expect(scheduleCard(card, 'hard', NOW).interval).toBe(3);
+    expect(scheduleCard(newCard({ interval: 10, repetitions: 3 }), 'hard', NOW).interval).toBe(12);
+  });
+
+  it('resets the streak and brings the card back soon on "again"', () => {
+    const card = newCard({ interval: 15, repetitions: 3, ease: 1.4 });
+    const result = scheduleCard(card, 'again', NOW);
+    expect(result).toMatchObject({ interval: 0, repetitions: 0, lapses: 1, ease: 1.3, due: NOW + 10 * 60 * 1000 });
+  });
+});
+
+describe('getDueCards', () => {
+  it('returns cards due now, most overdue first', () => {
+    const cards = [
+      newCard({ id: 'a', due: NOW - DAY_MS }),
+      newCard({ id: 'b', due: NOW + DAY_MS }),
+      newCard({ id: 'c', due: NOW - 2 * DAY_MS }),
+    ];
+    expect(getDueCards(cards, NOW).map(card => card.id)).toEqual(['c', 'a']);
+  });
+});
@@ -0,0 +1,165 @@
+import { ReviewCard, ReviewGrade, SentenceData } from "../types";
+import { normalizeToken } from "./curriculumValidator";
+
+const STORAGE_KEY = 'linguist-review-deck';
+const STORAGE_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_DELAY_MS = 10 * 60 * 1000; // A forgotten card comes back within the same session
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+const HARD_MULTIPLIER = 1.2;
+const EASY_BONUS = 1.3;
+export const DAILY_REVIEW_LIMIT = 50;
+
+// --- Persistence ---
+
+export const loadDeck = (): ReviewCard[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (saved?.version !== STORAGE_VERSION || !Array.isArray(saved.cards)) return [];
+    return saved.cards;
+  } catch {
+    return [];
+  }
+};
+
+export const saveDeck = (cards: ReviewCard[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: STORAGE_VERSION, cards }));
+};
+
+const cardId = (word: string) => word.split(/\s+/).map(normalizeToken).filter(Boolean).join(' ');
+
+/**
+ * Adds the level's vocabAnalysis words to the deck. Words already in the deck
+ * keep their schedule; only a user-supplied flag is upgraded.
+ * Returns how many new cards were added.
+ */
+export const addSentenceToDeck = (sentence: SentenceData, now: number = Date.now()): number => {
+  const cards = loadDeck();
+  const byId = new Map(cards.map(card => [card.id, card]));
+  let added = 0;
+
+  sentence.vocabAnalysis.forEach(item => {
+    const id = cardId(item.word);
+    if (!id) return;
+    const existing = byId.get(id);
+    if (existing) {
+      if (item.isUserWord) existing.isUserWord = true;
+      return;
+    }
+    const card: ReviewCard = {
+      id,
+      word: item.word,
+      pos: item.pos,
+      meaning: item.meaning,
+      usage: item.usage,
+      ipa: item.ipa,
+      isUserWord: item.isUserWord,
+      context: { english: sentence.english, chinese: sentence.chinese },
+      addedAt: now,
+      due: now, // New cards are due right away
+      interval: 0,
+      ease: INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0,
+    };
+    byId.set(id, card);
+    cards.push(card);
+    added++;
+  });
+
+  saveDeck(cards);
+  return added;
+};
+
+export const removeCard = (id: string) => {
+  saveDeck(loadDeck().filter(card => card.id !== id));
+};
+
+// --- Scheduling ---
+
+/**
+ * SM-2 with Anki-style grades. "again" resets the streak and brings the card
+ * back in a few minutes; the others grow the interval by the card's ease,
+ * which itself moves with how hard the recall was.
+ */
+export const scheduleCard = (card: ReviewCard, grade: ReviewGrade, now: number = Date.now()): ReviewCard => {
+  if (grade === 'again') {
+    return {
+      ...card,
+      due: now + RELEARN_DELAY_MS,
+      interval: 0,
+      ease: Math.max(MIN_EASE, card.ease - 0.2),
+      repetitions: 0,
+      lapses: card.lapses + 1,
+      lastReviewedAt: now,
+    };
+  }
+
+  // SM-2 quality 3/4/5 for hard/good/easy
+  const quality = grade === 'hard' ? 3 : grade === 'good' ? 4 : 5;
+  const ease = Math.max(MIN_EASE, card.ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+
+  let interval: number;
+  if (card.repetitions === 0) {
+    interval = grade === 'easy' ? 4 : 1;
+  } else if (card.repetitions === 1) {
+    interval = grade === 'hard' ? 3 : grade === 'good' ? 6 : 8;
+  } else {
+    const multiplier = grade === 'hard' ? HARD_MULTIPLIER : grade === 'good' ? ease : ease * EASY_BONUS;
+    interval = Math.max(card.interval + 1, Math.round(card.interval * multiplier));
+  }
+
+  return {
+    ...card,
+    due: now + interval * DAY_MS,
+    interval,
+    ease,
+    repetitions: card.repetitions + 1,
+    lastReviewedAt: now,
+  };
+};
+
+export const gradeCard = (id: string, grade: ReviewGrade, now: number = Date.now()): ReviewCard | null => {
+  const cards = loadDeck();
+  const index = cards.findIndex(card => card.id === id);
+  if (index < 0) return null;
+  cards[index] = scheduleCard(cards[index], grade, now);
+  saveDeck(cards);
+  return cards[index];
+};
+
+// Cards due now, most overdue first, capped at the daily limit
+export const getDueCards = (cards: ReviewCard[] = loadDeck(), now: number = Date.now()): ReviewCard[] =>
+  cards
+    .filter(card => card.due <= now)
+    .sort((a, b) => a.due - b.due)
+    .slice(0, DAILY_REVIEW_LIMIT);
+
+export interface DeckStats {
+  total: number;
+  due: number;
+  reviewedToday: number;
+  mature: number; // Interval of three weeks or more
+}
+
+export const getDeckStats = (cards: ReviewCard[] = loadDeck(), now: number = Date.now()): DeckStats => {
+  const startOfDay = new Date(now).setHours(0, 0, 0, 0);
+  return {
+    total: cards.length,
+    due: Math.min(DAILY_REVIEW_LIMIT, cards.filter(card => card.due <= now).length),
+    reviewedToday: cards.filter(card => (card.lastReviewedAt || 0) >= startOfDay).length,
+    mature: cards.filter(card => card.interval >= 21).length,
+  };
+};
+
+export const formatInterval = (card: ReviewCard, now: number = Date.now()): string => {
+  const ms = card.due - now;
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))} 分钟`;
+  if (ms < DAY_MS) return `${Math.round(ms / 3600000)} 小时`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days} 天`;
+  if (days < 365) return `${Math.round(days / 30)} 个月`;
+  return `${(days / 365).toFixed(1)} 年`;
+};
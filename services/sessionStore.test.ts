@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { applyProgressRecord, createProgressRecord, migrateSession, SESSION_VERSION } from './sessionStore';
+
+const rawLevel = (english: string) => ({
+  id: 7,
+  english,
+  chinese: '中文',
+  difficulty: 'Basic',
+  phonetics: '',
+  words: english.split(' ').map(text => ({ text, ipa: '', chinese: '' })),
+  grammarAnalysis: ['主谓结构'],
+  vocabAnalysis: [{ word: 'hello', pos: 'int.', meaning: '你好', usage: '' }],
+  tip: { content: '' },
+});
+
+const attempt = (overrides: Record<string, unknown> = {}) => ({
+  scores: { accuracy: 90, fluency: 80, completeness: 100 },
+  transcript: 'hello world',
+  feedback: 'Good',
+  errors: [],
+  attemptedAt: 1,
+  ...overrides,
+});
+
+// The layout written by the first build that saved sessions
+const v1Session = () => ({
+  version: 1,
+  session: {
+    module: 'article',
+    sourceText: 'Hello world. Good night moon.',
+    sentences: [rawLevel('Hello world.'), rawLevel('Good night moon.')],
+    scenario: null,
+    progress: { currentIndex: 1, unlockedIndex: 1, history: { 0: attempt({ score: 0 }) } },
+    isPartial: false,
+    startedAt: 1,
+    savedAt: 2,
+  },
+});
+
+describe('migrateSession', () => {
+  it('upgrades a version 1 save to the current layout', () => {
+    const session = migrateSession(v1Session());
+    expect(session).not.toBeNull();
+    expect(session!.courseId).toMatch(/\S/);
+    expect(session!.title).toBe('Hello world. Good night moon.');
+    // v3: attempts become a list, without the old placeholder score
+    expect(session!.progress.history[0]).toEqual([attempt()]);
+    // v4: checkpoints start empty
+    expect(session!.progress.checkpoints).toEqual({});
+    expect(session!.sentences.map(s => s.id)).toEqual([1, 2]);
+  });
+
+  it('keeps a current save as it is', () => {
+    const current = migrateSession(v1Session())!;
+    expect(migrateSession({ version: SESSION_VERSION, session: current })).toEqual(current);
+  });
+
+  it('ignores saves it cannot read', () => {
+    expect(migrateSession(null)).toBeNull();
+    expect(migrateSession({ session: v1Session().session })).toBeNull();
+    expect(migrateSession({ version: SESSION_VERSION + 1, session: v1Session().session })).toBeNull();
+    expect(migrateSession({ version: 0, session: v1Session().session })).toBeNull();
+  });
+
+  it('rejects a save with an unusable level', () => {
+    const save = v1Session();
+    save.session.sentences[1] = { ...rawLevel('Good night moon.'), chinese: '' };
+    expect(migrateSession(save)).toBeNull();
+  });
+
+  it('rejects or cleans up corrupt fields instead of passing them through', () => {
+    const current = migrateSession(v1Session())!;
+    const save = (session: Record<string, unknown>) => migrateSession({ version: SESSION_VERSION, session: { ...current, ...session } });
+    expect(save({ module: 'podcast' })).toBeNull();
+    expect(save({ courseId: 42 })).toBeNull();
+    expect(save({ module: 'scenario', scenario: { title: 'Hotel', exchanges: [] } })).toBeNull();
+
+    const cleaned = save({ title: 7, isPartial: 'yes', generation: { generatedAt: '2026', level: 'Z9' }, progress: { history: { 0: [null, attempt()] } } });
+    expect(cleaned).toMatchObject({
+      title: current.title,
+      isPartial: false,
+      generation: { provider: 'unknown', generatedAt: 0, level: undefined },
+      progress: { history: { 0: [attempt()] } },
+    });
+  });
+
+  it('clamps progress to the levels that exist and drops empty history', () => {
+    const current = migrateSession(v1Session())!;
+    const session = migrateSession({
+      version: SESSION_VERSION,
+      session: {
+        ...current,
+        progress: { currentIndex: 9, unlockedIndex: 'x', history: { 0: [], 1: [attempt()] }, checkpoints: { 0: { passed: true } } },
+      },
+    });
+    expect(session!.progress).toEqual({ currentIndex: 1, unlockedIndex: 0, history: { 1: [attempt()] }, checkpoints: {} });
+  });
+});
+
+describe('applyProgressRecord', () => {
+  const course = () => ({ ...migrateSession(v1Session())!, savedAt: 1000 });
+  const progress = { currentIndex: 1, unlockedIndex: 1, history: { 0: [attempt()] }, checkpoints: {} };
+
+  it('takes progress saved after the course', () => {
+    const current = course();
+    const session = applyProgressRecord(current, createProgressRecord(current.courseId, progress, 2000));
+    expect(session).toMatchObject({ progress, savedAt: 2000 });
+  });
+
+  it('keeps the course progress when the record is older, for another course or unreadable', () => {
+    const current = course();
+    expect(applyProgressRecord(current, createProgressRecord(current.courseId, progress, 500))).toBe(current);
+    expect(applyProgressRecord(current, createProgressRecord('other', progress, 2000))).toBe(current);
+    expect(applyProgressRecord(current, { ...createProgressRecord(current.courseId, progress, 2000), version: 1 })).toBe(current);
+    expect(applyProgressRecord(current, null)).toBe(current);
+  });
+});
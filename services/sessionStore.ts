@@ -0,0 +1,206 @@
+import {
+  CheckpointResult, CourseModule, EvaluationResult, GenerationInfo, SavedSession, Scenario, SentenceData, SessionProgress
+} from "../types";
+import { validateLevel, validateScenario } from "./curriculumValidator";
+import { CEFR_LEVELS } from "./proficiency";
+
+const STORAGE_KEY = 'linguist-active-session';
+const PROGRESS_KEY = 'linguist-active-progress';
+
+/**
+ * Bump when SavedSession or SentenceData changes shape, and add a migration
+ * from the previous version below. Saves newer than this build are ignored.
+ */
+export const SESSION_VERSION = 4;
+
+// crypto.randomUUID is missing on insecure origins, and ids only need to be unique per browser
+export const createCourseId = () => `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const defaultCourseTitle = (module: CourseModule, sourceText: string, scenario: Pick<Scenario, 'title'> | null) => {
+  if (module === 'scenario' && scenario?.title) return scenario.title;
+  const words = sourceText.trim().split(/\s+/);
+  return words.slice(0, 12).join(' ') + (words.length > 12 ? '…' : '');
+};
+
+const MODULES: CourseModule[] = ['article', 'vocab', 'scenario'];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Saves are read back from localStorage and IndexedDB, so every field is checked before use
+type StoredSession = Record<string, unknown>;
+
+type Migration = (data: StoredSession) => StoredSession;
+
+// MIGRATIONS[n] upgrades a version n save to version n + 1
+const MIGRATIONS: Record<number, Migration> = {
+  // v2: courses get an id and an editable title for the course library
+  1: data => ({
+    ...data,
+    courseId: createCourseId(),
+    title: defaultCourseTitle(
+      MODULES.find(m => m === data.module) ?? 'article',
+      typeof data.sourceText === 'string' ? data.sourceText : '',
+      isObject(data.scenario) && typeof data.scenario.title === 'string' ? { title: data.scenario.title } : null
+    ),
+  }),
+  // v3: every attempt per level is kept; the old placeholder score of 0 is dropped
+  2: data => {
+    if (!isObject(data.progress)) return data;
+    const history = isObject(data.progress.history) ? data.progress.history : {};
+    return {
+      ...data,
+      progress: {
+        ...data.progress,
+        history: Object.fromEntries(
+          Object.entries(history).flatMap(([index, attempt]) => {
+            if (!isObject(attempt)) return [];
+            const { score, ...result } = attempt;
+            return [[index, [result]]];
+          })
+        ),
+      },
+    };
+  },
+  // v4: end-of-stage checkpoint results; stages already unlocked stay unlocked
+  3: data => (isObject(data.progress) ? { ...data, progress: { ...data.progress, checkpoints: {} } } : data),
+};
+
+const isAttempt = (value: unknown): value is EvaluationResult =>
+  isObject(value) && Array.isArray(value.errors) && (value.score === undefined || typeof value.score === 'number');
+
+const toCheckpointResult = (value: unknown): CheckpointResult | null =>
+  isObject(value) && typeof value.score === 'number' && typeof value.passed === 'boolean'
+    ? { score: value.score, passed: value.passed, attemptedAt: typeof value.attemptedAt === 'number' ? value.attemptedAt : 0 }
+    : null;
+
+const toGeneration = (value: unknown): GenerationInfo | undefined => {
+  if (!isObject(value)) return undefined;
+  return {
+    provider: String(value.provider || 'unknown'),
+    model: String(value.model || 'unknown'),
+    promptVersion: String(value.promptVersion || 'unknown'),
+    generatedAt: typeof value.generatedAt === 'number' ? value.generatedAt : 0,
+    level: CEFR_LEVELS.find(level => level === value.level),
+  };
+};
+
+const toProgress = (value: unknown, lastIndex: number): SessionProgress => {
+  const progress = isObject(value) ? value : {};
+  const history = isObject(progress.history) ? progress.history : {};
+  const checkpoints = isObject(progress.checkpoints) ? progress.checkpoints : {};
+  return {
+    currentIndex: Math.min(Number(progress.currentIndex) || 0, lastIndex),
+    unlockedIndex: Math.min(Number(progress.unlockedIndex) || 0, lastIndex),
+    history: Object.fromEntries(Object.entries(history).flatMap(([index, attempts]) => {
+      const valid = Array.isArray(attempts) ? attempts.filter(isAttempt) : [];
+      return valid.length > 0 ? [[index, valid]] : [];
+    })),
+    checkpoints: Object.fromEntries(Object.entries(checkpoints).flatMap(([stage, result]) => {
+      const checkpoint = toCheckpointResult(result);
+      return checkpoint ? [[stage, checkpoint]] : [];
+    })),
+  };
+};
+
+export const migrateSession = (raw: unknown): SavedSession | null => {
+  if (!isObject(raw)) return null;
+  const { version, session: stored } = raw;
+  if (typeof version !== 'number' || !isObject(stored) || version > SESSION_VERSION) return null;
+
+  let session: StoredSession = stored;
+  for (let from = version; from < SESSION_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) return null;
+    session = migrate(session);
+  }
+
+  const module = MODULES.find(m => m === session.module);
+  if (typeof session.courseId !== 'string' || !session.courseId || !module) return null;
+
+  // Re-validate levels so a save written by an older, laxer build cannot crash the session
+  if (!Array.isArray(session.sentences) || session.sentences.length === 0) return null;
+  const sentences: SentenceData[] = [];
+  for (const [index, raw] of session.sentences.entries()) {
+    const { sentence } = validateLevel(raw);
+    if (!sentence) return null;
+    sentences.push({ ...sentence, id: index + 1 });
+  }
+
+  const scenario = module === 'scenario' ? validateScenario(session.scenario, sentences.length) : null;
+  if (module === 'scenario' && !scenario) return null;
+
+  const sourceText = typeof session.sourceText === 'string' ? session.sourceText : '';
+  const startedAt = typeof session.startedAt === 'number' ? session.startedAt : 0;
+  return {
+    courseId: session.courseId,
+    title: typeof session.title === 'string' && session.title ? session.title : defaultCourseTitle(module, sourceText, scenario),
+    module,
+    sourceText,
+    sentences,
+    scenario,
+    progress: toProgress(session.progress, sentences.length - 1),
+    isPartial: session.isPartial === true,
+    generation: toGeneration(session.generation),
+    startedAt,
+    savedAt: typeof session.savedAt === 'number' ? session.savedAt : startedAt,
+  };
+};
+
+/**
+ * Practice progress saved apart from the course, so each step rewrites a few
+ * hundred bytes instead of every level. Only records written by this version
+ * are read; after an upgrade the course's own, older copy is used instead.
+ */
+export interface ProgressRecord {
+  courseId: string;
+  version: number;
+  progress: SessionProgress;
+  savedAt: number;
+}
+
+export const createProgressRecord = (courseId: string, progress: SessionProgress, savedAt = Date.now()): ProgressRecord =>
+  ({ courseId, version: SESSION_VERSION, progress, savedAt });
+
+// Takes the progress from `raw` if it is a record for this course saved no earlier than the course itself
+export const applyProgressRecord = (session: SavedSession, raw: unknown): SavedSession => {
+  if (!isObject(raw) || raw.version !== SESSION_VERSION || raw.courseId !== session.courseId) return session;
+  if (typeof raw.savedAt !== 'number' || raw.savedAt < session.savedAt) return session;
+  return { ...session, progress: toProgress(raw.progress, session.sentences.length - 1), savedAt: raw.savedAt };
+};
+
+const readStored = (key: string): unknown => {
+  try {
+    return JSON.parse(localStorage.getItem(key) || 'null');
+  } catch (error) {
+    console.warn(`Ignoring unreadable ${key}:`, error);
+    return null;
+  }
+};
+
+export const loadSession = (): SavedSession | null => {
+  const session = migrateSession(readStored(STORAGE_KEY));
+  return session && applyProgressRecord(session, readStored(PROGRESS_KEY));
+};
+
+export const saveSession = (session: SavedSession) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ version: SESSION_VERSION, session }));
+  } catch (error) {
+    // Quota exceeded: keep practicing, the session just won't survive a reload
+    console.warn("Could not save session:", error);
+  }
+};
+
+export const saveSessionProgress = (record: ProgressRecord) => {
+  try {
+    localStorage.setItem(PROGRESS_KEY, JSON.stringify(record));
+  } catch (error) {
+    console.warn("Could not save progress:", error);
+  }
+};
+
+export const clearSession = () => {
+  localStorage.removeItem(STORAGE_KEY);
+  localStorage.removeItem(PROGRESS_KEY);
+};
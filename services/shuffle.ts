@@ -0,0 +1,9 @@
+// Fisher–Yates shuffle into a new array; pass a seeded random for repeatable order
+export const shuffle = <T>(list: T[], random: () => number = Math.random): T[] => {
+  const result = [...list];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { chunkText, countWords, splitIntoSentences } from './textChunker';
+
+describe('splitIntoSentences', () => {
+  it('splits on terminal punctuation followed by a capital', () => {
+    expect(splitIntoSentences('It rained. We stayed in! Did you? "Yes," she said.')).toEqual([
+      'It rained.', 'We stayed in!', 'Did you?', '"Yes," she said.',
+    ]);
+  });
+
+  it('does not split after abbreviations or initials', () => {
+    expect(splitIntoSentences('Mr. Smith met Dr. Jones at 5 p.m. today. J. K. Rowling wrote it.')).toEqual([
+      'Mr. Smith met Dr. Jones at 5 p.m. today.', 'J. K. Rowling wrote it.',
+    ]);
+  });
+
+  it('ends a sentence at "no." unless a number follows', () => {
+    expect(splitIntoSentences('He said no. She left. Room No. 5 is free.')).toEqual([
+      'He said no.', 'She left.', 'Room No. 5 is free.',
+    ]);
+  });
+
+  it('ends a sentence at the pronoun "I."', () => {
+    expect(splitIntoSentences('You like tea, and so do I. We drink it daily.')).toEqual([
+      'You like tea, and so do I.', 'We drink it daily.',
+    ]);
+  });
+
+  it('always breaks at paragraphs and collapses whitespace', () => {
+    expect(splitIntoSentences('First line\nwraps here\n\nsecond paragraph')).toEqual([
+      'First line wraps here', 'second paragraph',
+    ]);
+  });
+});
+
+describe('chunkText', () => {
+  const text = 'One two three. Four five six. Seven eight nine. Ten eleven twelve.';
+
+  it('groups whole sentences up to the word budget', () => {
+    expect(chunkText(text, 6)).toEqual(['One two three. Four five six.', 'Seven eight nine. Ten eleven twelve.']);
+  });
+
+  it('keeps a sentence longer than the budget in one chunk', () => {
+    const chunks = chunkText(text, 2);
+    expect(chunks).toHaveLength(4);
+    expect(chunks.join(' ')).toBe(text);
+  });
+
+  it('covers the whole text', () => {
+    expect(countWords(chunkText(text, 7).join(' '))).toBe(countWords(text));
+  });
+});
@@ -0,0 +1,66 @@
+// Abbreviations that end with a period but do not end a sentence.
+const ABBREVIATIONS = new Set([
+  'mr', 'mrs', 'ms', 'dr', 'prof', 'sr', 'jr', 'st', 'vs', 'etc', 'e.g', 'i.e',
+  'inc', 'ltd', 'co', 'corp', 'fig', 'jan', 'feb', 'mar', 'apr', 'jun',
+  'jul', 'aug', 'sep', 'sept', 'oct', 'nov', 'dec', 'u.s', 'u.k',
+]);
+
+export const countWords = (text: string): number => text.trim().split(/\s+/).filter(Boolean).length;
+
+/**
+ * Splits text into sentences. Paragraph breaks are always boundaries;
+ * otherwise a boundary is terminal punctuation followed by a capitalized/quoted start.
+ */
+export const splitIntoSentences = (text: string): string[] => {
+  const sentences: string[] = [];
+
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    const candidates = paragraph
+      .replace(/\s+/g, ' ')
+      .trim()
+      .split(/(?<=[.!?…]["'”’)\]]*)\s+(?=["'“‘(\[]?[A-Z0-9])/);
+
+    let buffer = '';
+    candidates.forEach((part, index) => {
+      buffer = buffer ? `${buffer} ${part}` : part;
+      const lastWord = (buffer.split(' ').pop() || '').replace(/^["'“‘(]+/, '').replace(/\.$/, '');
+      const stem = lastWord.toLowerCase();
+      const next = candidates[index + 1] || '';
+      // Single capital letters ("J. K. Rowling") are initials, not sentence ends, except the
+      // pronoun ("so do I."); "no." only abbreviates "number" before a digit ("No. 5").
+      const isAbbreviation = ABBREVIATIONS.has(stem)
+        || /^[A-HJ-Z]$/.test(lastWord)
+        || (stem === 'no' && /^\d/.test(next));
+      if (!isAbbreviation) {
+        sentences.push(buffer);
+        buffer = '';
+      }
+    });
+    if (buffer) sentences.push(buffer);
+  });
+
+  return sentences.filter(Boolean);
+};
+
+/**
+ * Groups sentences into chunks of roughly `maxWords`, never cutting a sentence.
+ */
+export const chunkText = (text: string, maxWords: number): string[] => {
+  const chunks: string[] = [];
+  let current: string[] = [];
+  let currentWords = 0;
+
+  splitIntoSentences(text).forEach(sentence => {
+    const words = countWords(sentence);
+    if (current.length > 0 && currentWords + words > maxWords) {
+      chunks.push(current.join(' '));
+      current = [];
+      currentWords = 0;
+    }
+    current.push(sentence);
+    currentWords += words;
+  });
+  if (current.length > 0) chunks.push(current.join(' '));
+
+  return chunks;
+};
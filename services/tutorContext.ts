@@ -0,0 +1,64 @@
+import { TutorContext } from "../types";
+
+export type TutorContextField = 'english' | 'chinese' | 'grammar' | 'vocab' | 'evaluation';
+
+export const TUTOR_CONTEXT_FIELDS: { field: TutorContextField; label: string }[] = [
+  { field: 'english', label: '英文原句' },
+  { field: 'chinese', label: '中文翻译' },
+  { field: 'grammar', label: '语法分析' },
+  { field: 'vocab', label: '词汇解析' },
+  { field: 'evaluation', label: '发音评测' },
+];
+
+const STORAGE_KEY = 'linguist-tutor-context-fields';
+
+export const loadSharedFields = (): TutorContextField[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+    if (Array.isArray(stored)) {
+      return TUTOR_CONTEXT_FIELDS.map(f => f.field).filter(field => stored.includes(field));
+    }
+  } catch (e) {
+    // Fall through to sharing everything
+  }
+  return TUTOR_CONTEXT_FIELDS.map(f => f.field);
+};
+
+export const saveSharedFields = (fields: TutorContextField[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(fields));
+};
+
+/**
+ * Renders the shared parts of the current level as plain text for the tutor's
+ * system instruction. The chat panel shows this exact text to the learner.
+ * Returns '' when nothing is shared.
+ */
+export const formatTutorContext = (context: TutorContext, fields: TutorContextField[]): string => {
+  const { sentence, evaluation } = context;
+  const lines: string[] = [];
+
+  if (fields.includes('english')) lines.push(`英文原句: ${sentence.english}`);
+  if (fields.includes('chinese')) lines.push(`中文翻译: ${sentence.chinese}`);
+  if (fields.includes('grammar') && sentence.grammarAnalysis.length > 0) {
+    lines.push('语法分析:', ...sentence.grammarAnalysis.map(point => `- ${point}`));
+  }
+  if (fields.includes('vocab') && sentence.vocabAnalysis.length > 0) {
+    lines.push('词汇解析:', ...sentence.vocabAnalysis.map(v =>
+      `- ${v.word}${v.ipa ? ` ${v.ipa}` : ''} (${v.pos}) ${v.meaning}；${v.usage}`
+    ));
+  }
+  if (fields.includes('evaluation') && evaluation) {
+    if (evaluation.transcript) lines.push(`学员朗读识别结果: ${evaluation.transcript}`);
+    if (evaluation.feedback) lines.push(`发音总评: ${evaluation.feedback}`);
+    if (evaluation.errors.length > 0) {
+      lines.push('发音问题:', ...evaluation.errors.map(e =>
+        `- ${e.word}: 应为 ${e.expectedPhoneme}，读成了 ${e.actualPhonemeLike}`
+      ));
+    } else if (evaluation.transcript || evaluation.feedback) {
+      lines.push('发音问题: 无');
+    }
+  }
+
+  if (lines.length === 0) return '';
+  return [`学员当前正在练习第 ${context.levelNumber} 关：`, ...lines].join('\n');
+};
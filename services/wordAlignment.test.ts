@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { alignWords, comparableWord } from './wordAlignment';
+
+const words = (sentence: string) => sentence.split(' ');
+
+describe('comparableWord', () => {
+  it('ignores case, punctuation, apostrophes and hyphens', () => {
+    expect(comparableWord('Don’t,')).toBe('dont');
+    expect(comparableWord('E-mail.')).toBe('email');
+  });
+
+  it('spells out small numbers', () => {
+    expect(comparableWord('2')).toBe('two');
+    expect(comparableWord('250')).toBe('250');
+  });
+});
+
+describe('alignWords', () => {
+  it('matches a perfect reading regardless of case and punctuation', () => {
+    const result = alignWords(words('I have two cats.'), 'i have 2 cats');
+    expect(result).toMatchObject({ matched: 4, substituted: 0, omitted: 0, inserted: 0 });
+  });
+
+  it('reports omitted, inserted and substituted words with their target index', () => {
+    const result = alignWords(words('She sells sea shells today'), 'she sells see shells really today');
+    expect(result).toMatchObject({ matched: 4, substituted: 1, omitted: 0, inserted: 1 });
+    expect(result.words.find(w => w.op === 'substitution')).toMatchObject({ target: 'sea', spoken: 'see', targetIndex: 2 });
+    expect(result.words.find(w => w.op === 'insertion')).toMatchObject({ spoken: 'really', targetIndex: 3 });
+
+    const skipped = alignWords(words('She sells sea shells'), 'she sells shells');
+    expect(skipped.words.filter(w => w.op === 'omission')).toEqual([{ op: 'omission', target: 'sea', targetIndex: 2 }]);
+  });
+
+  it('leaves punctuation-only words out of the alignment', () => {
+    const result = alignWords(['Wait', '—', 'what?'], 'wait what');
+    expect(result.words.map(w => w.targetIndex)).toEqual([0, 2]);
+    expect(result.matched).toBe(2);
+  });
+
+  it('treats an empty transcript as every word omitted', () => {
+    expect(alignWords(words('Good morning'), '')).toMatchObject({ matched: 0, omitted: 2 });
+  });
+});
@@ -0,0 +1,121 @@
+import { AlignedWord, WordAlignment } from "../types";
+import { normalizeToken } from "./curriculumValidator";
+
+const GAP_COST = 1;
+
+// Speech recognizers write small numbers as digits
+const NUMBER_WORDS = [
+  'zero', 'one', 'two', 'three', 'four', 'five', 'six', 'seven', 'eight', 'nine', 'ten',
+  'eleven', 'twelve', 'thirteen', 'fourteen', 'fifteen', 'sixteen', 'seventeen', 'eighteen', 'nineteen', 'twenty',
+];
+
+/**
+ * Comparable form of a word: lowercase, no punctuation, apostrophes and hyphens
+ * dropped ("don't" = "dont", "e-mail" = "email"), small numbers spelled out.
+ */
+export const comparableWord = (word: string): string => {
+  const token = normalizeToken(word).replace(/['-]/g, '');
+  return /^\d+$/.test(token) && Number(token) < NUMBER_WORDS.length ? NUMBER_WORDS[Number(token)] : token;
+};
+
+const characterDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Similar-sounding words are cheaper to substitute, so "want to" vs "wanna" pairs want/wanna.
+// Unrelated words cost more than a gap, so a skipped word and an extra one are not paired up.
+const substitutionCost = (a: string, b: string): number => {
+  if (a === b) return 0;
+  return 0.5 + characterDistance(a, b) / Math.max(a.length, b.length);
+};
+
+/**
+ * Needleman–Wunsch alignment of the target words against the transcript.
+ * `targetWords` are display words (e.g. SentenceData.words texts) so results can be
+ * mapped back by index; words that are pure punctuation are left out of the alignment.
+ */
+export const alignWords = (targetWords: string[], transcript: string): WordAlignment => {
+  const target = targetWords
+    .map((word, index) => ({ word, index, key: comparableWord(word) }))
+    .filter(t => t.key);
+  const spoken = transcript.split(/\s+/)
+    .map(word => ({ word, key: comparableWord(word) }))
+    .filter(s => s.key);
+
+  const rows = target.length + 1;
+  const cols = spoken.length + 1;
+  const cost: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i * GAP_COST;
+    return row;
+  });
+  for (let j = 1; j < cols; j++) cost[0][j] = j * GAP_COST;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      cost[i][j] = Math.min(
+        cost[i - 1][j - 1] + substitutionCost(target[i - 1].key, spoken[j - 1].key),
+        cost[i - 1][j] + GAP_COST, // Target word omitted
+        cost[i][j - 1] + GAP_COST // Extra word spoken
+      );
+    }
+  }
+
+  // Walk back from the end. On ties matches win, then gaps, so an extra word next to
+  // a missing one is not paired up with it as a substitution
+  const words: AlignedWord[] = [];
+  let i = target.length;
+  let j = spoken.length;
+  const diagonal = () => i > 0 && j > 0 && cost[i][j] === cost[i - 1][j - 1] + substitutionCost(target[i - 1].key, spoken[j - 1].key);
+  while (i > 0 || j > 0) {
+    const isMatch = i > 0 && j > 0 && target[i - 1].key === spoken[j - 1].key && diagonal();
+    const isOmission = !isMatch && i > 0 && cost[i][j] === cost[i - 1][j] + GAP_COST;
+    const isInsertion = !isMatch && !isOmission && j > 0 && cost[i][j] === cost[i][j - 1] + GAP_COST;
+    if (isMatch || (!isOmission && !isInsertion && diagonal())) {
+      const t = target[i - 1];
+      const s = spoken[j - 1];
+      words.push({ op: isMatch ? 'match' : 'substitution', target: t.word, spoken: s.word, targetIndex: t.index });
+      i--;
+      j--;
+    } else if (isOmission) {
+      const t = target[i - 1];
+      words.push({ op: 'omission', target: t.word, targetIndex: t.index });
+      i--;
+    } else {
+      words.push({ op: 'insertion', spoken: spoken[j - 1].word, targetIndex: i > 0 ? target[i - 1].index : -1 });
+      j--;
+    }
+  }
+  words.reverse();
+
+  const count = (op: AlignedWord['op']) => words.filter(w => w.op === op).length;
+  return {
+    words,
+    matched: count('match'),
+    substituted: count('substitution'),
+    omitted: count('omission'),
+    inserted: count('insertion'),
+  };
+};
+
+/**
+ * Plain-text summary of an alignment for evaluation prompts.
+ */
+export const describeAlignment = (alignment: WordAlignment): string => {
+  const list = (op: AlignedWord['op'], format: (w: AlignedWord) => string) =>
+    alignment.words.filter(w => w.op === op).map(format).join(', ') || '无';
+  return [
+    `读对: ${list('match', w => w.target!)}`,
+    `读成别的词: ${list('substitution', w => `${w.target} → ${w.spoken}`)}`,
+    `漏读: ${list('omission', w => w.target!)}`,
+    `多读: ${list('insertion', w => w.spoken!)}`,
+  ].join('\n');
+};
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { createZip } from './zipArchive';
+
+const bytes = (text: string) => new TextEncoder().encode(text);
+
+describe('createZip', () => {
+  // a.txt = "hi" (local header at 0, 30 + 5 + 2 bytes)
+  // b/é.txt = "xyz" (local header at 37, 30 + 8 + 3 bytes)
+  // central directory at 78 (46 + 5 + 46 + 8 bytes), end record at 183
+  const zip = createZip([
+    { name: 'a.txt', data: bytes('hi') },
+    { name: 'b/é.txt', data: bytes('xyz') },
+  ]);
+  const view = new DataView(zip.buffer);
+
+  it('lays out local headers, central directory and end record back to back', () => {
+    expect(zip.byteLength).toBe(205);
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint32(37, true)).toBe(0x04034b50);
+    expect(view.getUint32(78, true)).toBe(0x02014b50);
+    expect(view.getUint32(129, true)).toBe(0x02014b50);
+    expect(view.getUint32(183, true)).toBe(0x06054b50);
+  });
+
+  it('writes stored entries with CRC, sizes and UTF-8 names', () => {
+    expect(view.getUint16(6, true)).toBe(0x0800);
+    expect(view.getUint16(8, true)).toBe(0);
+    expect(view.getUint32(14, true)).toBe(0xd8932aac);
+    expect(view.getUint32(18, true)).toBe(2);
+    expect(view.getUint32(22, true)).toBe(2);
+    expect(view.getUint16(26, true)).toBe(5);
+    expect(new TextDecoder().decode(zip.slice(30, 35))).toBe('a.txt');
+    expect(new TextDecoder().decode(zip.slice(35, 37))).toBe('hi');
+
+    expect(view.getUint32(37 + 14, true)).toBe(0xeb8eba67);
+    expect(view.getUint16(37 + 26, true)).toBe(8);
+    expect(new TextDecoder().decode(zip.slice(67, 75))).toBe('b/é.txt');
+  });
+
+  it('points each central entry at its local header', () => {
+    expect(view.getUint32(78 + 16, true)).toBe(0xd8932aac);
+    expect(view.getUint32(78 + 42, true)).toBe(0);
+    expect(view.getUint32(129 + 16, true)).toBe(0xeb8eba67);
+    expect(view.getUint32(129 + 42, true)).toBe(37);
+  });
+
+  it('records the entry count, central directory size and offset', () => {
+    expect(view.getUint16(183 + 8, true)).toBe(2);
+    expect(view.getUint16(183 + 10, true)).toBe(2);
+    expect(view.getUint32(183 + 12, true)).toBe(105);
+    expect(view.getUint32(183 + 16, true)).toBe(78);
+  });
+
+  it('writes an empty archive as a bare end record', () => {
+    const empty = createZip([]);
+    expect(empty.byteLength).toBe(22);
+    expect(new DataView(empty.buffer).getUint32(0, true)).toBe(0x06054b50);
+  });
+});
@@ -3,7 +3,11 @@ export enum AppStep {
   INPUT = 'INPUT',
   GENERATING = 'GENERATING',
   PRACTICE = 'PRACTICE',
-  COMPLETED = 'COMPLETED'
+  COMPLETED = 'COMPLETED',
+  REVIEW = 'REVIEW',
+  LIBRARY = 'LIBRARY',
+  STATS = 'STATS',
+  GRAMMAR = 'GRAMMAR'
 }
 
 export interface VocabItem {
@@ -30,18 +34,73 @@ export interface WordDetail {
   chinese: string; // Added: Chinese meaning for every single word
 }
 
+// Fixed grammar taxonomy, so the same point can be tracked across courses; labels live in services/grammarTaxonomy
+export type GrammarTag =
+  | 'present-simple' | 'present-continuous' | 'present-perfect' | 'past-simple' | 'past-continuous' | 'past-perfect'
+  | 'future' | 'passive' | 'modal' | 'conditional' | 'subjunctive'
+  | 'relative-clause' | 'noun-clause' | 'adverbial-clause'
+  | 'infinitive' | 'gerund' | 'participle'
+  | 'comparison' | 'article' | 'preposition' | 'phrasal-verb' | 'conjunction' | 'pronoun'
+  | 'question' | 'negation' | 'there-be' | 'inversion' | 'emphasis' | 'other';
+
+export interface GrammarTagging {
+  tag: GrammarTag;
+  span: WordRange | null; // The words the point refers to; null when the model's excerpt was not found
+}
+
 export interface SentenceData {
   id: number;
   english: string;
   chinese: string;
   difficulty: 'Basic' | 'Intermediate' | 'Advanced';
   grammarAnalysis: string[]; // List of grammar points
+  grammarTags: GrammarTagging[]; // grammarTags[i] classifies grammarAnalysis[i]; empty on levels generated before tagging
   vocabAnalysis: WordAnalysis[];
   phonetics: string; // IPA for the whole sentence
   tip: LearningTip; // New field for the science module
   words: WordDetail[]; // New field for word-by-word display
 }
 
+export interface CurriculumRepairReport {
+  renumberedIds: boolean; // ids were missing, duplicated or not contiguous
+  retokenized: number; // levels whose `words` did not reconstruct `english`
+  filledVocab: number; // levels with empty vocabAnalysis, filled from `words`
+  regenerated: number; // unrecoverable levels re-requested from the model
+  dropped: number; // levels that could not be recovered at all
+}
+
+export interface CurriculumResult {
+  sentences: SentenceData[];
+  report: CurriculumRepairReport;
+}
+
+export interface DialogueLine {
+  english: string;
+  chinese: string;
+}
+
+export interface ScenarioRole {
+  name: string; // e.g. "Interviewer"
+  description: string; // Who they are, in Simplified Chinese
+}
+
+export interface ScenarioExchange {
+  partnerLines: DialogueLine[]; // Spoken by the partner before the learner's line; may be empty
+}
+
+export interface Scenario {
+  title: string;
+  setting: string; // The situation, in Simplified Chinese
+  learnerRole: ScenarioRole;
+  partnerRole: ScenarioRole;
+  exchanges: ScenarioExchange[]; // exchanges[i] leads into the learner's line sentences[i]
+  closingLines: DialogueLine[]; // Partner lines after the learner's last line
+}
+
+export interface ScenarioResult extends CurriculumResult {
+  scenario: Scenario;
+}
+
 export interface PronunciationError {
   word: string;
   expectedPhoneme: string;
@@ -50,11 +109,200 @@ export interface PronunciationError {
   example: string; // Contrast example
 }
 
+export type AlignmentOp = 'match' | 'substitution' | 'omission' | 'insertion';
+
+export interface AlignedWord {
+  op: AlignmentOp;
+  target?: string; // Missing for insertions
+  spoken?: string; // Missing for omissions
+  targetIndex: number; // Index into SentenceData.words; for insertions, the word they follow (-1 at the start)
+}
+
+// Deterministic word-level diff of the target sentence against the transcript
+export interface WordAlignment {
+  words: AlignedWord[]; // In reading order
+  matched: number;
+  substituted: number;
+  omitted: number;
+  inserted: number;
+}
+
+// All 0-100
+export interface PronunciationScores {
+  accuracy: number; // How close the sounds are to the target
+  completeness: number; // Share of target words that were read
+  fluency: number; // Rhythm, pauses and linking
+}
+
+export interface WordConfidence {
+  word: string;
+  confidence: number; // 0-1, how sure the assessor is that the word was pronounced correctly
+}
+
+export type PracticeMode = 'reading' | 'dictation' | 'shadowing' | 'cloze' | 'translation';
+
+export interface WordRange {
+  start: number; // Indexes into SentenceData.words, inclusive
+  end: number;
+}
+
+// A blank in a level's sentence, covering words[start..end]
+export interface ClozeItem {
+  start: number;
+  end: number;
+  answer: string; // The blanked words without surrounding punctuation
+  kind: 'vocab' | 'grammar';
+  meaning: string; // Chinese meaning, shown after grading
+  distractors: string[]; // Wrong options for multiple choice, from the model; empty until loaded
+}
+
+// A consecutive piece of a learner's English translation, as judged against the reference
+export interface TranslationSegment {
+  text: string;
+  status: 'match' | 'alternative' | 'error'; // Same as the reference / different but acceptable / wrong
+  reference?: string; // The reference wording this piece stands for
+  correction?: string; // Errors: what to write instead
+  note?: string; // Chinese explanation
+}
+
+export interface TranslationGrade {
+  meaning: number; // 0-100 each
+  grammar: number;
+  naturalness: number;
+  segments: TranslationSegment[]; // Cover the learner's answer in order
+  missing: { text: string; note: string }[]; // Reference content the answer left out
+  improved: string; // The learner's answer with its errors fixed, kept as close to it as possible
+}
+
+// Shadowing: looping a phrase, or one listen → pause → speak-along cycle
+export type ShadowingPhase = 'idle' | 'loop' | 'listen' | 'pause' | 'speak';
+
 export interface EvaluationResult {
+  mode?: PracticeMode; // Missing on read-aloud attempts; dictation, cloze and translation attempts carry the typed answers as `transcript` and no scores
+  segment?: WordRange; // Shadowing a phrase rather than the whole sentence
+  cloze?: { correct: number; total: number }; // Cloze attempts: blanks filled correctly
+  translation?: TranslationGrade; // Translation attempts
   imageUrl?: string; // New field for the generated cartoon
-  // Fields below are kept optional for backward compatibility if we ever switch back
-  score?: number;
+  // Fields below are optional because attempts saved by older builds lack them
+  score?: number; // Overall 0-100, the mean of `scores`
+  scores?: PronunciationScores;
+  wordConfidence?: WordConfidence[];
   transcript?: string;
   errors: PronunciationError[]; 
   feedback?: string;
+  assessedFrom?: 'audio' | 'transcript'; // Whether errors were judged from the recording itself
+  alignment?: WordAlignment;
+  attemptedAt?: number;
+}
+
+export interface TutorContext {
+  levelNumber: number; // 1-based, as shown on the challenge map
+  sentence: SentenceData;
+  evaluation: EvaluationResult | null; // Latest pronunciation feedback for this level
+}
+
+export type CefrLevel = 'A1' | 'A2' | 'B1' | 'B2' | 'C1' | 'C2';
+
+export type PlacementSkill = 'vocab' | 'grammar' | 'listening' | 'speaking';
+
+export interface PlacementItem {
+  skill: PlacementSkill;
+  level: CefrLevel;
+  question: string; // Instruction or question, in Simplified Chinese (vocab/grammar items include the English stem)
+  audioText: string; // listening: played via TTS; speaking: read aloud by the learner; otherwise empty
+  options: string[]; // Empty for speaking items
+  answerIndex: number; // -1 for speaking items
+  explanation: string; // Why the answer is correct, in Simplified Chinese
+}
+
+export interface ProficiencyResult {
+  level: CefrLevel;
+  testedAt: number;
+  skills: Record<PlacementSkill, { correct: number; total: number }>;
+}
+
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+export interface ReviewCard {
+  id: string; // Normalized word, one card per word
+  word: string;
+  pos: string;
+  meaning: string;
+  usage: string;
+  ipa?: string;
+  isUserWord: boolean;
+  context: { english: string; chinese: string }; // Sentence the word was learned in
+  addedAt: number;
+  // Scheduling (SM-2)
+  due: number; // Timestamp
+  interval: number; // Days until the next review after a successful recall
+  ease: number;
+  repetitions: number; // Successful recalls in a row
+  lapses: number;
+  lastReviewedAt?: number;
+}
+
+export type CourseModule = 'article' | 'vocab' | 'scenario';
+
+// Checkpoint quiz at the end of a stage. Every question takes its answer as a list of strings:
+// the meaning picked for each pair, the one option picked, or the words in the order placed
+export type CheckpointQuestion =
+  | { kind: 'matching'; pairs: { word: string; meaning: string }[] }
+  | { kind: 'grammar'; question: string; options: string[]; answer: string; explanation: string }
+  | { kind: 'listening'; text: string; options: string[] } // The answer is `text`, which is played
+  | { kind: 'wordOrder'; sentence: string; words: string[] }; // `words` are shuffled
+
+export interface CheckpointResult {
+  score: number; // 0-100
+  passed: boolean; // Reached the pass mark in force at the time
+  attemptedAt: number;
+}
+
+export interface SessionProgress {
+  currentIndex: number;
+  unlockedIndex: number;
+  history: Record<number, EvaluationResult[]>; // Attempts per level index, oldest first
+  checkpoints: Record<number, CheckpointResult>; // Best checkpoint result per stage index
+}
+
+// What produced a course; travels with shared course files
+export interface GenerationInfo {
+  provider: string; // 'gemini', or 'fixture' for offline placeholder courses
+  model: string;
+  promptVersion: string;
+  generatedAt: number;
+  level?: CefrLevel; // Placement level the prompts were tuned to
+}
+
+export interface SavedSession {
+  courseId: string; // Stable across saves; keys the course in the library
+  title: string; // Editable in the library, defaults to the scenario title or the start of sourceText
+  module: CourseModule;
+  sourceText: string; // What the learner typed
+  sentences: SentenceData[];
+  scenario: Scenario | null;
+  progress: SessionProgress;
+  isPartial: boolean; // Generation had not finished when the session was saved
+  generation?: GenerationInfo; // Missing on courses saved before it was recorded
+  startedAt: number;
+  savedAt: number;
+}
+
+export type PracticeActivity = CourseModule | 'review';
+
+// What gets logged to the local practice log behind the progress widget and stats page
+export type PracticeEvent =
+  | { type: 'level'; at: number; module: CourseModule } // A level passed for the first time
+  | { type: 'recording'; at: number; module: CourseModule; errorCount: number }
+  | { type: 'review'; at: number; grade: ReviewGrade }
+  | { type: 'time'; at: number; activity: PracticeActivity; ms: number }; // Active time on task
+
+// The practice log keeps one running total per day rather than every event
+export interface PracticeDay {
+  date: number; // Local midnight
+  ms: number; // Active time on task
+  levels: Record<CourseModule, number>;
+  recordings: number;
+  errors: number; // Pronunciation errors across the day's recordings
+  reviews: number;
 }
@@ -1,18 +1,55 @@
+import fs from 'fs';
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Dev-only endpoint used by AI_PROVIDER=record to write responses into /fixtures.
+const fixtureRecorder = (): Plugin => ({
+  name: 'fixture-recorder',
+  apply: 'serve',
+  configureServer(server) {
+    server.middlewares.use('/__fixtures', (req, res) => {
+      if (req.method !== 'POST') {
+        res.statusCode = 405;
+        res.end();
+        return;
+      }
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        try {
+          const fixture = JSON.parse(body);
+          if (!/^[0-9a-f]+$/.test(fixture.key)) throw new Error('Invalid fixture key');
+          const dir = path.resolve(__dirname, 'fixtures');
+          fs.mkdirSync(dir, { recursive: true });
+          fs.writeFileSync(path.join(dir, `${fixture.key}.json`), JSON.stringify(fixture, null, 2));
+          res.statusCode = 204;
+        } catch (error) {
+          server.config.logger.warn(`Fixture not recorded: ${(error as Error).message}`);
+          res.statusCode = 400;
+        }
+        res.end();
+      });
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        watch: {
+          // Recording must not trigger a full reload on every saved response
+          ignored: ['**/fixtures/**'],
+        },
       },
-      plugins: [react()],
+      plugins: [react(), fixtureRecorder()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER)
       },
       resolve: {
         alias: {
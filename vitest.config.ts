@@ -0,0 +1,13 @@
+import { defineConfig } from 'vitest/config';
+
+// Tests never need an API key: every model call goes to the offline fixture provider
+export default defineConfig({
+  test: {
+    include: ['services/**/*.test.ts'],
+    environment: 'node',
+    env: {
+      AI_PROVIDER: 'fixture',
+      API_KEY: '',
+    },
+  },
+});